@@ -27,7 +27,9 @@ module.exports = {
       // Rules for TypeScript files
       files: ['**/*.ts'],
       rules: {
-        // Already handled in main rules
+        // Method overloads are declared as repeated signatures
+        'no-dupe-class-members': 'off',
+        '@typescript-eslint/no-dupe-class-members': 'error',
       },
     },
     {
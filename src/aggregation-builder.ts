@@ -0,0 +1,550 @@
+import {
+  FieldPath,
+  QueryFieldPath,
+  RangeFieldPath,
+  BucketsPath,
+  PipelineOptions,
+  BucketSortOptions,
+  CompositeSource,
+  CompositeAfterKey,
+  AggregationMarker,
+  WithAggregation,
+  MetricAggregationResult,
+  CountAggregationResult,
+  StatsAggregationResult,
+  BucketMetricAggregationResult,
+  SingleBucketAggregationResult,
+  TermsAggregationResult,
+  DateHistogramAggregationResult,
+  HistogramAggregationResult,
+  RangeAggregationResult,
+  FiltersAggregationResult,
+  CompositeAggregationResult,
+} from './types'
+import { QueryBuilder } from './query-builder'
+import {
+  validateAggregationName,
+  validateFieldName,
+  validateBucketsPath,
+  validatePaginationParams,
+  validateCompositeSources,
+} from './validation'
+
+/**
+ * Callback defining the sub-aggregations of a bucket aggregation. Returning
+ * the builder lets the sub-aggregation results be inferred.
+ */
+export type SubAggregations<TDoc = any, TChildren = {}> = (
+  aggs: AggregationBuilder<TDoc>
+) => AggregationMarker<TChildren> | void
+
+/**
+ * Fluent builder for an aggregation tree.
+ *
+ * Bucket aggregations take an optional callback that receives a fresh
+ * AggregationBuilder for their sub-aggregations, to any depth:
+ * `aggs.termsAgg('brands', 'brand', 10, (b) => b.avgAgg('avg_price', 'price'))`
+ */
+export class AggregationBuilder<TDoc = any> {
+  declare readonly __aggs?: {}
+  private aggs: Record<string, any> = {}
+
+  /**
+   * `queryBuilder` creates the builders of filter callbacks; a
+   * QueryBuilder passes one sharing its input policy and schema
+   */
+  constructor(
+    private queryBuilder: () => QueryBuilder<TDoc> = () =>
+      new QueryBuilder<TDoc>()
+  ) {}
+
+  /**
+   * Add a raw aggregation, optionally with sub-aggregations. The result
+   * type may be given as `TResult`.
+   */
+  aggregate<N extends string, TResult = any>(
+    name: N,
+    aggregation: any,
+    subAggs?: SubAggregations<TDoc, any>
+  ): WithAggregation<this, N, TResult> {
+    validateAggregationName(name)
+    if (!aggregation || typeof aggregation !== 'object') {
+      throw new Error('Aggregation must be an object')
+    }
+
+    const agg = { ...aggregation }
+    if (subAggs) {
+      const children = new AggregationBuilder<TDoc>(this.queryBuilder)
+      subAggs(children)
+      const built = children.build()
+      if (Object.keys(built).length > 0) {
+        agg.aggs = { ...agg.aggs, ...built }
+      }
+    }
+
+    this.aggs[name] = agg
+    return this as WithAggregation<this, N, TResult>
+  }
+
+  // ========================================
+  // BUCKET AGGREGATIONS
+  // ========================================
+
+  /**
+   * Add terms aggregation
+   */
+  termsAgg<N extends string, C = {}>(
+    name: N,
+    field: QueryFieldPath<TDoc>,
+    size: number = 10,
+    subAggs?: SubAggregations<TDoc, C>
+  ): WithAggregation<this, N, TermsAggregationResult<C>> {
+    validateFieldName(field, 'terms aggregation')
+    if (!Number.isInteger(size) || size <= 0) {
+      throw new Error('Terms aggregation size must be a positive integer')
+    }
+    return this.aggregate(name, { terms: { field, size } }, subAggs)
+  }
+
+  /**
+   * Add date histogram aggregation. The format may be omitted and the
+   * sub-aggregation callback passed in its place.
+   */
+  dateHistogramAgg<N extends string, C = {}>(
+    name: N,
+    field: RangeFieldPath<TDoc>,
+    interval: string,
+    format?: string | SubAggregations<TDoc, C>,
+    subAggs?: SubAggregations<TDoc, C>
+  ): WithAggregation<this, N, DateHistogramAggregationResult<C>> {
+    validateFieldName(field, 'date histogram aggregation')
+    if (
+      !interval ||
+      typeof interval !== 'string' ||
+      interval.trim().length === 0
+    ) {
+      throw new Error('Date histogram interval must be a non-empty string')
+    }
+    if (typeof format === 'function') {
+      subAggs = format
+      format = undefined
+    }
+
+    const agg: any = {
+      date_histogram: {
+        field,
+        calendar_interval: interval,
+      },
+    }
+    if (format) {
+      agg.date_histogram.format = format
+    }
+    return this.aggregate(name, agg, subAggs)
+  }
+
+  /**
+   * Add histogram aggregation
+   */
+  histogramAgg<N extends string, C = {}>(
+    name: N,
+    field: RangeFieldPath<TDoc>,
+    interval: number,
+    subAggs?: SubAggregations<TDoc, C>
+  ): WithAggregation<this, N, HistogramAggregationResult<C>> {
+    validateAggregationName(name)
+    validateFieldName(field, 'histogram aggregation')
+    if (!Number.isInteger(interval) || interval <= 0) {
+      throw new Error('Histogram interval must be a positive integer')
+    }
+    return this.aggregate(name, { histogram: { field, interval } }, subAggs)
+  }
+
+  /**
+   * Add range aggregation
+   */
+  rangeAgg<N extends string, C = {}>(
+    name: N,
+    field: RangeFieldPath<TDoc>,
+    ranges: Array<{ from?: number; to?: number; key?: string }>,
+    subAggs?: SubAggregations<TDoc, C>
+  ): WithAggregation<this, N, RangeAggregationResult<C>> {
+    validateAggregationName(name)
+    validateFieldName(field, 'range aggregation')
+    if (!Array.isArray(ranges) || ranges.length === 0) {
+      throw new Error('Range aggregation requires at least one range')
+    }
+    return this.aggregate(name, { range: { field, ranges } }, subAggs)
+  }
+
+  /**
+   * Add filters aggregation
+   */
+  filtersAgg<N extends string, K extends string = string, C = {}>(
+    name: N,
+    filters: Record<K, any>,
+    subAggs?: SubAggregations<TDoc, C>
+  ): WithAggregation<this, N, FiltersAggregationResult<K, C>> {
+    validateAggregationName(name)
+    if (!filters || typeof filters !== 'object') {
+      throw new Error('Filters aggregation requires filters object')
+    }
+    return this.aggregate(name, { filters: { filters } }, subAggs)
+  }
+
+  /**
+   * Add single-bucket filter aggregation. The filter is a raw query or a
+   * callback building one.
+   */
+  filterAgg<N extends string, C = {}>(
+    name: N,
+    filter: Record<string, any> | ((builder: QueryBuilder<TDoc>) => void),
+    subAggs?: SubAggregations<TDoc, C>
+  ): WithAggregation<this, N, SingleBucketAggregationResult<C>> {
+    validateAggregationName(name)
+    let filterQuery: any = filter
+    if (typeof filter === 'function') {
+      const filterBuilder = this.queryBuilder()
+      filter(filterBuilder)
+      filterQuery = filterBuilder.build().query
+    }
+    if (!filterQuery || typeof filterQuery !== 'object') {
+      throw new Error('Filter aggregation requires a filter query')
+    }
+    return this.aggregate(name, { filter: filterQuery }, subAggs)
+  }
+
+  /**
+   * Add composite aggregation paging through every combination of the
+   * source values, `size` buckets at a time
+   */
+  compositeAgg<N extends string, C = {}>(
+    name: N,
+    sources: CompositeSource<TDoc>[],
+    size: number = 10,
+    subAggs?: SubAggregations<TDoc, C>,
+    after?: CompositeAfterKey
+  ): WithAggregation<this, N, CompositeAggregationResult<C>> {
+    validateCompositeSources(sources)
+    if (!Number.isInteger(size) || size <= 0) {
+      throw new Error('Composite aggregation size must be a positive integer')
+    }
+
+    const composite: any = { sources, size }
+    if (after) composite.after = after
+    return this.aggregate(name, { composite }, subAggs)
+  }
+
+  /**
+   * Add nested aggregation
+   */
+  nestedAgg<N extends string, C = {}>(
+    name: N,
+    path: FieldPath<TDoc>,
+    subAggs?: SubAggregations<TDoc, C>
+  ): WithAggregation<this, N, SingleBucketAggregationResult<C>> {
+    validateAggregationName(name)
+    validateFieldName(path, 'nested aggregation')
+    return this.aggregate(name, { nested: { path } }, subAggs)
+  }
+
+  /**
+   * Add reverse_nested aggregation, joining back to the root document
+   * (or to `path`) from inside a nested aggregation. The path may be
+   * omitted and the sub-aggregation callback passed in its place.
+   */
+  reverseNestedAgg<N extends string, C = {}>(
+    name: N,
+    path?: FieldPath<TDoc> | SubAggregations<TDoc, C>,
+    subAggs?: SubAggregations<TDoc, C>
+  ): WithAggregation<this, N, SingleBucketAggregationResult<C>> {
+    validateAggregationName(name)
+    if (typeof path === 'function') {
+      subAggs = path
+      path = undefined
+    }
+
+    const reverseNested: any = {}
+    if (path !== undefined) {
+      validateFieldName(path, 'reverse_nested aggregation')
+      reverseNested.path = path
+    }
+    return this.aggregate(name, { reverse_nested: reverseNested }, subAggs)
+  }
+
+  /**
+   * Add global aggregation, bucketing all documents regardless of the query
+   */
+  globalAgg<N extends string, C = {}>(
+    name: N,
+    subAggs?: SubAggregations<TDoc, C>
+  ): WithAggregation<this, N, SingleBucketAggregationResult<C>> {
+    validateAggregationName(name)
+    return this.aggregate(name, { global: {} }, subAggs)
+  }
+
+  // ========================================
+  // METRIC AGGREGATIONS
+  // ========================================
+
+  /**
+   * Add average aggregation
+   */
+  avgAgg<N extends string>(
+    name: N,
+    field: RangeFieldPath<TDoc>
+  ): WithAggregation<this, N, MetricAggregationResult> {
+    validateAggregationName(name)
+    validateFieldName(field, 'avg aggregation')
+    return this.aggregate(name, { avg: { field } })
+  }
+
+  /**
+   * Add sum aggregation
+   */
+  sumAgg<N extends string>(
+    name: N,
+    field: RangeFieldPath<TDoc>
+  ): WithAggregation<this, N, MetricAggregationResult> {
+    validateAggregationName(name)
+    validateFieldName(field, 'sum aggregation')
+    return this.aggregate(name, { sum: { field } })
+  }
+
+  /**
+   * Add max aggregation
+   */
+  maxAgg<N extends string>(
+    name: N,
+    field: RangeFieldPath<TDoc>
+  ): WithAggregation<this, N, MetricAggregationResult> {
+    validateAggregationName(name)
+    validateFieldName(field, 'max aggregation')
+    return this.aggregate(name, { max: { field } })
+  }
+
+  /**
+   * Add min aggregation
+   */
+  minAgg<N extends string>(
+    name: N,
+    field: RangeFieldPath<TDoc>
+  ): WithAggregation<this, N, MetricAggregationResult> {
+    validateAggregationName(name)
+    validateFieldName(field, 'min aggregation')
+    return this.aggregate(name, { min: { field } })
+  }
+
+  /**
+   * Add cardinality aggregation
+   */
+  cardinalityAgg<N extends string>(
+    name: N,
+    field: QueryFieldPath<TDoc>
+  ): WithAggregation<this, N, CountAggregationResult> {
+    validateAggregationName(name)
+    validateFieldName(field, 'cardinality aggregation')
+    return this.aggregate(name, { cardinality: { field } })
+  }
+
+  /**
+   * Add value count aggregation
+   */
+  valueCountAgg<N extends string>(
+    name: N,
+    field: QueryFieldPath<TDoc>
+  ): WithAggregation<this, N, CountAggregationResult> {
+    validateAggregationName(name)
+    validateFieldName(field, 'value_count aggregation')
+    return this.aggregate(name, { value_count: { field } })
+  }
+
+  // ========================================
+  // PIPELINE AGGREGATIONS
+  // ========================================
+
+  /**
+   * Add derivative pipeline (rate of change between buckets of the
+   * enclosing histogram)
+   */
+  derivativeAgg<N extends string>(
+    name: N,
+    bucketsPath: string,
+    options?: PipelineOptions & { unit?: string }
+  ): WithAggregation<this, N, MetricAggregationResult | undefined> {
+    const derivative: any = {}
+    if (options?.unit) derivative.unit = options.unit
+    return this.pipeline(name, 'derivative', bucketsPath, derivative, options)
+  }
+
+  /**
+   * Add cumulative_sum pipeline (running total across buckets of the
+   * enclosing histogram)
+   */
+  cumulativeSumAgg<N extends string>(
+    name: N,
+    bucketsPath: string,
+    options?: Pick<PipelineOptions, 'format'>
+  ): WithAggregation<this, N, MetricAggregationResult> {
+    return this.pipeline(name, 'cumulative_sum', bucketsPath, {}, options)
+  }
+
+  /**
+   * Add moving_fn pipeline over a sliding window of buckets
+   */
+  movingFnAgg<N extends string>(
+    name: N,
+    bucketsPath: string,
+    window: number,
+    script: string = 'MovingFunctions.unweightedAvg(values)',
+    options?: PipelineOptions & { shift?: number }
+  ): WithAggregation<this, N, MetricAggregationResult> {
+    if (!Number.isInteger(window) || window <= 0) {
+      throw new Error('Moving function window must be a positive integer')
+    }
+    const movingFn: any = { window, script }
+    if (options?.shift !== undefined) movingFn.shift = options.shift
+    return this.pipeline(name, 'moving_fn', bucketsPath, movingFn, options)
+  }
+
+  /**
+   * Add bucket_script pipeline computing a per-bucket value from named
+   * metrics, e.g. `{ sales: 'total_sales', count: '_count' }`
+   */
+  bucketScriptAgg<N extends string>(
+    name: N,
+    bucketsPath: Record<string, string>,
+    script: string,
+    options?: PipelineOptions
+  ): WithAggregation<this, N, MetricAggregationResult | undefined> {
+    this.validateScript(script, 'bucket_script')
+    return this.pipeline(
+      name,
+      'bucket_script',
+      bucketsPath,
+      { script },
+      options
+    )
+  }
+
+  /**
+   * Add bucket_selector pipeline keeping only buckets whose script
+   * evaluates to true
+   */
+  bucketSelectorAgg(
+    name: string,
+    bucketsPath: Record<string, string>,
+    script: string,
+    options?: Pick<PipelineOptions, 'gapPolicy'>
+  ): this {
+    this.validateScript(script, 'bucket_selector')
+    return this.pipeline(
+      name,
+      'bucket_selector',
+      bucketsPath,
+      { script },
+      options
+    )
+  }
+
+  /**
+   * Add bucket_sort pipeline sorting and truncating the buckets of the
+   * enclosing aggregation
+   */
+  bucketSortAgg(name: string, options: BucketSortOptions = {}): this {
+    validateAggregationName(name)
+    validatePaginationParams(options.from, options.size, 'bucket_sort')
+
+    const bucketSort: any = {}
+    if (options.sort) bucketSort.sort = options.sort
+    if (options.from !== undefined) bucketSort.from = options.from
+    if (options.size !== undefined) bucketSort.size = options.size
+    if (options.gapPolicy) bucketSort.gap_policy = options.gapPolicy
+    return this.aggregate(name, { bucket_sort: bucketSort })
+  }
+
+  /**
+   * Add avg_bucket sibling pipeline (average of a metric across buckets)
+   */
+  avgBucketAgg<N extends string>(
+    name: N,
+    bucketsPath: string,
+    options?: PipelineOptions
+  ): WithAggregation<this, N, MetricAggregationResult> {
+    return this.pipeline(name, 'avg_bucket', bucketsPath, {}, options)
+  }
+
+  /**
+   * Add sum_bucket sibling pipeline
+   */
+  sumBucketAgg<N extends string>(
+    name: N,
+    bucketsPath: string,
+    options?: PipelineOptions
+  ): WithAggregation<this, N, MetricAggregationResult> {
+    return this.pipeline(name, 'sum_bucket', bucketsPath, {}, options)
+  }
+
+  /**
+   * Add max_bucket sibling pipeline
+   */
+  maxBucketAgg<N extends string>(
+    name: N,
+    bucketsPath: string,
+    options?: PipelineOptions
+  ): WithAggregation<this, N, BucketMetricAggregationResult> {
+    return this.pipeline(name, 'max_bucket', bucketsPath, {}, options)
+  }
+
+  /**
+   * Add min_bucket sibling pipeline
+   */
+  minBucketAgg<N extends string>(
+    name: N,
+    bucketsPath: string,
+    options?: PipelineOptions
+  ): WithAggregation<this, N, BucketMetricAggregationResult> {
+    return this.pipeline(name, 'min_bucket', bucketsPath, {}, options)
+  }
+
+  /**
+   * Add stats_bucket sibling pipeline
+   */
+  statsBucketAgg<N extends string>(
+    name: N,
+    bucketsPath: string,
+    options?: PipelineOptions
+  ): WithAggregation<this, N, StatsAggregationResult> {
+    return this.pipeline(name, 'stats_bucket', bucketsPath, {}, options)
+  }
+
+  /**
+   * Build and return the aggregation tree
+   */
+  build(): Record<string, any> {
+    return JSON.parse(JSON.stringify(this.aggs))
+  }
+
+  // buckets_path targets are resolved against the full tree in
+  // QueryBuilder.build(), once every sibling has been added
+  private pipeline<N extends string>(
+    name: N,
+    type: string,
+    bucketsPath: BucketsPath,
+    body: Record<string, any>,
+    options?: PipelineOptions
+  ): WithAggregation<this, N, any> {
+    validateAggregationName(name)
+    validateBucketsPath(bucketsPath)
+
+    const pipelineBody: any = { buckets_path: bucketsPath, ...body }
+    if (options?.gapPolicy) pipelineBody.gap_policy = options.gapPolicy
+    if (options?.format) pipelineBody.format = options.format
+    return this.aggregate(name, { [type]: pipelineBody })
+  }
+
+  private validateScript(script: string, aggregationType: string): void {
+    if (!script || typeof script !== 'string' || script.trim().length === 0) {
+      throw new Error(`${aggregationType} script must be a non-empty string`)
+    }
+  }
+}
@@ -0,0 +1,362 @@
+import {
+  TermsFacetOptions,
+  RangeFacetOptions,
+  HierarchyFacetOptions,
+  FacetOption,
+  FacetResults,
+  QueryFieldPath,
+  RangeFieldPath,
+} from './types'
+import { QueryBuilder } from './query-builder'
+import { AggregationBuilder } from './aggregation-builder'
+import { ValidationError, validateAggregationName } from './validation'
+
+const CONTEXT = 'FacetedSearch'
+
+// Facet aggregations are named `facet_<name>` to stay clear of user aggs
+const FACET_PREFIX = 'facet_'
+
+type FacetDefinition =
+  | ({ type: 'terms' } & TermsFacetOptions)
+  | ({ type: 'range' } & RangeFacetOptions)
+  | ({ type: 'hierarchy' } & Required<HierarchyFacetOptions>)
+
+function isObject(value: any): boolean {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+}
+
+function bucketValue(bucket: any): string {
+  return String(bucket.key_as_string ?? bucket.key)
+}
+
+/**
+ * Facet sidebar state for a search: facet definitions plus the selected
+ * values. apply() puts the selections in `post_filter`, so hits honour
+ * every selection, and counts each facet with all selections but its own,
+ * so unselected values of a facet stay visible (disjunctive facets).
+ */
+export class FacetedSearch<TDoc = any> {
+  private definitions: Record<string, FacetDefinition> = {}
+  private selections: Record<string, string[]> = {}
+
+  /**
+   * Define a facet over the values of a keyword field
+   */
+  terms(name: string, options: TermsFacetOptions<QueryFieldPath<TDoc>>): this {
+    return this.define(name, { type: 'terms', size: 10, ...options })
+  }
+
+  /**
+   * Define a facet over fixed numeric ranges, selected by key
+   */
+  range(name: string, options: RangeFacetOptions<RangeFieldPath<TDoc>>): this {
+    if (!Array.isArray(options?.ranges) || options.ranges.length === 0) {
+      throw new ValidationError(
+        `Range facet "${name}" requires at least one range`,
+        'ranges',
+        'INVALID_FACET',
+        CONTEXT,
+        { name, options }
+      )
+    }
+    return this.define(name, { type: 'range', ...options })
+  }
+
+  /**
+   * Define a hierarchical facet, e.g. categories, with one field per level.
+   * Each level field holds the full path, so selecting "Electronics >
+   * Laptops" filters on the second field.
+   */
+  hierarchy(
+    name: string,
+    options: HierarchyFacetOptions<QueryFieldPath<TDoc>>
+  ): this {
+    if (!Array.isArray(options?.fields) || options.fields.length === 0) {
+      throw new ValidationError(
+        `Hierarchy facet "${name}" requires at least one level field`,
+        'fields',
+        'INVALID_FACET',
+        CONTEXT,
+        { name, options }
+      )
+    }
+    return this.define(name, {
+      type: 'hierarchy',
+      separator: ' > ',
+      size: 10,
+      ...options,
+    })
+  }
+
+  /**
+   * Set the selected values of a facet; values of one facet are ORed.
+   * An empty list clears the facet.
+   */
+  select(name: string, values: string | string[]): this {
+    const definition = this.definition(name)
+    const selected = Array.isArray(values) ? values : [values]
+
+    selected.forEach((value) => {
+      const known =
+        typeof value === 'string' &&
+        (definition.type === 'range'
+          ? definition.ranges.some((range) => range.key === value)
+          : definition.type === 'hierarchy'
+          ? value.split(definition.separator).length <= definition.fields.length
+          : true)
+      if (!known) {
+        throw new ValidationError(
+          `Value "${value}" is not an option of facet "${name}"`,
+          name,
+          'UNKNOWN_FACET_VALUE',
+          CONTEXT,
+          { name, value }
+        )
+      }
+    })
+
+    if (selected.length === 0) {
+      delete this.selections[name]
+    } else {
+      this.selections[name] = [...new Set(selected)]
+    }
+    return this
+  }
+
+  /**
+   * Clear the selections of one facet, or of every facet
+   */
+  clear(name?: string): this {
+    if (name === undefined) {
+      this.selections = {}
+    } else {
+      this.definition(name)
+      delete this.selections[name]
+    }
+    return this
+  }
+
+  /**
+   * Selected values by facet name, e.g. for building URLs
+   */
+  getSelections(): Record<string, string[]> {
+    return JSON.parse(JSON.stringify(this.selections))
+  }
+
+  /**
+   * Add the selections as `post_filter` and one aggregation per facet to
+   * the builder
+   */
+  apply<B extends QueryBuilder<any>>(builder: B): B {
+    const selected = Object.keys(this.selections).map((name) =>
+      this.filterFor(name)
+    )
+    if (selected.length > 0) {
+      builder.postFilter((post) =>
+        selected.forEach((clause) => post.raw(clause, 'filter'))
+      )
+    }
+
+    builder.aggs((aggs) => {
+      Object.keys(this.definitions).forEach((name) => {
+        aggs.filterAgg(FACET_PREFIX + name, this.otherFilters(name), (sub) =>
+          this.facetAggregation(name, sub)
+        )
+      })
+    })
+    return builder
+  }
+
+  /**
+   * Map a search response back to the options of every facet, with counts
+   * and selected state. Selected values the response no longer contains
+   * are kept with a count of 0 so they can still be unselected.
+   */
+  read(rawResponse: unknown): FacetResults {
+    let response: any = rawResponse
+    if (isObject(response) && response.hits === undefined && response.body) {
+      response = response.body
+    }
+
+    const results: FacetResults = {}
+    Object.keys(this.definitions).forEach((name) => {
+      const aggregation = response?.aggregations?.[FACET_PREFIX + name]
+      if (!isObject(aggregation)) {
+        throw new ValidationError(
+          `Response is missing facet "${name}"`,
+          `aggregations.${FACET_PREFIX}${name}`,
+          'RESPONSE_AGGREGATION_MISSING',
+          CONTEXT,
+          { name, aggregation: FACET_PREFIX + name }
+        )
+      }
+      results[name] = this.readFacet(name, aggregation)
+    })
+    return results
+  }
+
+  private define(name: string, definition: FacetDefinition): this {
+    validateAggregationName(FACET_PREFIX + name)
+    if (Object.prototype.hasOwnProperty.call(this.definitions, name)) {
+      throw new ValidationError(
+        `Facet "${name}" is already defined`,
+        'name',
+        'DUPLICATE_FACET',
+        CONTEXT,
+        { name }
+      )
+    }
+    this.definitions[name] = definition
+    return this
+  }
+
+  private definition(name: string): FacetDefinition {
+    if (!Object.prototype.hasOwnProperty.call(this.definitions, name)) {
+      throw new ValidationError(
+        `Facet "${name}" is not defined`,
+        'name',
+        'UNKNOWN_FACET',
+        CONTEXT,
+        { name, facets: Object.keys(this.definitions) }
+      )
+    }
+    return this.definitions[name]
+  }
+
+  // Query matching any selected value of the facet
+  private filterFor(name: string): any {
+    const definition = this.definitions[name]
+    const values = this.selections[name]
+
+    let clauses: any[]
+    if (definition.type === 'terms') {
+      clauses = [{ terms: { [definition.field]: values } }]
+    } else if (definition.type === 'range') {
+      clauses = values.map((key) => {
+        const { from, to } = definition.ranges.find((r) => r.key === key)!
+        const range: Record<string, number> = {}
+        if (from !== undefined) range.gte = from
+        if (to !== undefined) range.lt = to
+        return { range: { [definition.field]: range } }
+      })
+    } else {
+      const byField: Record<string, string[]> = {}
+      values.forEach((path) => {
+        const depth = path.split(definition.separator).length
+        const field = definition.fields[depth - 1]
+        byField[field] = [...(byField[field] || []), path]
+      })
+      clauses = Object.keys(byField).map((field) => ({
+        terms: { [field]: byField[field] },
+      }))
+    }
+
+    return clauses.length === 1
+      ? clauses[0]
+      : { bool: { should: clauses, minimum_should_match: 1 } }
+  }
+
+  // Every selection except the facet's own, for its counts
+  private otherFilters(name: string): any {
+    const clauses = Object.keys(this.selections)
+      .filter((other) => other !== name)
+      .map((other) => this.filterFor(other))
+    if (clauses.length === 0) return { match_all: {} }
+    return clauses.length === 1 ? clauses[0] : { bool: { filter: clauses } }
+  }
+
+  // Ancestor paths at `level` of the selected hierarchy values
+  private expandedPaths(name: string, level: number): string[] {
+    const { separator } = this.definitions[name] as { separator: string }
+    const paths = (this.selections[name] || [])
+      .map((path) => path.split(separator))
+      .filter((parts) => parts.length > level)
+      .map((parts) => parts.slice(0, level + 1).join(separator))
+    return [...new Set(paths)]
+  }
+
+  private facetAggregation(name: string, aggs: AggregationBuilder<any>): void {
+    const definition = this.definitions[name]
+
+    if (definition.type === 'terms') {
+      aggs.termsAgg('values', definition.field, definition.size)
+    } else if (definition.type === 'range') {
+      aggs.rangeAgg(
+        'values',
+        definition.field,
+        definition.ranges.map((range) => ({ ...range }))
+      )
+    } else {
+      aggs.termsAgg('level0', definition.fields[0], definition.size)
+      // Deeper levels are only counted below selected paths
+      for (let level = 1; level < definition.fields.length; level++) {
+        const parents = this.expandedPaths(name, level - 1)
+        if (parents.length === 0) break
+        aggs.filterAgg(
+          `level${level}`,
+          { terms: { [definition.fields[level - 1]]: parents } },
+          (sub) =>
+            sub.termsAgg('values', definition.fields[level], definition.size)
+        )
+      }
+    }
+  }
+
+  private readFacet(name: string, aggregation: any): FacetOption[] {
+    const definition = this.definitions[name]
+    const selected = this.selections[name] || []
+
+    if (definition.type === 'range') {
+      const buckets: any[] = aggregation.values?.buckets || []
+      return definition.ranges.map((range) => ({
+        value: range.key,
+        count:
+          buckets.find((bucket) => bucketValue(bucket) === range.key)
+            ?.doc_count ?? 0,
+        selected: selected.includes(range.key),
+      }))
+    }
+
+    if (definition.type === 'terms') {
+      return this.readOptions(aggregation.values?.buckets, selected)
+    }
+
+    const { separator, fields } = definition
+    const expanded = (path: string) =>
+      selected.some(
+        (value) => value === path || value.startsWith(path + separator)
+      )
+    const readLevel = (level: number, parent?: string): FacetOption[] => {
+      const buckets =
+        level === 0
+          ? aggregation.level0?.buckets
+          : aggregation[`level${level}`]?.values?.buckets
+      const atLevel = selected.filter(
+        (value) => value.split(separator).length === level + 1
+      )
+      return this.readOptions(buckets, atLevel)
+        .filter(
+          (option) =>
+            parent === undefined || option.value.startsWith(parent + separator)
+        )
+        .map((option) =>
+          level + 1 < fields.length && expanded(option.value)
+            ? { ...option, children: readLevel(level + 1, option.value) }
+            : option
+        )
+    }
+    return readLevel(0)
+  }
+
+  private readOptions(buckets: any[] = [], selected: string[]): FacetOption[] {
+    const options = buckets.map((bucket) => ({
+      value: bucketValue(bucket),
+      count: bucket.doc_count,
+      selected: selected.includes(bucketValue(bucket)),
+    }))
+    selected
+      .filter((value) => !options.some((option) => option.value === value))
+      .forEach((value) => options.push({ value, count: 0, selected: true }))
+    return options
+  }
+}
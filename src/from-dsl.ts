@@ -0,0 +1,318 @@
+import { QueryDSL, OpaqueDSLEntry } from './types'
+import { ValidationError, validatePaginationParams } from './validation'
+
+const CONTEXT = 'fromDSL'
+
+// Top-level request keys with builder methods
+const MODELED_BODY_KEYS = [
+  'query',
+  'from',
+  'size',
+  'sort',
+  '_source',
+  'aggs',
+  'aggregations',
+  'highlight',
+  'track_total_hits',
+  'search_after',
+  'pit',
+  'post_filter',
+  'collapse',
+  'rescore',
+  'script_fields',
+  'docvalue_fields',
+  'stored_fields',
+  'fields',
+  'runtime_mappings',
+  'knn',
+  'search_pipeline',
+  'explain',
+  'profile',
+]
+
+// Query clauses with builder methods, and where their child queries live
+const MODELED_QUERIES: Record<string, string[]> = {
+  bool: [],
+  match: [],
+  match_phrase: [],
+  match_all: [],
+  multi_match: [],
+  term: [],
+  terms: [],
+  range: [],
+  exists: [],
+  wildcard: [],
+  prefix: [],
+  fuzzy: [],
+  regexp: [],
+  query_string: [],
+  simple_query_string: [],
+  geo_distance: [],
+  geo_bounding_box: [],
+  geo_polygon: [],
+  script: [],
+  more_like_this: [],
+  nested: ['query'],
+  has_child: ['query'],
+  has_parent: ['query'],
+  function_score: ['query'],
+  constant_score: ['filter'],
+  knn: [],
+  neural: [],
+  hybrid: ['queries'],
+}
+
+const BOOL_CLAUSES = ['must', 'filter', 'should', 'must_not'] as const
+
+const MODELED_BOOL_KEYS = [...BOOL_CLAUSES, 'minimum_should_match', 'boost']
+
+// Aggregation types with builder helpers
+const MODELED_AGGREGATIONS = [
+  'terms',
+  'date_histogram',
+  'histogram',
+  'range',
+  'filters',
+  'filter',
+  'composite',
+  'nested',
+  'reverse_nested',
+  'global',
+  'avg',
+  'sum',
+  'max',
+  'min',
+  'cardinality',
+  'value_count',
+  'derivative',
+  'cumulative_sum',
+  'moving_fn',
+  'bucket_script',
+  'bucket_selector',
+  'bucket_sort',
+  'avg_bucket',
+  'sum_bucket',
+  'max_bucket',
+  'min_bucket',
+  'stats_bucket',
+]
+
+function isObject(value: any): boolean {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+}
+
+// Query type of a clause; boost() may add a sibling `boost` key
+function clauseKeys(clause: any): string[] {
+  return isObject(clause)
+    ? Object.keys(clause).filter((key) => key !== 'boost')
+    : []
+}
+
+function reportOpaque(
+  opaque: OpaqueDSLEntry[],
+  path: string,
+  type: string,
+  value: any
+): void {
+  opaque.push({ path, type, value })
+}
+
+// Bool clause arrays as the builder keeps them: all four present, each an
+// array even when the DSL used a single object
+function parseBool(
+  bool: any,
+  path: string,
+  opaque: OpaqueDSLEntry[]
+): Record<string, any> {
+  const parsed: Record<string, any> = { ...bool }
+
+  BOOL_CLAUSES.forEach((clause) => {
+    const value = bool[clause]
+    const clauses: any[] = value === undefined ? [] : [].concat(value)
+    clauses.forEach((child, index) =>
+      parseClause(child, `${path}.${clause}[${index}]`, opaque)
+    )
+    parsed[clause] = clauses
+  })
+
+  Object.keys(bool)
+    .filter((key) => !MODELED_BOOL_KEYS.includes(key))
+    .forEach((key) => reportOpaque(opaque, `${path}.${key}`, key, bool[key]))
+
+  return parsed
+}
+
+function parseClause(
+  clause: any,
+  path: string,
+  opaque: OpaqueDSLEntry[]
+): void {
+  const keys = clauseKeys(clause)
+  const type = keys[0]
+  if (keys.length !== 1) {
+    throw new ValidationError(
+      `Query clause at ${path} must be an object with a single query type`,
+      path,
+      'INVALID_DSL_CLAUSE',
+      CONTEXT,
+      { path, clause }
+    )
+  }
+
+  if (!(type in MODELED_QUERIES)) {
+    reportOpaque(opaque, path, type, clause)
+    return
+  }
+
+  if (type === 'bool') {
+    // Nested bools are kept as written; only their children are inspected
+    const bool = clause.bool || {}
+    BOOL_CLAUSES.forEach((key) =>
+      ([] as any[])
+        .concat(bool[key] ?? [])
+        .forEach((child, index) =>
+          parseClause(child, `${path}.bool.${key}[${index}]`, opaque)
+        )
+    )
+    return
+  }
+
+  MODELED_QUERIES[type].forEach((key) => {
+    const child = clause[type]?.[key]
+    if (Array.isArray(child)) {
+      child.forEach((item, index) =>
+        parseClause(item, `${path}.${type}.${key}[${index}]`, opaque)
+      )
+    } else if (child !== undefined) {
+      parseClause(child, `${path}.${type}.${key}`, opaque)
+    }
+  })
+}
+
+function parseAggregations(
+  aggs: any,
+  path: string,
+  opaque: OpaqueDSLEntry[]
+): void {
+  if (!isObject(aggs)) {
+    throw new ValidationError(
+      `Aggregations at ${path} must be an object`,
+      path,
+      'INVALID_DSL_AGGREGATIONS',
+      CONTEXT,
+      { path, aggs }
+    )
+  }
+
+  Object.keys(aggs).forEach((name) => {
+    const aggregation = aggs[name]
+    const type = Object.keys(aggregation || {}).find(
+      (key) => key !== 'aggs' && key !== 'aggregations' && key !== 'meta'
+    )
+    if (!type || !MODELED_AGGREGATIONS.includes(type)) {
+      reportOpaque(opaque, `${path}.${name}`, type || 'unknown', aggregation)
+    }
+    const children = aggregation?.aggs ?? aggregation?.aggregations
+    if (children !== undefined) {
+      parseAggregations(children, `${path}.${name}.aggs`, opaque)
+    }
+  })
+}
+
+// Sort in the array-of-objects form the builder appends to: a field name
+// sorts in its default order, and an object of several fields is split
+function normalizeSort(sort: any): any[] {
+  const options = Array.isArray(sort) ? sort : [sort]
+  return options.flatMap((option) => {
+    if (typeof option === 'string') {
+      return [{ [option]: option === '_score' ? 'desc' : 'asc' }]
+    }
+    if (isObject(option)) {
+      return Object.keys(option).map((field) => ({ [field]: option[field] }))
+    }
+    return [option]
+  })
+}
+
+/**
+ * Read a search request body into the builder's internal state, listing
+ * every construct the builder has no method for. Those are kept verbatim
+ * so the body round-trips through `build()`.
+ */
+export function parseDSL(dsl: any): {
+  query: QueryDSL
+  opaque: OpaqueDSLEntry[]
+} {
+  if (typeof dsl === 'string') {
+    try {
+      dsl = JSON.parse(dsl)
+    } catch (error) {
+      throw new ValidationError(
+        `DSL string is not valid JSON: ${(error as Error).message}`,
+        'dsl',
+        'INVALID_DSL_JSON',
+        CONTEXT,
+        { dsl }
+      )
+    }
+  }
+  if (!isObject(dsl)) {
+    throw new ValidationError(
+      'DSL must be a search request object',
+      'dsl',
+      'INVALID_DSL',
+      CONTEXT,
+      { dsl, type: typeof dsl }
+    )
+  }
+
+  const opaque: OpaqueDSLEntry[] = []
+  const body = JSON.parse(JSON.stringify(dsl))
+  validatePaginationParams(body.from, body.size, CONTEXT)
+
+  if (body.query !== undefined) {
+    if (clauseKeys(body.query)[0] === 'bool') {
+      body.query = {
+        ...body.query,
+        bool: parseBool(body.query.bool || {}, 'query.bool', opaque),
+      }
+    } else {
+      parseClause(body.query, 'query', opaque)
+    }
+  }
+
+  if (body.sort !== undefined) {
+    body.sort = normalizeSort(body.sort)
+  }
+  if (isObject(body.rescore)) {
+    body.rescore = [body.rescore]
+  }
+
+  if (body.aggregations !== undefined) {
+    body.aggs = { ...body.aggregations, ...body.aggs }
+    delete body.aggregations
+  }
+  if (body.aggs !== undefined) {
+    parseAggregations(body.aggs, 'aggs', opaque)
+  }
+
+  if (body._source !== undefined && typeof body._source !== 'boolean') {
+    if (!Array.isArray(body._source)) {
+      reportOpaque(opaque, '_source', '_source', body._source)
+    }
+  }
+
+  if (isObject(body.highlight)) {
+    Object.keys(body.highlight)
+      .filter((key) => key !== 'fields')
+      .forEach((key) =>
+        reportOpaque(opaque, `highlight.${key}`, key, body.highlight[key])
+      )
+  }
+
+  Object.keys(body)
+    .filter((key) => !MODELED_BODY_KEYS.includes(key))
+    .forEach((key) => reportOpaque(opaque, key, key, body[key]))
+
+  return { query: body, opaque }
+}
@@ -0,0 +1,211 @@
+import { SearchHit, FusionList, FusionOptions, FusedHit } from './types'
+import { ValidationError } from './validation'
+
+const CONTEXT = 'fuseResults'
+
+// Rank constant of reciprocal rank fusion, as in the RRF paper and the engines
+const DEFAULT_RANK_CONSTANT = 60
+
+interface RankedList {
+  name: string
+  weight: number
+  hits: SearchHit[]
+}
+
+function isObject(value: any): boolean {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+}
+
+function isFusionList(value: any): value is FusionList {
+  return isObject(value) && 'results' in value
+}
+
+function hitsOf(results: any, name: string): SearchHit[] {
+  let response = results
+  if (isObject(response) && response.hits === undefined && response.body) {
+    response = response.body
+  }
+  const hits = Array.isArray(response) ? response : response?.hits?.hits
+  if (!Array.isArray(hits)) {
+    throw new ValidationError(
+      `Result list "${name}" is not a search response or an array of hits`,
+      name,
+      'INVALID_FUSION_INPUT',
+      CONTEXT,
+      { name }
+    )
+  }
+  hits.forEach((hit: any, index: number) => {
+    if (typeof hit?._id !== 'string') {
+      throw new ValidationError(
+        `Hit ${index} of result list "${name}" has no _id`,
+        `${name}[${index}]._id`,
+        'INVALID_FUSION_INPUT',
+        CONTEXT,
+        { name, index }
+      )
+    }
+  })
+  return hits
+}
+
+function rankedLists(lists: unknown[], options: FusionOptions): RankedList[] {
+  if (!Array.isArray(lists) || lists.length === 0) {
+    throw new ValidationError(
+      'Fusion needs at least one result list',
+      'lists',
+      'INVALID_FUSION_INPUT',
+      CONTEXT,
+      { lists }
+    )
+  }
+  if (options.weights && options.weights.length !== lists.length) {
+    throw new ValidationError(
+      `Got ${options.weights.length} weights for ${lists.length} result lists`,
+      'weights',
+      'INVALID_FUSION_WEIGHTS',
+      CONTEXT,
+      { weights: options.weights, lists: lists.length }
+    )
+  }
+
+  const ranked = lists.map((list, index) => {
+    const name = (isFusionList(list) && list.name) || String(index)
+    const weight =
+      options.weights?.[index] ?? (isFusionList(list) ? list.weight : 1) ?? 1
+    if (typeof weight !== 'number' || !(weight >= 0) || weight === Infinity) {
+      throw new ValidationError(
+        `Weight of result list "${name}" must be a non-negative number`,
+        'weights',
+        'INVALID_FUSION_WEIGHTS',
+        CONTEXT,
+        { name, weight }
+      )
+    }
+    const results = isFusionList(list) ? list.results : list
+    return { name, weight, hits: hitsOf(results, name) }
+  })
+
+  const names = ranked.map((list) => list.name)
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index)
+  if (duplicate !== undefined) {
+    throw new ValidationError(
+      `Result list name "${duplicate}" is used twice`,
+      'name',
+      'INVALID_FUSION_INPUT',
+      CONTEXT,
+      { names }
+    )
+  }
+  return ranked
+}
+
+// Per-hit scores of a list on the method's scale, by _id
+function normalizedScores(
+  list: RankedList,
+  method: 'min_max' | 'z_score' | 'convex'
+): Map<string, number> {
+  const scores = list.hits.map((hit, index) => {
+    if (typeof hit._score !== 'number') {
+      throw new ValidationError(
+        `Hit ${index} of result list "${list.name}" has no _score; use method 'rrf' for sorted results`,
+        `${list.name}[${index}]._score`,
+        'FUSION_SCORE_MISSING',
+        CONTEXT,
+        { name: list.name, index, method }
+      )
+    }
+    return hit._score
+  })
+
+  let normalize = (score: number) => score
+  if (method === 'min_max') {
+    const min = Math.min(...scores)
+    const max = Math.max(...scores)
+    normalize = (score) => (max === min ? 1 : (score - min) / (max - min))
+  } else if (method === 'z_score') {
+    const mean = scores.reduce((sum, score) => sum + score, 0) / scores.length
+    const deviation = Math.sqrt(
+      scores.reduce((sum, score) => sum + (score - mean) ** 2, 0) /
+        scores.length
+    )
+    normalize = (score) => (deviation === 0 ? 0 : (score - mean) / deviation)
+  }
+
+  const byId = new Map<string, number>()
+  list.hits.forEach((hit, index) => {
+    if (!byId.has(hit._id)) byId.set(hit._id, normalize(scores[index]))
+  })
+  return byId
+}
+
+/**
+ * Merge the hits of several searches, e.g. a lexical and a vector search,
+ * into one list ordered by fused score. Hits are deduplicated by `_id`;
+ * each keeps its rank and weighted score per list in `_fusion`.
+ *
+ * - `rrf` (default): sum of weight / (rankConstant + rank)
+ * - `min_max` / `z_score`: weighted sum of scores normalized per list
+ * - `convex`: weighted sum of raw scores, weights summing to 1; for lists
+ *   already on one scale, such as cosine similarities
+ */
+export function fuseResults<TSource = any>(
+  lists: unknown[],
+  options: FusionOptions = {}
+): FusedHit<TSource>[] {
+  const method = options.method ?? 'rrf'
+  const rankConstant = options.rankConstant ?? DEFAULT_RANK_CONSTANT
+  if (!(rankConstant >= 0) || rankConstant === Infinity) {
+    throw new Error('Rank constant must be a non-negative number')
+  }
+
+  const ranked = rankedLists(lists, options)
+  if (method === 'convex') {
+    const total = ranked.reduce((sum, list) => sum + list.weight, 0)
+    if (Math.abs(total - 1) > 1e-6) {
+      throw new ValidationError(
+        `Convex combination weights must sum to 1, got ${total}`,
+        'weights',
+        'INVALID_FUSION_WEIGHTS',
+        CONTEXT,
+        { weights: ranked.map((list) => list.weight) }
+      )
+    }
+  }
+
+  const fused = new Map<string, FusedHit<TSource>>()
+  ranked.forEach((list) => {
+    const scores = method === 'rrf' ? undefined : normalizedScores(list, method)
+    let rank = 0
+    list.hits.forEach((hit) => {
+      const entry = fused.get(hit._id)
+      if (entry && list.name in entry._fusion.ranks) return
+      rank++
+
+      const score =
+        list.weight *
+        (scores ? scores.get(hit._id)! : 1 / (rankConstant + rank))
+      const target = entry || {
+        ...(hit as SearchHit<TSource>),
+        _score: 0,
+        _fusion: { ranks: {}, scores: {} },
+      }
+      target._score += score
+      target._fusion.ranks[list.name] = rank
+      target._fusion.scores[list.name] = score
+      fused.set(hit._id, target)
+    })
+  })
+
+  // Ties go to the hit ranked best in any list, then to input order
+  const order = new Map([...fused.keys()].map((id, index) => [id, index]))
+  const bestRank = (hit: FusedHit) =>
+    Math.min(...Object.values(hit._fusion.ranks))
+  const hits = [...fused.values()].sort(
+    (a, b) =>
+      b._score - a._score ||
+      bestRank(a) - bestRank(b) ||
+      order.get(a._id)! - order.get(b._id)!
+  )
+  return options.size === undefined ? hits : hits.slice(0, options.size)
+}
@@ -1,13 +1,24 @@
 import { QueryBuilder } from './query-builder'
 
 export { QueryBuilder } from './query-builder'
+export * from './aggregation-builder'
+export { parseResponse, flattenInnerHits } from './response'
+export { parseLucene } from './lucene'
+export { parseKQL } from './kql'
+export * from './sanitize'
+export { FacetedSearch } from './facets'
+export { SearchTemplate, param, renderTemplate } from './template'
+export { fuseResults } from './fusion'
+export { targetSupports } from './target'
+export { Schema } from './schema'
+export { Linter } from './lint'
 export { ValidationError } from './validation'
 export * from './types'
 export * from './presets'
 
 // Factory function to create a new query builder
-export function createQuery(): QueryBuilder {
-  return new QueryBuilder()
+export function createQuery<TDoc = any>(): QueryBuilder<TDoc> {
+  return new QueryBuilder<TDoc>()
 }
 
 // Specialized factory functions
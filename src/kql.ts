@@ -0,0 +1,295 @@
+import { ValidationError } from './validation'
+
+const CONTEXT = 'parseKQL'
+
+// Characters that end an unquoted value unless escaped
+const SPECIAL_CHARACTERS = '\\():<>"*{}'
+
+const RANGE_OPERATORS: Record<string, string> = {
+  '>=': 'gte',
+  '<=': 'lte',
+  '>': 'gt',
+  '<': 'lt',
+}
+
+interface Value {
+  value: string
+  quoted: boolean
+  // Wildcard pattern with escapes kept, for unquoted values containing *
+  pattern?: string
+  start: number
+}
+
+function syntaxError(input: string, position: number, message: string): never {
+  throw new ValidationError(
+    `${message} at position ${position}`,
+    'query',
+    'KQL_SYNTAX_ERROR',
+    CONTEXT,
+    { input, position }
+  )
+}
+
+// KQL joins `and` clauses as filters and `or` clauses as shoulds, like Kibana
+function combine(type: 'and' | 'or', clauses: any[]): any {
+  if (clauses.length === 1) return clauses[0]
+  return type === 'and'
+    ? { bool: { filter: clauses } }
+    : { bool: { should: clauses, minimum_should_match: 1 } }
+}
+
+class KQLParser {
+  private position = 0
+
+  constructor(private input: string) {}
+
+  parse(): any {
+    this.skipSpace()
+    if (this.atEnd()) {
+      syntaxError(this.input, 0, 'Query is empty')
+    }
+    const clause = this.parseOr((path) => this.parseExpression(path), '')
+    this.skipSpace()
+    if (!this.atEnd()) {
+      this.unexpected()
+    }
+    return clause
+  }
+
+  private atEnd(): boolean {
+    return this.position >= this.input.length
+  }
+
+  private peek(): string {
+    return this.input[this.position]
+  }
+
+  private skipSpace(): void {
+    while (!this.atEnd() && /\s/.test(this.peek())) this.position++
+  }
+
+  private unexpected(expected?: string): never {
+    const found = this.atEnd() ? 'end of query' : `"${this.peek()}"`
+    return syntaxError(
+      this.input,
+      this.position,
+      expected
+        ? `Expected ${expected} but found ${found}`
+        : `Unexpected ${found}`
+    )
+  }
+
+  private expect(char: string): void {
+    this.skipSpace()
+    if (this.peek() !== char) {
+      this.unexpected(`"${char}"`)
+    }
+    this.position++
+  }
+
+  // Keywords need surrounding whitespace, so `android` stays a value
+  private keyword(word: 'and' | 'or' | 'not'): boolean {
+    const match = new RegExp(`^\\s*${word}(\\s+|$|(?=[("{]))`, 'i').exec(
+      this.input.slice(this.position)
+    )
+    const boundary =
+      this.position === 0 || /[\s()]/.test(this.input[this.position - 1])
+    if (!match || (!boundary && !/^\s/.test(match[0]))) return false
+    this.position += match[0].length
+    return true
+  }
+
+  private parseOr(parse: (path: string) => any, path: string): any {
+    const clauses = [this.parseAnd(parse, path)]
+    while (this.keyword('or')) {
+      clauses.push(this.parseAnd(parse, path))
+    }
+    return combine('or', clauses)
+  }
+
+  private parseAnd(parse: (path: string) => any, path: string): any {
+    const clauses = [this.parseNot(parse, path)]
+    while (this.keyword('and')) {
+      clauses.push(this.parseNot(parse, path))
+    }
+    return combine('and', clauses)
+  }
+
+  private parseNot(parse: (path: string) => any, path: string): any {
+    this.skipSpace()
+    if (this.keyword('not')) {
+      return { bool: { must_not: [this.parseNot(parse, path)] } }
+    }
+    if (this.peek() === '(') {
+      this.position++
+      const clause = this.parseOr(parse, path)
+      this.expect(')')
+      return clause
+    }
+    return parse(path)
+  }
+
+  private parseExpression(path: string): any {
+    const value = this.readValue()
+    this.skipSpace()
+    const operator = /^(>=|<=|>|<)/.exec(this.input.slice(this.position))
+
+    if (this.peek() !== ':' && !operator) {
+      return this.valueQuery(path, undefined, value)
+    }
+
+    if (value.quoted || value.pattern) {
+      syntaxError(
+        this.input,
+        value.start,
+        'Field names cannot be quoted or contain wildcards'
+      )
+    }
+    const field = path + value.value
+
+    if (operator) {
+      this.position += operator[0].length
+      this.skipSpace()
+      const bound = this.readValue()
+      if (bound.pattern) {
+        syntaxError(
+          this.input,
+          bound.start,
+          'Range values cannot contain wildcards'
+        )
+      }
+      return {
+        range: { [field]: { [RANGE_OPERATORS[operator[0]]]: bound.value } },
+      }
+    }
+
+    this.position++
+    this.skipSpace()
+    if (this.peek() === '{') {
+      this.position++
+      this.skipSpace()
+      const query = this.parseOr(
+        (inner) => this.parseExpression(inner),
+        `${field}.`
+      )
+      this.expect('}')
+      return { nested: { path: field, query } }
+    }
+    if (this.peek() === '(') {
+      this.position++
+      const clause = this.parseOr(() => this.valueQuery(path, field), path)
+      this.expect(')')
+      return clause
+    }
+    return this.valueQuery(path, field)
+  }
+
+  private valueQuery(path: string, field?: string, read?: Value): any {
+    const value = read ?? this.readValue()
+
+    if (!field) {
+      if (path) {
+        syntaxError(this.input, value.start, 'Nested queries need a field name')
+      }
+      if (value.pattern === '*') return { match_all: {} }
+      if (value.pattern) return { query_string: { query: value.pattern } }
+      return {
+        multi_match: {
+          query: value.value,
+          ...(value.quoted ? { type: 'phrase' } : {}),
+          lenient: true,
+        },
+      }
+    }
+
+    if (value.pattern === '*') return { exists: { field } }
+    if (value.pattern)
+      return { wildcard: { [field]: { value: value.pattern } } }
+    return value.quoted
+      ? { match_phrase: { [field]: { query: value.value } } }
+      : { match: { [field]: { query: value.value } } }
+  }
+
+  private readValue(): Value {
+    this.skipSpace()
+    const start = this.position
+
+    if (this.peek() === '"') {
+      let value = ''
+      this.position++
+      while (!this.atEnd() && this.peek() !== '"') {
+        if (this.peek() === '\\' && this.position + 1 < this.input.length) {
+          this.position++
+        }
+        value += this.input[this.position++]
+      }
+      if (this.atEnd()) {
+        syntaxError(this.input, start, 'Unterminated quoted value')
+      }
+      this.position++
+      return { value, quoted: true, start }
+    }
+
+    let value = ''
+    let pattern = ''
+    let wildcard = false
+    while (!this.atEnd()) {
+      const char = this.peek()
+      if (char === '\\') {
+        const escaped = this.input[this.position + 1]
+        if (escaped === undefined) {
+          syntaxError(this.input, this.position, 'Unfinished escape sequence')
+        }
+        value += escaped
+        pattern +=
+          escaped === '*' || escaped === '\\' ? '\\' + escaped : escaped
+        this.position += 2
+      } else if (char === '*') {
+        wildcard = true
+        value += char
+        pattern += char
+        this.position++
+      } else if (SPECIAL_CHARACTERS.includes(char)) {
+        break
+      } else if (
+        /\s/.test(char) &&
+        /^\s+(and|or|not)(\s|[("{]|$)/i.test(this.input.slice(this.position))
+      ) {
+        break
+      } else {
+        value += char
+        pattern += char
+        this.position++
+      }
+    }
+
+    // Whitespace inside an unquoted value is kept, surrounding whitespace is not
+    const trimmed = value.trimEnd()
+    if (!trimmed) {
+      this.unexpected('a value')
+    }
+    return {
+      value: trimmed,
+      quoted: false,
+      start,
+      ...(wildcard ? { pattern: pattern.trimEnd() } : {}),
+    }
+  }
+}
+
+/**
+ * Compile a Kibana Query Language string into an equivalent query clause,
+ * throwing a ValidationError with the character position on syntax errors
+ */
+export function parseKQL(input: string): any {
+  if (typeof input !== 'string') {
+    throw new ValidationError(
+      'KQL query must be a string',
+      'query',
+      'INVALID_KQL_QUERY',
+      CONTEXT,
+      { input, type: typeof input }
+    )
+  }
+  return new KQLParser(input).parse()
+}
@@ -0,0 +1,546 @@
+import {
+  QueryDSL,
+  LintAggregation,
+  LintClause,
+  LintContext,
+  LintFinding,
+  LintFixResult,
+  LintIssue,
+  LintOptions,
+  LintRule,
+  LintSeverity,
+} from './types'
+import { MAX_RESULT_WINDOW, ValidationError } from './validation'
+
+const CONTEXT = 'Linter'
+
+const SEVERITIES: LintSeverity[] = ['error', 'warning', 'info']
+
+const OCCURRENCES = ['must', 'filter', 'should', 'must_not'] as const
+
+// Bool occurrences whose clauses only filter
+const FILTER_OCCURRENCES = ['filter', 'must_not']
+
+// Where a compound query other than bool keeps its child queries
+const CHILD_QUERIES: Record<string, string[]> = {
+  nested: ['query'],
+  has_child: ['query'],
+  has_parent: ['query'],
+  function_score: ['query'],
+  constant_score: ['filter'],
+  dis_max: ['queries'],
+  boosting: ['positive', 'negative'],
+  hybrid: ['queries'],
+}
+
+// Keys of an aggregation beside its type
+const AGGREGATION_KEYS = ['aggs', 'aggregations', 'meta']
+
+const DEFAULT_MAX_TERMS_SIZE = 1000
+
+// Identifiers, addresses and digests: about one distinct value per document
+const HIGH_CARDINALITY_FIELDS = [/(^|[._])(id|uuid|guid|email|url|hash)$/i]
+
+// A wildcard or `?` before any term character, as in `*phone` or `name:?at`
+const LEADING_WILDCARD = /^[*?]/
+const QUERY_STRING_LEADING_WILDCARD = /(^|[\s(:])[*?][^\s():*?]/
+
+function isObject(value: any): boolean {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+}
+
+function toArray(value: any): any[] {
+  if (value === undefined) return []
+  return Array.isArray(value) ? value : [value]
+}
+
+// JSON with sorted keys, so equal clauses compare equal
+function canonical(value: any): string {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`
+  if (!isObject(value)) return JSON.stringify(value)
+  const entries = Object.keys(value)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${canonical(value[key])}`)
+  return `{${entries.join(',')}}`
+}
+
+function fieldPattern(pattern: string | RegExp): RegExp {
+  if (pattern instanceof RegExp) return pattern
+  const escaped = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+  return new RegExp(`^${escaped.join('.*')}$`)
+}
+
+function removeClause(bool: Record<string, any>, key: string, clause: any) {
+  const siblings: any[] = bool[key]
+  const index = siblings.indexOf(clause)
+  if (index === -1) return
+  siblings.splice(index, 1)
+  if (siblings.length === 0) delete bool[key]
+}
+
+function collectQuery(
+  clause: any,
+  path: string,
+  filterContext: boolean,
+  context: LintContext,
+  position: Pick<LintClause, 'occurrence' | 'siblings' | 'bool'> = {}
+): void {
+  if (Array.isArray(clause)) {
+    clause.forEach((item, index) =>
+      collectQuery(item, `${path}[${index}]`, filterContext, context)
+    )
+    return
+  }
+  if (!isObject(clause)) return
+
+  Object.entries(clause).forEach(([type, body]: [string, any]) => {
+    context.clauses.push({ type, clause, path, filterContext, ...position })
+    if (!isObject(body)) return
+    const typePath = `${path}.${type}`
+
+    if (type === 'bool') {
+      OCCURRENCES.forEach((occurrence) => {
+        const child = body[occurrence]
+        const childPath = `${typePath}.${occurrence}`
+        const childFilter =
+          filterContext || FILTER_OCCURRENCES.includes(occurrence)
+        if (Array.isArray(child)) {
+          child.forEach((item, index) =>
+            collectQuery(item, `${childPath}[${index}]`, childFilter, context, {
+              occurrence,
+              siblings: child,
+              bool: body,
+            })
+          )
+        } else {
+          collectQuery(child, childPath, childFilter, context, {
+            occurrence,
+            bool: body,
+          })
+        }
+      })
+    } else if (type === 'knn') {
+      Object.entries(body).forEach(([field, options]: [string, any]) =>
+        collectQuery(
+          options?.filter,
+          `${typePath}.${field}.filter`,
+          true,
+          context
+        )
+      )
+    } else {
+      const childKeys = CHILD_QUERIES[type] || []
+      childKeys.forEach((key) =>
+        collectQuery(
+          body[key],
+          `${typePath}.${key}`,
+          filterContext || type === 'constant_score',
+          context
+        )
+      )
+    }
+  })
+}
+
+function collectAggs(aggs: any, path: string, context: LintContext): void {
+  if (!isObject(aggs)) return
+  Object.entries(aggs).forEach(([name, agg]: [string, any]) => {
+    if (!isObject(agg)) return
+    const aggPath = `${path}.${name}`
+    const type = Object.keys(agg).find((key) => !AGGREGATION_KEYS.includes(key))
+    context.aggregations.push({ name, type, agg, path: aggPath })
+
+    if (type === 'filter') {
+      collectQuery(agg.filter, `${aggPath}.filter`, true, context)
+    }
+    const filters = agg.filters?.filters
+    if (isObject(filters) || Array.isArray(filters)) {
+      Object.keys(filters).forEach((key) =>
+        collectQuery(
+          filters[key],
+          `${aggPath}.filters.filters.${key}`,
+          true,
+          context
+        )
+      )
+    }
+    collectAggs(agg.aggs, `${aggPath}.aggs`, context)
+    collectAggs(agg.aggregations, `${aggPath}.aggregations`, context)
+  })
+}
+
+function collect(body: QueryDSL): LintContext {
+  const context: LintContext = { clauses: [], aggregations: [] }
+
+  collectQuery(body.query, 'query', false, context)
+  collectQuery(body.post_filter, 'post_filter', true, context)
+  body.rescore?.forEach((rescore, index) =>
+    collectQuery(
+      rescore.query?.rescore_query,
+      `rescore[${index}].query.rescore_query`,
+      false,
+      context
+    )
+  )
+  if (Array.isArray(body.knn)) {
+    body.knn.forEach((knn, index) =>
+      collectQuery(knn.filter, `knn[${index}].filter`, true, context)
+    )
+  } else if (body.knn) {
+    collectQuery(body.knn.filter, 'knn.filter', true, context)
+  }
+  collectAggs(body.aggs, 'aggs', context)
+  collectAggs(body.aggregations, 'aggregations', context)
+  return context
+}
+
+// ========================================
+// BUILT-IN RULES
+// ========================================
+
+function leadingWildcard(): LintRule {
+  return {
+    name: 'leading-wildcard',
+    severity: 'warning',
+    check: (_body, { clauses }) =>
+      clauses.flatMap(({ type, clause, path }) => {
+        const body = clause[type]
+        if (type === 'wildcard' && isObject(body)) {
+          return Object.entries(body)
+            .filter(([, value]: [string, any]) => {
+              const pattern = isObject(value)
+                ? value.value ?? value.wildcard
+                : value
+              return LEADING_WILDCARD.test(String(pattern))
+            })
+            .map(([field]) => ({
+              path: `${path}.wildcard`,
+              message: `wildcard query on "${field}" starts with a wildcard, so it scans every term of the field`,
+            }))
+        }
+        if (
+          type === 'query_string' &&
+          isObject(body) &&
+          body.allow_leading_wildcard !== false &&
+          QUERY_STRING_LEADING_WILDCARD.test(String(body.query))
+        ) {
+          return [
+            {
+              path: `${path}.query_string`,
+              message:
+                'query_string query has a term starting with a wildcard, so it scans every term of its fields',
+            },
+          ]
+        }
+        return []
+      }),
+  }
+}
+
+function resultWindow(maxResultWindow: number): LintRule {
+  return {
+    name: 'result-window',
+    severity: 'error',
+    check: (body) => {
+      if (body.search_after !== undefined) return []
+      const window = (body.from || 0) + (body.size ?? 10)
+      if (window <= maxResultWindow) return []
+      return [
+        {
+          path: body.from ? 'from' : 'size',
+          message: `from + size is ${window}, above max_result_window (${maxResultWindow}); use searchAfter() for deep pagination`,
+        },
+      ]
+    },
+  }
+}
+
+function scriptInMust(): LintRule {
+  return {
+    name: 'script-in-must',
+    severity: 'warning',
+    check: (_body, { clauses }) =>
+      clauses
+        .filter(
+          ({ type, occurrence }) => type === 'script' && occurrence === 'must'
+        )
+        .map(({ clause, path, siblings, bool }) => ({
+          path: `${path}.script`,
+          message:
+            'script query runs a script for every document and adds nothing to relevance; move it from must to filter',
+          fix:
+            siblings &&
+            (() => {
+              if (!siblings.includes(clause)) return
+              removeClause(bool!, 'must', clause)
+              bool!.filter = [...toArray(bool!.filter), clause]
+            }),
+        })),
+  }
+}
+
+function regexpOnHighCardinality(patterns: (string | RegExp)[]): LintRule {
+  const fieldPatterns = patterns.map(fieldPattern)
+  return {
+    name: 'regexp-high-cardinality',
+    severity: 'warning',
+    check: (_body, { clauses }) =>
+      clauses
+        .filter(
+          ({ type, clause }) => type === 'regexp' && isObject(clause.regexp)
+        )
+        .flatMap(({ clause, path }) =>
+          Object.keys(clause.regexp)
+            .filter((field) => {
+              const name = field.replace(/\.keyword$/, '')
+              return fieldPatterns.some((pattern) => pattern.test(name))
+            })
+            .map((field) => ({
+              path: `${path}.regexp`,
+              message: `regexp query on high-cardinality field "${field}" tests every distinct value; match exact values with term or terms`,
+            }))
+        ),
+  }
+}
+
+function duplicateClause(): LintRule {
+  return {
+    name: 'duplicate-clause',
+    severity: 'warning',
+    check: (_body, { clauses }) => {
+      const findings: LintFinding[] = []
+      const seen = new Map<any[], Set<string>>()
+      const checked = new Set<any>()
+
+      clauses.forEach(({ clause, path, occurrence, siblings, bool }) => {
+        if (!siblings || checked.has(clause)) return
+        checked.add(clause)
+        const keys = seen.get(siblings) ?? new Set<string>()
+        seen.set(siblings, keys)
+        const key = canonical(clause)
+        if (!keys.has(key)) {
+          keys.add(key)
+          return
+        }
+        // A repeated should clause counts twice towards minimum_should_match
+        findings.push({
+          path,
+          message: `clause repeats an earlier ${occurrence} clause of the same bool query`,
+          fix:
+            occurrence === 'should'
+              ? undefined
+              : () => removeClause(bool!, occurrence!, clause),
+        })
+      })
+      return findings
+    },
+  }
+}
+
+function shouldWithoutMinimumShouldMatch(): LintRule {
+  return {
+    name: 'should-without-minimum-should-match',
+    severity: 'warning',
+    check: (_body, { clauses }) =>
+      clauses
+        .filter(
+          ({ type, clause, filterContext }) =>
+            type === 'bool' && filterContext && isObject(clause.bool)
+        )
+        .flatMap(({ clause, path }) => {
+          const bool = clause.bool
+          const count = (key: string) => toArray(bool[key]).length
+          if (
+            count('should') === 0 ||
+            count('must') + count('filter') === 0 ||
+            bool.minimum_should_match !== undefined
+          ) {
+            return []
+          }
+          return [
+            {
+              path: `${path}.bool`,
+              message:
+                'bool query in filter context has should clauses beside must or filter clauses; without minimum_should_match they neither restrict matches nor score',
+              fix: () => {
+                bool.minimum_should_match = 1
+              },
+            },
+          ]
+        }),
+  }
+}
+
+function unboundedTermsSize(maxTermsSize: number): LintRule {
+  return {
+    name: 'unbounded-terms-size',
+    severity: 'warning',
+    check: (_body, { aggregations }) =>
+      aggregations
+        .filter(
+          ({ type, agg }: LintAggregation) =>
+            type === 'terms' &&
+            typeof agg.terms?.size === 'number' &&
+            agg.terms.size > maxTermsSize
+        )
+        .map(({ name, agg, path }) => ({
+          path: `${path}.terms`,
+          message: `terms aggregation "${name}" asks for ${agg.terms.size} buckets, more than ${maxTermsSize}; page through them with compositeAgg()`,
+          fix: () => {
+            agg.terms.size = maxTermsSize
+          },
+        })),
+  }
+}
+
+function positiveInteger(options: LintOptions, key: keyof LintOptions) {
+  const value = options[key]
+  if (value === undefined) return
+  if (typeof value !== 'number' || !Number.isInteger(value) || value <= 0) {
+    throw new ValidationError(
+      `${key} must be a positive integer`,
+      key,
+      'INVALID_LINT_OPTION',
+      CONTEXT,
+      { [key]: value }
+    )
+  }
+}
+
+function validateRule(rule: LintRule): LintRule {
+  if (
+    !isObject(rule) ||
+    typeof rule.name !== 'string' ||
+    rule.name === '' ||
+    !SEVERITIES.includes(rule.severity) ||
+    typeof rule.check !== 'function'
+  ) {
+    throw new ValidationError(
+      'Lint rule must have a name, a severity (error, warning or info) and a check function',
+      'plugins',
+      'INVALID_LINT_RULE',
+      CONTEXT,
+      { rule }
+    )
+  }
+  return rule
+}
+
+/**
+ * Lint rules over built request bodies. The built-in rules report leading
+ * wildcards, from + size past max_result_window, script queries in must,
+ * regexp queries on high-cardinality fields, duplicate clauses, should
+ * clauses a filter-context bool ignores and oversized terms aggregations.
+ * Options change their severity or turn them off; plugins add rules, and
+ * replace a built-in rule of the same name.
+ */
+export class Linter {
+  private rules = new Map<string, LintRule>()
+
+  constructor(options: LintOptions = {}) {
+    positiveInteger(options, 'maxResultWindow')
+    positiveInteger(options, 'maxTermsSize')
+
+    const builtIn = [
+      leadingWildcard(),
+      resultWindow(options.maxResultWindow ?? MAX_RESULT_WINDOW),
+      scriptInMust(),
+      regexpOnHighCardinality(
+        options.highCardinalityFields ?? HIGH_CARDINALITY_FIELDS
+      ),
+      duplicateClause(),
+      shouldWithoutMinimumShouldMatch(),
+      unboundedTermsSize(options.maxTermsSize ?? DEFAULT_MAX_TERMS_SIZE),
+    ]
+    const plugins = (options.plugins || []).map(validateRule)
+    const rules = [...builtIn, ...plugins]
+    rules.forEach((rule) => this.rules.set(rule.name, rule))
+
+    Object.entries(options.rules || {}).forEach(([name, severity]) => {
+      const rule = this.rules.get(name)
+      if (!rule) {
+        throw new ValidationError(
+          `Unknown lint rule "${name}"`,
+          `rules.${name}`,
+          'UNKNOWN_LINT_RULE',
+          CONTEXT,
+          { rule: name, rules: [...this.rules.keys()] }
+        )
+      }
+      if (severity !== 'off' && !SEVERITIES.includes(severity)) {
+        throw new ValidationError(
+          `Severity of lint rule "${name}" must be error, warning, info or off`,
+          `rules.${name}`,
+          'INVALID_LINT_RULE',
+          CONTEXT,
+          { rule: name, severity }
+        )
+      }
+      if (severity === 'off') {
+        this.rules.delete(name)
+      } else {
+        this.rules.set(name, { ...rule, severity })
+      }
+    })
+  }
+
+  /**
+   * Names of the rules this linter runs, in order
+   */
+  ruleNames(): string[] {
+    return [...this.rules.keys()]
+  }
+
+  /**
+   * Report the issues of a request body, by rule
+   */
+  lint(body: QueryDSL): LintIssue[] {
+    return this.run(this.copy(body)).map(({ issue }) => issue)
+  }
+
+  /**
+   * Apply the fixes of every fixable issue to a copy of the body, and lint
+   * the result
+   */
+  fix(body: QueryDSL): LintFixResult {
+    const fixedBody = this.copy(body)
+    const fixed = this.run(fixedBody)
+      .filter(({ fix }) => fix)
+      .map(({ issue, fix }) => {
+        fix!()
+        return issue
+      })
+    return { body: fixedBody, fixed, issues: this.lint(fixedBody) }
+  }
+
+  private copy(body: QueryDSL): QueryDSL {
+    if (!isObject(body)) {
+      throw new ValidationError(
+        'Lint needs a request body object',
+        'body',
+        'INVALID_LINT_INPUT',
+        CONTEXT,
+        { body }
+      )
+    }
+    return JSON.parse(JSON.stringify(body))
+  }
+
+  private run(body: QueryDSL): { issue: LintIssue; fix?: () => void }[] {
+    const context = collect(body)
+    return [...this.rules.values()].flatMap((rule) =>
+      rule.check(body, context).map((finding) => ({
+        issue: {
+          rule: rule.name,
+          severity: rule.severity,
+          path: finding.path,
+          message: finding.message,
+          fixable: typeof finding.fix === 'function',
+        },
+        fix: finding.fix,
+      }))
+    )
+  }
+}
@@ -0,0 +1,739 @@
+import { LuceneOptions, LuceneOperator } from './types'
+import { ValidationError } from './validation'
+
+const CONTEXT = 'parseLucene'
+
+type TokenType =
+  | 'TERM'
+  | 'PHRASE'
+  | 'REGEX'
+  | 'LPAREN'
+  | 'RPAREN'
+  | 'LBRACKET'
+  | 'RBRACKET'
+  | 'LBRACE'
+  | 'RBRACE'
+  | 'COLON'
+  | 'COMPARE'
+  | 'AND'
+  | 'OR'
+  | 'NOT'
+  | 'PLUS'
+  | 'MINUS'
+  | 'FUZZY'
+  | 'BOOST'
+  | 'EOF'
+
+interface Token {
+  type: TokenType
+  value: string
+  start: number
+  end: number
+  // Wildcard pattern with escapes kept, for terms containing * or ?
+  pattern?: string
+  number?: number
+}
+
+type Occur = 'must' | 'must_not'
+
+type Node =
+  | { kind: 'or' | 'and'; items: Node[]; occur?: Occur; boost?: number }
+  | {
+      kind: 'term'
+      field?: string
+      value: string
+      pattern?: string
+      fuzziness?: number | 'AUTO'
+      position: number
+      occur?: Occur
+      boost?: number
+    }
+  | {
+      kind: 'phrase'
+      field?: string
+      value: string
+      slop?: number
+      position: number
+      occur?: Occur
+      boost?: number
+    }
+  | {
+      kind: 'regex'
+      field?: string
+      value: string
+      position: number
+      occur?: Occur
+      boost?: number
+    }
+  | {
+      kind: 'range'
+      field: string
+      bounds: Record<string, string>
+      occur?: Occur
+      boost?: number
+    }
+  | { kind: 'exists'; field: string; occur?: Occur; boost?: number }
+  | { kind: 'all'; occur?: Occur; boost?: number }
+
+const SINGLE_CHAR_TOKENS: Record<string, TokenType> = {
+  '(': 'LPAREN',
+  ')': 'RPAREN',
+  '[': 'LBRACKET',
+  ']': 'RBRACKET',
+  '{': 'LBRACE',
+  '}': 'RBRACE',
+  ':': 'COLON',
+  '+': 'PLUS',
+  '-': 'MINUS',
+  '!': 'NOT',
+}
+
+// Characters ending an unquoted term
+const TERM_BREAK = /[\s()[\]{}:^~"]/
+
+const CLAUSE_START: TokenType[] = [
+  'TERM',
+  'PHRASE',
+  'REGEX',
+  'LPAREN',
+  'LBRACKET',
+  'LBRACE',
+  'PLUS',
+  'MINUS',
+  'NOT',
+]
+
+function syntaxError(
+  input: string,
+  position: number,
+  message: string,
+  code = 'LUCENE_SYNTAX_ERROR',
+  details: Record<string, any> = {}
+): never {
+  throw new ValidationError(
+    `${message} at position ${position}`,
+    'query',
+    code,
+    CONTEXT,
+    { input, position, ...details }
+  )
+}
+
+function readNumber(
+  input: string,
+  from: number
+): { text: string; end: number } {
+  let end = from
+  while (end < input.length && /[0-9.]/.test(input[end])) end++
+  return { text: input.slice(from, end), end }
+}
+
+function readDelimited(input: string, start: number, delimiter: string) {
+  let value = ''
+  let i = start + 1
+  while (i < input.length && input[i] !== delimiter) {
+    if (input[i] === '\\' && i + 1 < input.length) {
+      value += delimiter === '/' ? input[i] + input[i + 1] : input[i + 1]
+      i += 2
+    } else {
+      value += input[i++]
+    }
+  }
+  if (i >= input.length) {
+    syntaxError(
+      input,
+      start,
+      delimiter === '"'
+        ? 'Unterminated phrase'
+        : 'Unterminated regular expression'
+    )
+  }
+  return { value, end: i + 1 }
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < input.length) {
+    const char = input[i]
+    const start = i
+
+    if (/\s/.test(char)) {
+      i++
+    } else if (input.startsWith('&&', i) || input.startsWith('||', i)) {
+      tokens.push({
+        type: char === '&' ? 'AND' : 'OR',
+        value: input.slice(i, i + 2),
+        start,
+        end: i + 2,
+      })
+      i += 2
+    } else if (char in SINGLE_CHAR_TOKENS) {
+      tokens.push({
+        type: SINGLE_CHAR_TOKENS[char],
+        value: char,
+        start,
+        end: i + 1,
+      })
+      i++
+    } else if (char === '"' || char === '/') {
+      const { value, end } = readDelimited(input, i, char)
+      tokens.push({
+        type: char === '"' ? 'PHRASE' : 'REGEX',
+        value,
+        start,
+        end,
+      })
+      i = end
+    } else if (char === '>' || char === '<') {
+      const value = input[i + 1] === '=' ? char + '=' : char
+      tokens.push({ type: 'COMPARE', value, start, end: i + value.length })
+      i += value.length
+    } else if (char === '~' || char === '^') {
+      const { text, end } = readNumber(input, i + 1)
+      const number = text ? Number(text) : undefined
+      if (text && Number.isNaN(number)) {
+        syntaxError(input, i + 1, `Invalid number "${text}"`)
+      }
+      if (char === '^' && number === undefined) {
+        syntaxError(input, i, 'Boost requires a number')
+      }
+      tokens.push({
+        type: char === '~' ? 'FUZZY' : 'BOOST',
+        value: text,
+        start,
+        end,
+        number,
+      })
+      i = end
+    } else {
+      let value = ''
+      let pattern = ''
+      let wildcard = false
+      while (i < input.length && !TERM_BREAK.test(input[i])) {
+        if (input[i] === '\\' && i + 1 < input.length) {
+          value += input[i + 1]
+          pattern += /[*?\\]/.test(input[i + 1])
+            ? input.slice(i, i + 2)
+            : input[i + 1]
+          i += 2
+        } else {
+          if (input[i] === '*' || input[i] === '?') wildcard = true
+          value += input[i]
+          pattern += input[i]
+          i++
+        }
+      }
+
+      const raw = input.slice(start, i)
+      const type: TokenType =
+        raw === 'AND'
+          ? 'AND'
+          : raw === 'OR'
+          ? 'OR'
+          : raw === 'NOT'
+          ? 'NOT'
+          : 'TERM'
+      tokens.push({
+        type,
+        value,
+        start,
+        end: i,
+        ...(wildcard ? { pattern } : {}),
+      })
+    }
+  }
+
+  tokens.push({
+    type: 'EOF',
+    value: '',
+    start: input.length,
+    end: input.length,
+  })
+  return tokens
+}
+
+class LuceneParser {
+  private tokens: Token[]
+  private index = 0
+
+  constructor(private input: string, private options: LuceneOptions) {
+    this.tokens = tokenize(input)
+  }
+
+  parse(): Node {
+    if (this.peek().type === 'EOF') {
+      syntaxError(this.input, 0, 'Query is empty')
+    }
+    const node = this.parseOr()
+    const next = this.peek()
+    if (next.type !== 'EOF') {
+      this.unexpected(next)
+    }
+    return node
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index]
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++]
+  }
+
+  private expect(type: TokenType, description: string): Token {
+    const token = this.peek()
+    if (token.type !== type) {
+      syntaxError(
+        this.input,
+        token.start,
+        `Expected ${description} but found ${this.describe(token)}`
+      )
+    }
+    return this.next()
+  }
+
+  private describe(token: Token): string {
+    return token.type === 'EOF' ? 'end of query' : `"${token.value}"`
+  }
+
+  private unexpected(token: Token): never {
+    return syntaxError(
+      this.input,
+      token.start,
+      `Unexpected ${this.describe(token)}`
+    )
+  }
+
+  private allow(operator: LuceneOperator, position: number): void {
+    const allowed = this.options.allowedOperators
+    if (allowed && !allowed.includes(operator)) {
+      syntaxError(
+        this.input,
+        position,
+        `Operator "${operator}" is not allowed`,
+        'LUCENE_OPERATOR_NOT_ALLOWED',
+        { operator, allowedOperators: allowed }
+      )
+    }
+  }
+
+  private checkField(field: string, position: number): void {
+    const allowed = this.options.allowedFields
+    if (allowed && !allowed.includes(field)) {
+      syntaxError(
+        this.input,
+        position,
+        `Field "${field}" is not allowed`,
+        'LUCENE_FIELD_NOT_ALLOWED',
+        { field, allowedFields: allowed }
+      )
+    }
+  }
+
+  // Clauses joined by the default operator when no operator is written
+  private implicit(operator: 'AND' | 'OR'): boolean {
+    return (
+      (this.options.defaultOperator ?? 'OR') === operator &&
+      CLAUSE_START.includes(this.peek().type)
+    )
+  }
+
+  private parseOr(): Node {
+    const items = [this.parseAnd()]
+    while (this.peek().type === 'OR' || this.implicit('OR')) {
+      const token = this.peek()
+      this.allow('or', token.start)
+      if (token.type === 'OR') this.next()
+      items.push(this.parseAnd())
+    }
+    return items.length === 1 ? items[0] : { kind: 'or', items }
+  }
+
+  private parseAnd(): Node {
+    const items = [this.parseUnary()]
+    while (this.peek().type === 'AND' || this.implicit('AND')) {
+      const token = this.peek()
+      this.allow('and', token.start)
+      if (token.type === 'AND') this.next()
+      items.push(this.parseUnary())
+    }
+    return items.length === 1 ? items[0] : { kind: 'and', items }
+  }
+
+  private parseUnary(): Node {
+    const token = this.peek()
+    if (
+      token.type === 'NOT' ||
+      token.type === 'MINUS' ||
+      token.type === 'PLUS'
+    ) {
+      this.allow(
+        token.type === 'NOT'
+          ? 'not'
+          : token.type === 'PLUS'
+          ? 'required'
+          : 'prohibited',
+        token.start
+      )
+      this.next()
+      const node = this.parseUnary()
+      node.occur = token.type === 'PLUS' ? 'must' : 'must_not'
+      return node
+    }
+    return this.parsePrimary()
+  }
+
+  private parsePrimary(field?: string): Node {
+    const token = this.peek()
+
+    if (token.type === 'LPAREN') {
+      this.allow('group', token.start)
+      this.next()
+      const node = this.parseOr()
+      this.expect('RPAREN', '")"')
+      return this.parseBoost(field ? this.applyField(node, field) : node)
+    }
+
+    if (
+      token.type === 'TERM' &&
+      !field &&
+      this.tokens[this.index + 1].type === 'COLON'
+    ) {
+      this.next()
+      this.next()
+      return this.parseFieldValue(token)
+    }
+
+    if (token.type === 'LBRACKET' || token.type === 'LBRACE') {
+      if (!field) {
+        syntaxError(this.input, token.start, 'Range requires a field')
+      }
+      return this.parseBoost(this.parseRange(field))
+    }
+
+    if (
+      token.type === 'TERM' ||
+      token.type === 'PHRASE' ||
+      token.type === 'REGEX'
+    ) {
+      return this.parseLeaf(field)
+    }
+
+    return this.unexpected(token)
+  }
+
+  private parseFieldValue(fieldToken: Token): Node {
+    const field = fieldToken.value
+    const value = this.peek()
+
+    if (field === '_exists_') {
+      const target = this.expect('TERM', 'a field name')
+      this.checkField(target.value, target.start)
+      return this.parseBoost({ kind: 'exists', field: target.value })
+    }
+    if (
+      field === '*' &&
+      value.type === 'TERM' &&
+      value.value === '*' &&
+      value.pattern
+    ) {
+      this.next()
+      return this.parseBoost({ kind: 'all' })
+    }
+
+    this.checkField(field, fieldToken.start)
+
+    if (value.type === 'COMPARE') {
+      this.allow('range', value.start)
+      this.next()
+      const bound = this.parseBound()
+      const key = { '>': 'gt', '>=': 'gte', '<': 'lt', '<=': 'lte' }[
+        value.value
+      ]!
+      return this.parseBoost({ kind: 'range', field, bounds: { [key]: bound } })
+    }
+    if (value.type === 'TERM' && value.value === '*' && value.pattern === '*') {
+      this.next()
+      return this.parseBoost({ kind: 'exists', field })
+    }
+    return this.parsePrimary(field)
+  }
+
+  private parseBound(): string {
+    const token = this.peek()
+    if (token.type === 'MINUS') {
+      const number = this.tokens[this.index + 1]
+      if (number.type === 'TERM' && number.start === token.end) {
+        this.index += 2
+        return '-' + number.value
+      }
+    }
+    if (token.type === 'TERM' || token.type === 'PHRASE') {
+      this.next()
+      return token.value
+    }
+    return syntaxError(
+      this.input,
+      token.start,
+      `Expected a range bound but found ${this.describe(token)}`
+    )
+  }
+
+  private parseRange(field: string): Node {
+    const open = this.next()
+    this.allow('range', open.start)
+    const from = this.parseBound()
+    const to = this.peek()
+    if (to.type !== 'TERM' || to.value !== 'TO' || to.pattern) {
+      syntaxError(
+        this.input,
+        to.start,
+        `Expected "TO" but found ${this.describe(to)}`
+      )
+    }
+    this.next()
+    const until = this.parseBound()
+    const close = this.next()
+    if (close.type !== 'RBRACKET' && close.type !== 'RBRACE') {
+      syntaxError(
+        this.input,
+        close.start,
+        `Expected "]" or "}" but found ${this.describe(close)}`
+      )
+    }
+
+    const bounds: Record<string, string> = {}
+    if (from !== '*') bounds[open.type === 'LBRACKET' ? 'gte' : 'gt'] = from
+    if (until !== '*') bounds[close.type === 'RBRACKET' ? 'lte' : 'lt'] = until
+    return { kind: 'range', field, bounds }
+  }
+
+  private parseLeaf(field?: string): Node {
+    const token = this.next()
+    let node: Node
+
+    if (token.type === 'PHRASE') {
+      this.allow('phrase', token.start)
+      node = {
+        kind: 'phrase',
+        field,
+        value: token.value,
+        position: token.start,
+      }
+      if (this.peek().type === 'FUZZY') {
+        const slop = this.next()
+        this.allow('proximity', slop.start)
+        node.slop = slop.number ?? 0
+      }
+    } else if (token.type === 'REGEX') {
+      this.allow('regexp', token.start)
+      node = { kind: 'regex', field, value: token.value, position: token.start }
+    } else {
+      node = {
+        kind: 'term',
+        field,
+        value: token.value,
+        position: token.start,
+        ...(token.pattern ? { pattern: token.pattern } : {}),
+      }
+      if (token.pattern) {
+        this.allow('wildcard', token.start)
+        if (/^[*?]/.test(token.pattern) && !this.options.allowLeadingWildcard) {
+          syntaxError(
+            this.input,
+            token.start,
+            'Leading wildcards are not allowed',
+            'LUCENE_LEADING_WILDCARD'
+          )
+        }
+      }
+      if (this.peek().type === 'FUZZY') {
+        const fuzzy = this.next()
+        this.allow('fuzzy', fuzzy.start)
+        node.fuzziness = fuzzy.number ?? 'AUTO'
+      }
+    }
+
+    return this.parseBoost(node)
+  }
+
+  private parseBoost(node: Node): Node {
+    if (this.peek().type === 'BOOST') {
+      const boost = this.next()
+      this.allow('boost', boost.start)
+      node.boost = boost.number
+    }
+    return node
+  }
+
+  // field:(a b) searches every unfielded term of the group in `field`
+  private applyField(node: Node, field: string): Node {
+    if (node.kind === 'and' || node.kind === 'or') {
+      node.items = node.items.map((item) => this.applyField(item, field))
+    } else if (
+      (node.kind === 'term' ||
+        node.kind === 'phrase' ||
+        node.kind === 'regex') &&
+      !node.field
+    ) {
+      node.field = field
+    }
+    return node
+  }
+}
+
+function withBoost(clause: Record<string, any>, boost?: number) {
+  if (boost === undefined) return clause
+  const type = Object.keys(clause)[0]
+  const body = clause[type]
+  if (
+    type === 'bool' ||
+    type === 'multi_match' ||
+    type === 'exists' ||
+    type === 'match_all'
+  ) {
+    return { [type]: { ...body, boost } }
+  }
+  const field = Object.keys(body)[0]
+  const params =
+    typeof body[field] === 'object' ? body[field] : { value: body[field] }
+  return { [type]: { [field]: { ...params, boost } } }
+}
+
+function compile(node: Node, input: string, options: LuceneOptions): any {
+  // Unfielded leaves search the default fields, or every allowed field
+  const fields = options.defaultFields ?? options.allowedFields
+  const leafFields = (leaf: { field?: string; position: number }) =>
+    leaf.field ? [leaf.field] : fields ?? []
+
+  // Term-level queries need concrete fields: one clause per default field
+  const perField = (
+    leaf: { field?: string; position: number },
+    build: (field: string) => any
+  ) => {
+    const targets = leafFields(leaf)
+    if (targets.length === 0) {
+      syntaxError(
+        input,
+        leaf.position,
+        'Wildcard, fuzzy and regular expression terms need a field',
+        'LUCENE_FIELD_REQUIRED'
+      )
+    }
+    return targets.length === 1
+      ? build(targets[0])
+      : { bool: { should: targets.map(build), minimum_should_match: 1 } }
+  }
+
+  switch (node.kind) {
+    case 'and':
+    case 'or': {
+      const bool: Record<string, any[]> = {}
+      node.items.forEach((item) => {
+        const occur = item.occur ?? (node.kind === 'and' ? 'must' : 'should')
+        ;(bool[occur] = bool[occur] || []).push(
+          compile({ ...item, occur: undefined }, input, options)
+        )
+      })
+      if (bool.should && !bool.must) {
+        return withBoost(
+          { bool: { ...bool, minimum_should_match: 1 } },
+          node.boost
+        )
+      }
+      return withBoost({ bool }, node.boost)
+    }
+    case 'term': {
+      if (node.pattern) {
+        return withBoost(
+          perField(node, (field) => ({
+            wildcard: { [field]: { value: node.pattern } },
+          })),
+          node.boost
+        )
+      }
+      if (node.fuzziness !== undefined) {
+        return withBoost(
+          perField(node, (field) => ({
+            fuzzy: {
+              [field]: { value: node.value, fuzziness: node.fuzziness },
+            },
+          })),
+          node.boost
+        )
+      }
+      const targets = leafFields(node)
+      return withBoost(
+        targets.length === 1
+          ? { match: { [targets[0]]: { query: node.value } } }
+          : {
+              multi_match: {
+                query: node.value,
+                ...(targets.length ? { fields: targets } : {}),
+              },
+            },
+        node.boost
+      )
+    }
+    case 'phrase': {
+      const targets = leafFields(node)
+      const slop = node.slop !== undefined ? { slop: node.slop } : {}
+      return withBoost(
+        targets.length === 1
+          ? { match_phrase: { [targets[0]]: { query: node.value, ...slop } } }
+          : {
+              multi_match: {
+                query: node.value,
+                type: 'phrase',
+                ...(targets.length ? { fields: targets } : {}),
+                ...slop,
+              },
+            },
+        node.boost
+      )
+    }
+    case 'regex':
+      return withBoost(
+        perField(node, (field) => ({
+          regexp: { [field]: { value: node.value } },
+        })),
+        node.boost
+      )
+    case 'range':
+      return withBoost(
+        { range: { [node.field]: { ...node.bounds } } },
+        node.boost
+      )
+    case 'exists':
+      return withBoost({ exists: { field: node.field } }, node.boost)
+    case 'all':
+      return withBoost({ match_all: {} }, node.boost)
+  }
+}
+
+/**
+ * Parse a Lucene classic query string into an equivalent query clause,
+ * throwing a ValidationError with the character position on syntax errors
+ * and on fields or operators outside the allowed lists
+ */
+export function parseLucene(input: string, options: LuceneOptions = {}): any {
+  if (typeof input !== 'string') {
+    throw new ValidationError(
+      'Lucene query must be a string',
+      'query',
+      'INVALID_LUCENE_QUERY',
+      CONTEXT,
+      { input, type: typeof input }
+    )
+  }
+
+  const node = new LuceneParser(input, options).parse()
+  // A lone +/- clause still needs its bool
+  return compile(
+    node.occur ? { kind: 'or', items: [node] } : node,
+    input,
+    options
+  )
+}
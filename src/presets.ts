@@ -1,9 +1,15 @@
 import { QueryBuilder } from './query-builder'
 
+// Preset field names are fixed by convention, so they go through the
+// untyped builder, which any document type widens to
+function untyped<TDoc>(builder: QueryBuilder<TDoc>): QueryBuilder {
+  return builder
+}
+
 /**
  * E-commerce specialized query builder
  */
-export class EcommerceQueryBuilder extends QueryBuilder {
+export class EcommerceQueryBuilder<TDoc = any> extends QueryBuilder<TDoc> {
   /**
    * Search for products with text, category, and price filters
    */
@@ -18,7 +24,7 @@ export class EcommerceQueryBuilder extends QueryBuilder {
   ): this {
     // Main search term
     if (searchTerm) {
-      this.multiMatch(
+      untyped(this).multiMatch(
         ['name', 'description', 'tags'],
         searchTerm,
         'best_fields'
@@ -27,7 +33,7 @@ export class EcommerceQueryBuilder extends QueryBuilder {
 
     // Category filter
     if (options?.category) {
-      this.term('category', options.category)
+      untyped(this).term('category', options.category)
     }
 
     // Price range
@@ -37,17 +43,17 @@ export class EcommerceQueryBuilder extends QueryBuilder {
         range.gte = options.priceRange.min
       if (options.priceRange.max !== undefined)
         range.lte = options.priceRange.max
-      this.range('price', range)
+      untyped(this).range('price', range)
     }
 
     // Stock filter
     if (options?.inStock !== undefined) {
-      this.term('in_stock', options.inStock)
+      untyped(this).term('in_stock', options.inStock)
     }
 
     // Brand filters
     if (options?.brands && options.brands.length > 0) {
-      this.terms('brand', options.brands)
+      untyped(this).terms('brand', options.brands)
     }
 
     return this
@@ -57,7 +63,8 @@ export class EcommerceQueryBuilder extends QueryBuilder {
    * Add common e-commerce aggregations
    */
   addEcommerceAggregations(): this {
-    return this.termsAgg('categories', 'category.keyword', 10)
+    untyped(this)
+      .termsAgg('categories', 'category.keyword', 10)
       .termsAgg('brands', 'brand.keyword', 20)
       .rangeAgg('price_ranges', 'price', [
         { to: 25, key: 'under_25' },
@@ -67,43 +74,48 @@ export class EcommerceQueryBuilder extends QueryBuilder {
         { from: 200, key: 'over_200' },
       ])
       .termsAgg('ratings', 'rating', 5)
+    return this
   }
 
   /**
    * Sort by popularity/sales
    */
   sortByPopularity(): this {
-    return this.sort('sales_count', 'desc').sort('rating', 'desc')
+    untyped(this).sort('sales_count', 'desc').sort('rating', 'desc')
+    return this
   }
 
   /**
    * Sort by price (low to high or high to low)
    */
   sortByPrice(direction: 'asc' | 'desc' = 'asc'): this {
-    return this.sort('price', direction)
+    untyped(this).sort('price', direction)
+    return this
   }
 
   /**
    * Sort by newest first
    */
   sortByNewest(): this {
-    return this.sort('created_at', 'desc')
+    untyped(this).sort('created_at', 'desc')
+    return this
   }
 
   /**
    * Add product recommendation query (more like this)
    */
   recommendSimilar(productId: string): this {
-    return this.moreLikeThis(['name', 'description', 'category'], undefined, [
+    untyped(this).moreLikeThis(['name', 'description', 'category'], undefined, [
       { _index: 'products', _id: productId },
     ])
+    return this
   }
 }
 
 /**
  * Logs and monitoring specialized query builder
  */
-export class LogsQueryBuilder extends QueryBuilder {
+export class LogsQueryBuilder<TDoc = any> extends QueryBuilder<TDoc> {
   /**
    * Filter logs by time range
    */
@@ -111,44 +123,49 @@ export class LogsQueryBuilder extends QueryBuilder {
     const fromStr = from instanceof Date ? from.toISOString() : from
     const toStr = to instanceof Date ? to.toISOString() : to
 
-    return this.range('@timestamp', { gte: fromStr, lte: toStr })
+    untyped(this).range('@timestamp', { gte: fromStr, lte: toStr })
+    return this
   }
 
   /**
    * Filter by log level
    */
   logLevel(level: 'error' | 'warn' | 'info' | 'debug' | string): this {
-    return this.term('level', level)
+    untyped(this).term('level', level)
+    return this
   }
 
   /**
    * Filter by service name
    */
   service(serviceName: string): this {
-    return this.term('service.name', serviceName)
+    untyped(this).term('service.name', serviceName)
+    return this
   }
 
   /**
    * Filter by environment
    */
   environment(env: 'production' | 'staging' | 'development' | string): this {
-    return this.term('environment', env)
+    untyped(this).term('environment', env)
+    return this
   }
 
   /**
    * Search in log message
    */
   searchMessage(searchTerm: string): this {
-    return this.match('message', searchTerm)
+    untyped(this).match('message', searchTerm)
+    return this
   }
 
   /**
    * Filter by specific error or exception
    */
   withError(errorType?: string): this {
-    this.exists('error')
+    untyped(this).exists('error')
     if (errorType) {
-      this.match('error.type', errorType)
+      untyped(this).match('error.type', errorType)
     }
     return this
   }
@@ -157,67 +174,76 @@ export class LogsQueryBuilder extends QueryBuilder {
    * Add time histogram aggregation
    */
   addTimeHistogram(interval: string = '1h'): this {
-    return this.dateHistogramAgg('logs_over_time', '@timestamp', interval)
+    untyped(this).dateHistogramAgg('logs_over_time', '@timestamp', interval)
+    return this
   }
 
   /**
    * Add common log aggregations
    */
   addLogAggregations(): this {
-    return this.termsAgg('services', 'service.name.keyword', 10)
+    untyped(this)
+      .termsAgg('services', 'service.name.keyword', 10)
       .termsAgg('log_levels', 'level.keyword', 5)
       .termsAgg('environments', 'environment.keyword', 5)
       .termsAgg('error_types', 'error.type.keyword', 10)
+    return this
   }
 
   /**
    * Sort by timestamp (newest first by default)
    */
   sortByTime(direction: 'asc' | 'desc' = 'desc'): this {
-    return this.sort('@timestamp', direction)
+    untyped(this).sort('@timestamp', direction)
+    return this
   }
 }
 
 /**
  * Analytics and metrics specialized query builder
  */
-export class AnalyticsQueryBuilder extends QueryBuilder {
+export class AnalyticsQueryBuilder<TDoc = any> extends QueryBuilder<TDoc> {
   /**
    * Filter by user segment
    */
   userSegment(segment: string): this {
-    return this.term('user.segment', segment)
+    untyped(this).term('user.segment', segment)
+    return this
   }
 
   /**
    * Filter by event type
    */
   eventType(event: string): this {
-    return this.term('event.type', event)
+    untyped(this).term('event.type', event)
+    return this
   }
 
   /**
    * Filter by date range
    */
   dateRange(from: Date, to: Date): this {
-    return this.range('event.timestamp', {
+    untyped(this).range('event.timestamp', {
       gte: from.toISOString(),
       lte: to.toISOString(),
     })
+    return this
   }
 
   /**
    * Filter by user properties
    */
   userProperty(property: string, value: any): this {
-    return this.term(`user.properties.${property}`, value)
+    untyped(this).term(`user.properties.${property}`, value)
+    return this
   }
 
   /**
    * Filter by event properties
    */
   eventProperty(property: string, value: any): this {
-    return this.term(`event.properties.${property}`, value)
+    untyped(this).term(`event.properties.${property}`, value)
+    return this
   }
 
   /**
@@ -225,7 +251,7 @@ export class AnalyticsQueryBuilder extends QueryBuilder {
    */
   conversionFunnel(steps: string[]): this {
     steps.forEach((step, index) => {
-      this.termsAgg(`step_${index + 1}_${step}`, 'event.type', 1)
+      untyped(this).termsAgg(`step_${index + 1}_${step}`, 'event.type', 1)
     })
     return this
   }
@@ -234,35 +260,37 @@ export class AnalyticsQueryBuilder extends QueryBuilder {
    * Add user analytics aggregations
    */
   addUserAnalytics(): this {
-    return this.cardinalityAgg('unique_users', 'user.id')
+    untyped(this)
+      .cardinalityAgg('unique_users', 'user.id')
       .termsAgg('user_segments', 'user.segment.keyword', 10)
       .termsAgg('user_countries', 'user.geo.country.keyword', 20)
       .termsAgg('devices', 'user.device.type.keyword', 5)
+    return this
   }
 
   /**
    * Add time-based analytics
    */
   addTimeAnalytics(interval: string = '1d'): this {
-    return this.dateHistogramAgg(
-      'events_over_time',
-      'event.timestamp',
-      interval
-    ).dateHistogramAgg('users_over_time', 'user.first_seen', interval)
+    untyped(this)
+      .dateHistogramAgg('events_over_time', 'event.timestamp', interval)
+      .dateHistogramAgg('users_over_time', 'user.first_seen', interval)
+    return this
   }
 
   /**
    * Sort by event timestamp
    */
   sortByEventTime(direction: 'asc' | 'desc' = 'desc'): this {
-    return this.sort('event.timestamp', direction)
+    untyped(this).sort('event.timestamp', direction)
+    return this
   }
 }
 
 /**
  * Content and document search specialized query builder
  */
-export class ContentQueryBuilder extends QueryBuilder {
+export class ContentQueryBuilder<TDoc = any> extends QueryBuilder<TDoc> {
   /**
    * Full-text search across content fields
    */
@@ -288,9 +316,9 @@ export class ContentQueryBuilder extends QueryBuilder {
           ? `${fieldName}^${options.boost[fieldName]}`
           : field
       })
-      this.multiMatch(boostedFields, searchTerm, 'best_fields')
+      untyped(this).multiMatch(boostedFields, searchTerm, 'best_fields')
     } else {
-      this.multiMatch(fields, searchTerm, 'best_fields')
+      untyped(this).multiMatch(fields, searchTerm, 'best_fields')
     }
 
     if (options?.operator) {
@@ -307,48 +335,54 @@ export class ContentQueryBuilder extends QueryBuilder {
    * Filter by content type
    */
   contentType(type: string): this {
-    return this.term('content_type', type)
+    untyped(this).term('content_type', type)
+    return this
   }
 
   /**
    * Filter by author
    */
   author(authorName: string): this {
-    return this.term('author.name', authorName)
+    untyped(this).term('author.name', authorName)
+    return this
   }
 
   /**
    * Filter by publication date range
    */
   publishedBetween(from: Date, to: Date): this {
-    return this.range('published_at', {
+    untyped(this).range('published_at', {
       gte: from.toISOString(),
       lte: to.toISOString(),
     })
+    return this
   }
 
   /**
    * Filter by tags
    */
   withTags(tags: string[]): this {
-    return this.terms('tags', tags)
+    untyped(this).terms('tags', tags)
+    return this
   }
 
   /**
    * Add content aggregations
    */
   addContentAggregations(): this {
-    return this.termsAgg('content_types', 'content_type.keyword', 10)
+    untyped(this)
+      .termsAgg('content_types', 'content_type.keyword', 10)
       .termsAgg('authors', 'author.name.keyword', 20)
       .termsAgg('popular_tags', 'tags.keyword', 50)
       .dateHistogramAgg('published_over_time', 'published_at', '1M')
+    return this
   }
 
   /**
    * Sort by relevance with recency boost
    */
   sortByRelevanceAndRecency(): this {
-    return this.functionScore(
+    untyped(this).functionScore(
       [
         {
           filter: { range: { published_at: { gte: 'now-30d' } } },
@@ -361,12 +395,14 @@ export class ContentQueryBuilder extends QueryBuilder {
       ],
       { boost_mode: 'multiply', score_mode: 'multiply' }
     )
+    return this
   }
 
   /**
    * Sort by popularity (views, likes, etc.)
    */
   sortByPopularity(): this {
-    return this.sort('view_count', 'desc').sort('like_count', 'desc')
+    untyped(this).sort('view_count', 'desc').sort('like_count', 'desc')
+    return this
   }
 }
@@ -1,4 +1,92 @@
-import { QueryDSL, SortOrder, SortOption, RangeQuery } from './types'
+import {
+  QueryDSL,
+  SortOrder,
+  SortOption,
+  RangeQuery,
+  FieldPath,
+  QueryFieldPath,
+  RangeFieldPath,
+  SortFieldPath,
+  BoostedFieldPath,
+  FieldValue,
+  ClauseContext,
+  ClauseOptions,
+  PipelineOptions,
+  CompositeSource,
+  CompositeAggregationResult,
+  SearchTransport,
+  AggregationMarker,
+  WithAggregation,
+  WithSource,
+  SourcePick,
+  MetricAggregationResult,
+  CountAggregationResult,
+  StatsAggregationResult,
+  BucketMetricAggregationResult,
+  SingleBucketAggregationResult,
+  TermsAggregationResult,
+  DateHistogramAggregationResult,
+  HistogramAggregationResult,
+  RangeAggregationResult,
+  FiltersAggregationResult,
+  SortValue,
+  FromDSLResult,
+  LuceneOptions,
+  UserInputOptions,
+  CollapseOptions,
+  InnerHitsOptions,
+  NestedOptions,
+  NestedQuery,
+  HasChildOptions,
+  HasParentOptions,
+  RescoreOptions,
+  RescoreDSL,
+  TermSuggestOptions,
+  PhraseSuggestOptions,
+  CompletionSuggestOptions,
+  SuggesterDSL,
+  TermSuggestion,
+  PhraseSuggestion,
+  CompletionSuggestion,
+  WithSuggester,
+  SuggestionsOf,
+  FieldAndFormat,
+  ScriptFieldOptions,
+  ScriptFieldDSL,
+  RuntimeFieldType,
+  RuntimeFieldValue,
+  RuntimeFieldOptions,
+  RuntimeFieldDSL,
+  WithRuntimeField,
+  KnnOptions,
+  KnnQueryOptions,
+  KnnDSL,
+  NeuralOptions,
+  HybridOptions,
+  CollapseDSL,
+  CollapsedGroup,
+  SourceOf,
+  SearchTarget,
+  LintIssue,
+  LintOptions,
+} from './types'
+import { AggregationBuilder, SubAggregations } from './aggregation-builder'
+import { parseDSL } from './from-dsl'
+import { parseLucene } from './lucene'
+import { parseKQL } from './kql'
+import { validateTarget, emitForTarget } from './target'
+import { Linter } from './lint'
+import type { Schema } from './schema'
+import type { FacetedSearch } from './facets'
+import {
+  escapeQueryString,
+  escapeSimpleQueryString,
+  sanitizePrefix,
+  sanitizeWildcard,
+  sanitizeParsedClause,
+  validateRegexp,
+  MAX_USER_REGEXP_LENGTH,
+} from './sanitize'
 import {
   validateFieldName,
   validateQueryValue,
@@ -7,10 +95,81 @@ import {
   validateRangeQuery,
   validateStringArray,
   validateMultiMatchType,
-  validateAggregationName,
+  validateClauseContext,
+  validateBucketsPaths,
+  validateResultWindow,
+  validateSearchAfter,
+  validateCollapse,
+  validateRescore,
+  validateVector,
+  validateHybrid,
+  MAX_RESULT_WINDOW,
+  validateInnerHits,
+  validateArray,
+  ValidationError,
 } from './validation'
 
-export class QueryBuilder {
+// Builder class as seen from a static method. Inferring through
+// `prototype` keeps the document type of `QueryBuilder.fromDSL()` as `any`
+// rather than `unknown`, and subclasses build their own type.
+type BuilderClass<B> = (new () => B) & { prototype: B }
+
+// Whether a DSL fragment uses a field, as a clause key (`{ term: { f } }`),
+// its `.keyword` sub-field or a `field` value (aggregations, exists)
+function referencesField(node: any, field: string): boolean {
+  if (Array.isArray(node)) {
+    return node.some((item) => referencesField(item, field))
+  }
+  if (node === null || typeof node !== 'object') return false
+  return Object.keys(node).some(
+    (key) =>
+      key === field ||
+      key === `${field}.keyword` ||
+      (key === 'field' && node[key] === field) ||
+      referencesField(node[key], field)
+  )
+}
+
+// Aggregations of a search response, under `aggregations` as returned or
+// `aggs` as some clients rename them
+function responseAggregations(response: any): Record<string, any> {
+  return response?.aggregations ?? response?.aggs ?? {}
+}
+
+/**
+ * Fluent builder for OpenSearch/Elasticsearch query DSL.
+ *
+ * Pass a document type to check field paths and values at compile time:
+ * `new QueryBuilder<Product>().range('price', { gte: 10 })`
+ */
+export class QueryBuilder<TDoc = any> {
+  // Type-level markers read by parseResponse(); never assigned
+  declare readonly __doc?: TDoc
+  declare readonly __source?: unknown
+  declare readonly __aggs?: {}
+  declare readonly __suggest?: {}
+
+  // Context forced by an enclosing filter()/must() block
+  private clauseContext?: ClauseContext
+
+  // Sort appended last at build() so search_after pages are unambiguous
+  private tiebreakerSort?: SortOption
+
+  // Set by userInput(); shared with the builders of nested callbacks
+  private inputPolicy?: Required<UserInputOptions>
+
+  // Set by target(); build() emits the DSL of this engine version
+  private searchTarget?: SearchTarget
+
+  // Set by schema(); shared with the builders of nested callbacks
+  private indexSchema?: Schema
+
+  // Builders of callbacks leave nested wrapping to the top-level build()
+  private embedded = false
+
+  // Set by maxResultWindow(); the index's max_result_window
+  private resultWindowLimit = MAX_RESULT_WINDOW
+
   private query: QueryDSL = {
     query: {
       bool: {
@@ -24,6 +183,105 @@ export class QueryBuilder {
 
   constructor() {}
 
+  /**
+   * Rebuild a builder from a search request body (object or JSON string)
+   * so it can be edited fluently. Constructs without a builder method are
+   * kept verbatim; use fromDSLWithReport() to list them.
+   */
+  static fromDSL<B extends QueryBuilder<any> = QueryBuilder>(
+    this: BuilderClass<B>,
+    dsl: unknown
+  ): B {
+    const builder = new this()
+    builder.query = parseDSL(dsl).query
+    return builder
+  }
+
+  /**
+   * Like fromDSL(), also returning the opaque constructs by path
+   */
+  static fromDSLWithReport<B extends QueryBuilder<any> = QueryBuilder>(
+    this: BuilderClass<B>,
+    dsl: unknown
+  ): FromDSLResult<B> {
+    const { query, opaque } = parseDSL(dsl)
+    const builder = new this()
+    builder.query = query
+    return { builder, opaque }
+  }
+
+  /**
+   * Start a builder from a Kibana Query Language string, e.g. one pasted
+   * from a Discover search bar
+   */
+  static fromKQL<B extends QueryBuilder<any> = QueryBuilder>(
+    this: BuilderClass<B>,
+    kql: string,
+    options?: ClauseOptions
+  ): B {
+    return new this().kql(kql, options)
+  }
+
+  /**
+   * Treat values passed to this builder and its callbacks as untrusted
+   * input: query-string syntax is escaped, leading wildcards are rejected
+   * and regexps are checked for size and catastrophic shapes. Pass `false`
+   * to turn it off again.
+   */
+  userInput(options: UserInputOptions | false = {}): this {
+    this.inputPolicy =
+      options === false
+        ? undefined
+        : {
+            leadingWildcard: 'reject',
+            maxRegexpLength: MAX_USER_REGEXP_LENGTH,
+            escapeQuerySyntax: true,
+            ...options,
+          }
+    return this
+  }
+
+  /**
+   * Emit DSL for an engine version, e.g.
+   * `{ engine: 'elasticsearch', version: '7.1' }`: build() converts syntax
+   * that differs between versions and throws UNSUPPORTED_IN_TARGET for
+   * features the target lacks. Pass `false` to emit the default DSL again.
+   */
+  target(target: SearchTarget | false): this {
+    this.searchTarget = target === false ? undefined : validateTarget(target)
+    return this
+  }
+
+  /**
+   * Build against an index mapping: clauses and aggregations on nested
+   * fields are wrapped in nested queries and aggregations, term() uses
+   * `.keyword` only for text fields, and validate() reports unknown fields
+   * and clauses the field types do not support. Pass `false` to drop it.
+   */
+  schema(schema: Schema | false): this {
+    this.indexSchema = schema === false ? undefined : schema
+    return this
+  }
+
+  /**
+   * Set the index's `max_result_window` (default 10000) that build()
+   * checks `from + size` against, size() and rescore() check their values
+   * against, and lint() reports with. Set it before size() and rescore().
+   */
+  maxResultWindow(limit: number): this {
+    if (!Number.isInteger(limit) || limit <= 0) {
+      throw new ValidationError(
+        'maxResultWindow must be a positive integer',
+        'maxResultWindow',
+        'INVALID_RESULT_WINDOW',
+        'maxResultWindow',
+        { limit }
+      )
+    }
+    this.resultWindowLimit = limit
+    return this
+  }
+
   /**
    * Set pagination - from offset
    */
@@ -37,7 +295,7 @@ export class QueryBuilder {
    * Set pagination - size/limit
    */
   size(value: number): this {
-    validatePaginationParams(undefined, value, 'size')
+    validatePaginationParams(undefined, value, 'size', this.resultWindowLimit)
     this.query.size = value
     return this
   }
@@ -45,131 +303,136 @@ export class QueryBuilder {
   /**
    * Add a match query to must clause
    */
-  match(field: string, value: any, operator?: 'and' | 'or'): this {
+  match<P extends QueryFieldPath<TDoc>>(
+    field: P,
+    value: FieldValue<TDoc, P>,
+    operator?: 'and' | 'or',
+    options?: ClauseOptions
+  ): this {
     validateFieldName(field, 'match query')
     validateQueryValue(value, 'match query')
-    this.ensureBoolQuery()
     const matchQuery: any = { match: { [field]: { query: value } } }
     if (operator) {
       matchQuery.match[field].operator = operator
     }
-    this.query.query!.bool!.must!.push(matchQuery)
-    return this
+    return this.addClause(matchQuery, 'must', options)
   }
 
   /**
    * Add a match_phrase query to must clause
    */
-  matchPhrase(field: string, value: string): this {
+  matchPhrase(
+    field: QueryFieldPath<TDoc>,
+    value: string,
+    options?: ClauseOptions
+  ): this {
     validateFieldName(field, 'match_phrase query')
     validateQueryValue(value, 'match_phrase query')
-    this.ensureBoolQuery()
-    this.query.query!.bool!.must!.push({
-      match_phrase: { [field]: value },
-    })
-    return this
+    return this.addClause({ match_phrase: { [field]: value } }, 'must', options)
   }
 
   /**
    * Add a term query to filter clause
-   * Automatically appends '.keyword' to field name for exact matching
+   * Automatically appends '.keyword' to field name for exact matching; with
+   * a schema, only text fields with a keyword sub-field get it
    */
-  term(field: string, value: any): this {
+  term<P extends QueryFieldPath<TDoc>>(
+    field: P,
+    value: FieldValue<TDoc, P>,
+    options?: ClauseOptions
+  ): this {
     validateFieldName(field, 'term query')
     validateQueryValue(value, 'term query')
-    this.ensureBoolQuery()
-
-    // Append .keyword if not already present
-    const fieldName = field.endsWith('.keyword') ? field : `${field}.keyword`
+    // Append .keyword if not already present; runtime fields have none.
+    // A schema field without an exact-match field is kept for validate()
+    // to report.
+    let fieldName: string = field
+    if (!field.endsWith('.keyword') && !this.query.runtime_mappings?.[field]) {
+      fieldName = this.indexSchema
+        ? this.indexSchema.exactMatchField(field) ?? field
+        : `${field}.keyword`
+    }
 
-    this.query.query!.bool!.filter!.push({
-      term: { [fieldName]: value },
-    })
-    return this
+    return this.addClause({ term: { [fieldName]: value } }, 'filter', options)
   }
 
   /**
    * Add a terms query to filter clause
    */
-  terms(field: string, values: any[]): this {
+  terms<P extends QueryFieldPath<TDoc>>(
+    field: P,
+    values: FieldValue<TDoc, P>[],
+    options?: ClauseOptions
+  ): this {
     validateFieldName(field, 'terms query')
     if (!Array.isArray(values) || values.length === 0) {
       throw new Error('terms query values must be a non-empty array')
     }
-    this.ensureBoolQuery()
-    this.query.query!.bool!.filter!.push({
-      terms: { [field]: values },
-    })
-    return this
+    return this.addClause({ terms: { [field]: values } }, 'filter', options)
   }
 
   /**
    * Add a range query to filter clause
    */
-  range(field: string, range: RangeQuery): this {
+  range<P extends RangeFieldPath<TDoc>>(
+    field: P,
+    range: RangeQuery<FieldValue<TDoc, P>>,
+    options?: ClauseOptions
+  ): this {
     validateFieldName(field, 'range query')
     validateRangeQuery(range)
-    this.ensureBoolQuery()
-    this.query.query!.bool!.filter!.push({
-      range: { [field]: range },
-    })
-    return this
+    return this.addClause({ range: { [field]: range } }, 'filter', options)
   }
 
   /**
    * Add a exists query to filter clause
    */
-  exists(field: string): this {
+  exists(field: FieldPath<TDoc>, options?: ClauseOptions): this {
     validateFieldName(field, 'exists query')
-    this.ensureBoolQuery()
-    this.query.query!.bool!.filter!.push({
-      exists: { field },
-    })
-    return this
+    return this.addClause({ exists: { field } }, 'filter', options)
   }
 
   /**
    * Add a wildcard query to must clause
    */
-  wildcard(field: string, value: string): this {
+  wildcard(
+    field: QueryFieldPath<TDoc>,
+    value: string,
+    options?: ClauseOptions
+  ): this {
     validateFieldName(field, 'wildcard query')
     validateQueryValue(value, 'wildcard query')
-    this.ensureBoolQuery()
-    this.query.query!.bool!.must!.push({
-      wildcard: { [field]: value },
-    })
-    return this
+    if (this.inputPolicy) {
+      value = sanitizeWildcard(value, this.inputPolicy.leadingWildcard)
+    }
+    return this.addClause({ wildcard: { [field]: value } }, 'must', options)
   }
 
   /**
    * Add a prefix query to must clause
    */
-  prefix(field: string, value: string): this {
+  prefix(
+    field: QueryFieldPath<TDoc>,
+    value: string,
+    options?: ClauseOptions
+  ): this {
     validateFieldName(field, 'prefix query')
     validateQueryValue(value, 'prefix query')
-    this.ensureBoolQuery()
-    this.query.query!.bool!.must!.push({
-      prefix: { [field]: value },
-    })
-    return this
+    if (this.inputPolicy) {
+      value = sanitizePrefix(value, this.inputPolicy.leadingWildcard)
+    }
+    return this.addClause({ prefix: { [field]: value } }, 'must', options)
   }
 
   /**
    * Add a should clause (OR condition)
    */
-  should(callback: (builder: QueryBuilder) => void): this {
+  should(callback: (builder: QueryBuilder<TDoc>) => void): this {
     this.ensureBoolQuery()
-    const subBuilder = new QueryBuilder()
+    const subBuilder = this.subBuilder<TDoc>()
     callback(subBuilder)
 
-    const subQuery = subBuilder.build()
-    if (subQuery.query?.bool?.must && subQuery.query.bool.must.length > 0) {
-      this.query.query!.bool!.should!.push(...subQuery.query.bool.must)
-    }
-    if (subQuery.query?.bool?.filter && subQuery.query.bool.filter.length > 0) {
-      this.query.query!.bool!.should!.push(...subQuery.query.bool.filter)
-    }
-
+    this.query.query!.bool!.should!.push(...subBuilder.toClauses())
     return this
   }
 
@@ -185,32 +448,111 @@ export class QueryBuilder {
   /**
    * Add a must_not clause
    */
-  mustNot(callback: (builder: QueryBuilder) => void): this {
+  mustNot(callback: (builder: QueryBuilder<TDoc>) => void): this {
     this.ensureBoolQuery()
-    const subBuilder = new QueryBuilder()
+    const subBuilder = this.subBuilder<TDoc>()
+    callback(subBuilder)
+
+    this.query.query!.bool!.must_not!.push(...subBuilder.toClauses())
+    return this
+  }
+
+  /**
+   * Add a nested bool group that keeps every clause type of the callback,
+   * including its own should, must_not and minimum_should_match
+   */
+  bool(
+    callback: (builder: QueryBuilder<TDoc>) => void,
+    options?: ClauseOptions
+  ): this {
+    const subBuilder = this.subBuilder<TDoc>()
     callback(subBuilder)
 
-    const subQuery = subBuilder.build()
-    if (subQuery.query?.bool?.must && subQuery.query.bool.must.length > 0) {
-      this.query.query!.bool!.must_not!.push(...subQuery.query.bool.must)
+    const groupQuery = subBuilder.toGroupQuery()
+    if (groupQuery) {
+      this.addClause(groupQuery, 'must', options)
     }
-    if (subQuery.query?.bool?.filter && subQuery.query.bool.filter.length > 0) {
-      this.query.query!.bool!.must_not!.push(...subQuery.query.bool.filter)
+    return this
+  }
+
+  /**
+   * Add a nested group where every clause of the callback must match (AND)
+   */
+  allOf(
+    callback: (builder: QueryBuilder<TDoc>) => void,
+    options?: ClauseOptions
+  ): this {
+    return this.bool(callback, options)
+  }
+
+  /**
+   * Add a nested group where at least one clause of the callback must match (OR)
+   */
+  anyOf(
+    callback: (builder: QueryBuilder<TDoc>) => void,
+    options?: ClauseOptions
+  ): this {
+    const subBuilder = this.subBuilder<TDoc>()
+    callback(subBuilder)
+
+    const clauses = subBuilder.toClauses()
+    if (clauses.length > 0) {
+      this.addClause(
+        { bool: { should: clauses, minimum_should_match: 1 } },
+        'must',
+        options
+      )
     }
+    return this
+  }
 
+  /**
+   * Add a nested group where no clause of the callback may match (NOR)
+   */
+  noneOf(
+    callback: (builder: QueryBuilder<TDoc>) => void,
+    options?: ClauseOptions
+  ): this {
+    const subBuilder = this.subBuilder<TDoc>()
+    callback(subBuilder)
+
+    const clauses = subBuilder.toClauses()
+    if (clauses.length > 0) {
+      this.addClause({ bool: { must_not: clauses } }, 'must', options)
+    }
     return this
   }
 
+  /**
+   * Place every clause added in the callback in filter context
+   * (non-scoring, cacheable). Per-call `context` options still win.
+   */
+  filter(callback: (builder: this) => void): this {
+    return this.withContext('filter', callback)
+  }
+
+  /**
+   * Place every clause added in the callback in must context (scoring).
+   * Per-call `context` options still win.
+   */
+  must(callback: (builder: this) => void): this {
+    return this.withContext('must', callback)
+  }
+
   /**
    * Add multi_match query
    */
-  multiMatch(fields: string[], value: string, type?: string): this {
+  multiMatch(
+    fields: BoostedFieldPath<TDoc>[],
+    value: string,
+    type?: string,
+    options?: ClauseOptions
+  ): this {
     validateStringArray(fields, 'multi_match fields')
     validateQueryValue(value, 'multi_match query')
     if (type !== undefined) {
       validateMultiMatchType(type)
     }
-    this.ensureBoolQuery()
     const multiMatchQuery: any = {
       multi_match: {
         query: value,
@@ -220,14 +562,13 @@ export class QueryBuilder {
     if (type) {
       multiMatchQuery.multi_match.type = type
     }
-    this.query.query!.bool!.must!.push(multiMatchQuery)
-    return this
+    return this.addClause(multiMatchQuery, 'must', options)
   }
 
   /**
    * Add sorting
    */
-  sort(field: string, order: SortOrder = 'asc'): this {
+  sort(field: SortFieldPath<TDoc>, order: SortOrder = 'asc'): this {
     validateFieldName(field, 'sort')
     validateSortOrder(order)
     if (!this.query.sort) {
@@ -257,74 +598,374 @@ export class QueryBuilder {
   }
 
   /**
-   * Set source fields to return
+   * Resume after the sort values of the last hit of the previous page.
+   * Requires a sort; use with pit() for a consistent view.
    */
-  source(fields: string[] | boolean): this {
-    this.query._source = fields
+  searchAfter(values: SortValue[]): this {
+    validateArray(values, 'searchAfter')
+    this.query.search_after = values
     return this
   }
 
   /**
-   * Add aggregation
+   * Search a point in time opened with the `_pit` API. A `_shard_doc`
+   * tiebreaker is added to the sort unless tiebreaker() sets another one.
+   */
+  pit(id: string, keepAlive: string = '1m'): this {
+    validateQueryValue(id, 'pit')
+    this.query.pit = { id, keep_alive: keepAlive }
+    return this
+  }
+
+  /**
+   * Set a unique field sorted last, so hits with equal sort values are
+   * still paged in a stable order
+   */
+  tiebreaker(
+    field: SortFieldPath<TDoc> | '_shard_doc',
+    order: SortOrder = 'asc'
+  ): this {
+    validateFieldName(field, 'tiebreaker')
+    validateSortOrder(order)
+    this.tiebreakerSort = { [field]: order }
+    return this
+  }
+
+  /**
+   * Clone the query to fetch the page after a response, resuming from the
+   * last hit's sort values and the refreshed pit id. Returns undefined
+   * when the response has no hits.
+   */
+  nextSearchAfterPage(response: any): this | undefined {
+    const body =
+      response?.hits === undefined && response?.body ? response.body : response
+    const hits = body?.hits?.hits
+    if (!Array.isArray(hits) || hits.length === 0) {
+      return undefined
+    }
+
+    const lastHit = hits[hits.length - 1]
+    if (!Array.isArray(lastHit?.sort)) {
+      throw new ValidationError(
+        'Last hit has no sort values; the query needs a sort to page with search_after',
+        'sort',
+        'MISSING_SORT_VALUES',
+        'nextSearchAfterPage',
+        { hit: lastHit }
+      )
+    }
+
+    const next = this.clone().searchAfter(lastHit.sort)
+    delete next.query.from
+    if (next.query.pit && body.pit_id) {
+      next.query.pit.id = body.pit_id
+    }
+    return next
+  }
+
+  /**
+   * Return one hit per value of a field, e.g. per product family or
+   * thread, optionally expanding each group with inner_hits
    */
-  aggregate(name: string, aggregation: any): this {
-    validateAggregationName(name)
-    if (!aggregation || typeof aggregation !== 'object') {
-      throw new Error('Aggregation must be an object')
+  collapse(
+    field: QueryFieldPath<TDoc>,
+    options: CollapseOptions<TDoc> = {}
+  ): this {
+    validateFieldName(field, 'collapse')
+    const collapse: CollapseDSL = { field }
+
+    if (options.innerHits !== undefined) {
+      const innerHits = Array.isArray(options.innerHits)
+        ? options.innerHits
+        : [options.innerHits]
+      validateInnerHits(innerHits)
+      collapse.inner_hits = Array.isArray(options.innerHits)
+        ? innerHits.map((innerHit) => this.toInnerHits(innerHit))
+        : this.toInnerHits(options.innerHits)
     }
-    if (!this.query.aggs) {
-      this.query.aggs = {}
+
+    const maxSearches = options.maxConcurrentGroupSearches
+    if (maxSearches !== undefined) {
+      if (!Number.isInteger(maxSearches) || maxSearches <= 0) {
+        throw new Error(
+          'Max concurrent group searches must be a positive integer'
+        )
+      }
+      collapse.max_concurrent_group_searches = maxSearches
     }
-    this.query.aggs[name] = aggregation
+
+    this.query.collapse = collapse
     return this
   }
 
   /**
-   * Add terms aggregation helper
+   * Pair each collapsed hit of a response with its group key and the
+   * expanded inner hits, by inner_hits name
    */
-  termsAgg(name: string, field: string, size: number = 10): this {
-    validateFieldName(field, 'terms aggregation')
-    if (!Number.isInteger(size) || size <= 0) {
-      throw new Error('Terms aggregation size must be a positive integer')
+  collapsedGroups(response: any): CollapsedGroup<SourceOf<this, TDoc>>[] {
+    const collapse = this.query.collapse
+    if (!collapse) {
+      throw new ValidationError(
+        'collapsedGroups() requires collapse() on the query',
+        'collapse',
+        'COLLAPSE_NOT_SET',
+        'collapsedGroups',
+        {}
+      )
     }
-    return this.aggregate(name, {
-      terms: { field, size },
-    })
+
+    const body =
+      response?.hits === undefined && response?.body ? response.body : response
+    const hits = body?.hits?.hits
+    if (!Array.isArray(hits)) {
+      throw new ValidationError(
+        'Search response has no hits array',
+        'hits.hits',
+        'RESPONSE_SHAPE_MISMATCH',
+        'collapsedGroups',
+        { response }
+      )
+    }
+
+    const names = ([] as Record<string, any>[])
+      .concat(collapse.inner_hits || [])
+      .map(({ name }) => name)
+    return hits.map((hit: any) => ({
+      key: hit.fields?.[collapse.field]?.[0],
+      hit,
+      innerHits: Object.fromEntries(
+        names.map((name) => {
+          const inner = hit.inner_hits?.[name]?.hits
+          const total = inner?.total
+          return [
+            name,
+            {
+              total: typeof total === 'number' ? total : total?.value ?? 0,
+              hits: inner?.hits ?? [],
+            },
+          ]
+        })
+      ),
+    }))
   }
 
   /**
-   * Add date histogram aggregation helper
+   * Set source fields to return
+   */
+  source<P extends FieldPath<TDoc>>(
+    fields: P[]
+  ): WithSource<this, SourcePick<TDoc, P>>
+  source(enabled: false): WithSource<this, never>
+  source(enabled: boolean): this
+  source(fields: FieldPath<TDoc>[] | boolean): this {
+    this.query._source = fields
+    return this
+  }
+
+  /**
+   * Return a value computed by a script with each hit, under `fields`
    */
-  dateHistogramAgg(
+  scriptField(
     name: string,
-    field: string,
-    interval: string,
-    format?: string
+    script: string,
+    options: ScriptFieldOptions = {}
   ): this {
-    validateFieldName(field, 'date histogram aggregation')
-    if (
-      !interval ||
-      typeof interval !== 'string' ||
-      interval.trim().length === 0
-    ) {
-      throw new Error('Date histogram interval must be a non-empty string')
+    validateFieldName(name, 'script field')
+    validateQueryValue(script, 'script field')
+    const scriptField: ScriptFieldDSL = { script: { source: script } }
+    if (options.lang) scriptField.script.lang = options.lang
+    if (options.params) scriptField.script.params = options.params
+    if (options.ignoreFailure !== undefined) {
+      scriptField.ignore_failure = options.ignoreFailure
     }
-    const agg: any = {
-      date_histogram: {
-        field,
-        calendar_interval: interval,
-      },
+    this.query.script_fields = {
+      ...this.query.script_fields,
+      [name]: scriptField,
+    }
+    return this
+  }
+
+  /**
+   * Return doc values of fields with each hit, optionally formatted
+   */
+  docvalueFields(
+    fields: (FieldPath<TDoc> | FieldAndFormat<FieldPath<TDoc>>)[]
+  ): this {
+    this.query.docvalue_fields = [
+      ...(this.query.docvalue_fields || []),
+      ...this.fieldList(fields, 'docvalue_fields'),
+    ]
+    return this
+  }
+
+  /**
+   * Return stored fields with each hit, or none with `'_none_'`
+   */
+  storedFields(fields: FieldPath<TDoc>[] | '_none_'): this {
+    if (fields !== '_none_') {
+      validateStringArray(fields, 'stored_fields')
+    }
+    this.query.stored_fields = fields
+    return this
+  }
+
+  /**
+   * Return fields with each hit as the mapping sees them, including
+   * runtime fields; patterns such as `user.*` are allowed
+   */
+  fields(fields: (FieldPath<TDoc> | FieldAndFormat<FieldPath<TDoc>>)[]): this {
+    this.query.fields = [
+      ...(this.query.fields || []),
+      ...this.fieldList(fields, 'fields'),
+    ]
+    return this
+  }
+
+  /**
+   * Define a field computed at search time. It must be defined before a
+   * clause, sort or aggregation references it; typed builders then accept
+   * it like a document field.
+   */
+  runtimeField<N extends string, T extends RuntimeFieldType>(
+    name: N,
+    type: T,
+    options: RuntimeFieldOptions = {}
+  ): WithRuntimeField<this, TDoc, N, RuntimeFieldValue<T>> {
+    validateFieldName(name, 'runtime field')
+    if (this.query.runtime_mappings?.[name]) {
+      throw new ValidationError(
+        `Runtime field "${name}" is already defined`,
+        name,
+        'DUPLICATE_RUNTIME_FIELD',
+        'runtimeField',
+        { name }
+      )
+    }
+    const { query, post_filter, sort, aggs, docvalue_fields, fields } =
+      this.query
+    const references = [query, post_filter, sort, aggs, docvalue_fields, fields]
+    if (references.some((part) => referencesField(part, name))) {
+      throw new ValidationError(
+        `Runtime field "${name}" is referenced before runtimeField() defines it`,
+        name,
+        'RUNTIME_FIELD_NOT_DEFINED',
+        'runtimeField',
+        { name }
+      )
+    }
+
+    const runtimeField: RuntimeFieldDSL = { type }
+    if (options.script !== undefined) {
+      validateQueryValue(options.script, 'runtime field')
+      runtimeField.script = { source: options.script }
+      if (options.params) runtimeField.script.params = options.params
+    }
+    if (options.format) runtimeField.format = options.format
+
+    this.query.runtime_mappings = {
+      ...this.query.runtime_mappings,
+      [name]: runtimeField,
+    }
+    return this as unknown as WithRuntimeField<
+      this,
+      TDoc,
+      N,
+      RuntimeFieldValue<T>
+    >
+  }
+
+  /**
+   * Add aggregation
+   */
+  aggregate<N extends string, TResult = any>(
+    name: N,
+    aggregation: any,
+    subAggs?: SubAggregations<TDoc, any>
+  ): WithAggregation<this, N, TResult> {
+    return this.aggs((aggs) => aggs.aggregate(name, aggregation, subAggs))
+  }
+
+  /**
+   * Build an aggregation tree with sub-aggregations and merge it into the
+   * query's aggregations
+   */
+  aggs<TAggs = {}>(
+    callback: (
+      aggs: AggregationBuilder<TDoc>
+    ) => AggregationMarker<TAggs> | void
+  ): this & AggregationMarker<TAggs> {
+    const aggregationBuilder = new AggregationBuilder<TDoc>(() =>
+      this.subBuilder<TDoc>()
+    )
+    callback(aggregationBuilder)
+
+    const built = aggregationBuilder.build()
+    if (Object.keys(built).length > 0) {
+      this.query.aggs = { ...this.query.aggs, ...built }
     }
-    if (format) {
-      agg.date_histogram.format = format
+    return this as this & AggregationMarker<TAggs>
+  }
+
+  /**
+   * Add the facets' selections as post_filter and their aggregations
+   */
+  facets(search: FacetedSearch<TDoc>): this {
+    return search.apply(this)
+  }
+
+  /**
+   * Filter hits after aggregations are computed, so the filter narrows
+   * the results but not the aggregation counts
+   */
+  postFilter(callback: (builder: QueryBuilder<TDoc>) => void): this {
+    const subBuilder = this.subBuilder<TDoc>()
+    callback(subBuilder)
+
+    const clauses = subBuilder.toClauses()
+    if (clauses.length > 0) {
+      const current = this.query.post_filter
+      const existing = !current
+        ? []
+        : Object.keys(current).length === 1 &&
+          Object.keys(current.bool || {}).join() === 'filter'
+        ? current.bool.filter
+        : [current]
+      this.query.post_filter = { bool: { filter: [...existing, ...clauses] } }
     }
-    return this.aggregate(name, agg)
+    return this
+  }
+
+  /**
+   * Add terms aggregation helper
+   */
+  termsAgg<N extends string, C = {}>(
+    name: N,
+    field: QueryFieldPath<TDoc>,
+    size: number = 10,
+    subAggs?: SubAggregations<TDoc, C>
+  ): WithAggregation<this, N, TermsAggregationResult<C>> {
+    return this.aggs((aggs) => aggs.termsAgg(name, field, size, subAggs))
+  }
+
+  /**
+   * Add date histogram aggregation helper
+   */
+  dateHistogramAgg<N extends string, C = {}>(
+    name: N,
+    field: RangeFieldPath<TDoc>,
+    interval: string,
+    format?: string | SubAggregations<TDoc, C>,
+    subAggs?: SubAggregations<TDoc, C>
+  ): WithAggregation<this, N, DateHistogramAggregationResult<C>> {
+    return this.aggs((aggs) =>
+      aggs.dateHistogramAgg(name, field, interval, format, subAggs)
+    )
   }
 
   /**
    * Add highlighting
    */
-  highlight(fields: string[] | Record<string, any>): this {
+  highlight(fields: QueryFieldPath<TDoc>[] | Record<string, any>): this {
     if (Array.isArray(fields)) {
       this.query.highlight = {
         fields: fields.reduce((acc, field) => {
@@ -388,6 +1029,7 @@ export class QueryBuilder {
         },
       },
     }
+    this.tiebreakerSort = undefined
     return this
   }
 
@@ -395,6 +1037,23 @@ export class QueryBuilder {
    * Build and return the final query DSL
    */
   build(): QueryDSL {
+    const body = this.assemble()
+
+    if (body.search_after === undefined) {
+      validateResultWindow(body.from, body.size, this.resultWindowLimit)
+    }
+    validateSearchAfter(body)
+    validateCollapse(body)
+    validateRescore(body)
+    validateHybrid(body)
+    validateBucketsPaths(body.aggs)
+
+    return this.searchTarget ? emitForTarget(body, this.searchTarget) : body
+  }
+
+  // The request body before build() validates it and emits the target's
+  // syntax, so lint() can report what build() would throw for
+  private assemble(): QueryDSL {
     // Clean up empty arrays
     const cleanedQuery = JSON.parse(JSON.stringify(this.query))
 
@@ -411,19 +1070,40 @@ export class QueryBuilder {
       }
     }
 
+    // Rescored searches must sort by _score alone; there the engine's own
+    // implicit _shard_doc tiebreaker of a pit search has to do
+    const pitTiebreaker = cleanedQuery.pit && !cleanedQuery.rescore?.length
+    const tiebreaker =
+      this.tiebreakerSort ||
+      (pitTiebreaker ? { _shard_doc: 'asc' as SortOrder } : undefined)
+    if (tiebreaker) {
+      const field = Object.keys(tiebreaker)[0]
+      const sort: SortOption[] = cleanedQuery.sort || []
+      if (!sort.some((option) => field in option)) {
+        cleanedQuery.sort = [...sort, tiebreaker]
+      }
+    }
+
     if (cleanedQuery.sort?.length === 0) {
       delete cleanedQuery.sort
     }
 
-    return cleanedQuery
+    return this.indexSchema && !this.embedded
+      ? this.indexSchema.nest(cleanedQuery)
+      : cleanedQuery
   }
 
   /**
    * Clone the current query builder
    */
-  clone(): QueryBuilder {
-    const cloned = new QueryBuilder()
+  clone(): this {
+    const cloned = new (this.constructor as new () => this)()
     cloned.query = JSON.parse(JSON.stringify(this.query))
+    cloned.tiebreakerSort = this.tiebreakerSort
+    cloned.inputPolicy = this.inputPolicy
+    cloned.searchTarget = this.searchTarget
+    cloned.indexSchema = this.indexSchema
+    cloned.resultWindowLimit = this.resultWindowLimit
     return cloned
   }
 
@@ -435,132 +1115,213 @@ export class QueryBuilder {
    * Add a fuzzy query
    */
   fuzzy(
-    field: string,
+    field: QueryFieldPath<TDoc>,
     value: string,
-    options?: { fuzziness?: string | number; boost?: number }
+    options?: { fuzziness?: string | number; boost?: number } & ClauseOptions
   ): this {
     validateFieldName(field, 'fuzzy query')
     validateQueryValue(value, 'fuzzy query')
-    this.ensureBoolQuery()
-
     const fuzzyQuery: any = { fuzzy: { [field]: { value } } }
     if (options?.fuzziness)
       fuzzyQuery.fuzzy[field].fuzziness = options.fuzziness
     if (options?.boost) fuzzyQuery.fuzzy[field].boost = options.boost
 
-    this.query.query!.bool!.must!.push(fuzzyQuery)
-    return this
+    return this.addClause(fuzzyQuery, 'must', options)
   }
 
   /**
    * Add a regexp query
    */
-  regexp(field: string, value: string, flags?: string): this {
+  regexp(
+    field: QueryFieldPath<TDoc>,
+    value: string,
+    flags?: string,
+    options?: ClauseOptions
+  ): this {
     validateFieldName(field, 'regexp query')
     validateQueryValue(value, 'regexp query')
-    this.ensureBoolQuery()
-
+    if (this.inputPolicy) {
+      validateRegexp(value, this.inputPolicy.maxRegexpLength)
+    }
     const regexpQuery: any = { regexp: { [field]: { value } } }
     if (flags) regexpQuery.regexp[field].flags = flags
 
-    this.query.query!.bool!.must!.push(regexpQuery)
-    return this
+    return this.addClause(regexpQuery, 'must', options)
   }
 
   /**
-   * Add a query string query
+   * Add a Kibana Query Language query. Like Kibana, it goes to the filter
+   * context unless another context is given.
    */
-  queryString(
-    queryStr: string,
-    options?: { fields?: string[]; default_operator?: 'AND' | 'OR' }
+  kql(query: string, options?: ClauseOptions): this {
+    return this.addClause(
+      this.sanitizeParsed(parseKQL(query)),
+      'filter',
+      options
+    )
+  }
+
+  /**
+   * Add a Lucene syntax query, parsed locally into structured clauses so
+   * malformed input fails here instead of in the cluster
+   */
+  lucene(
+    query: string,
+    options?: LuceneOptions<QueryFieldPath<TDoc>> & ClauseOptions
   ): this {
-    validateQueryValue(queryStr, 'query_string query')
-    this.ensureBoolQuery()
+    // userInput() applies its own leading wildcard policy to the clauses
+    const lucene = this.inputPolicy
+      ? { ...options, allowLeadingWildcard: true }
+      : options
+    return this.addClause(
+      this.sanitizeParsed(parseLucene(query, lucene)),
+      'must',
+      options
+    )
+  }
 
+  /**
+   * Add a query string query
+   */
+  queryString(
+    queryStr: string,
+    options?: {
+      fields?: BoostedFieldPath<TDoc>[]
+      default_operator?: 'AND' | 'OR'
+    } & ClauseOptions
+  ): this {
+    validateQueryValue(queryStr, 'query_string query')
+    if (this.inputPolicy?.escapeQuerySyntax) {
+      queryStr = escapeQueryString(queryStr)
+    }
     const queryStringQuery: any = { query_string: { query: queryStr } }
     if (options?.fields) queryStringQuery.query_string.fields = options.fields
     if (options?.default_operator)
       queryStringQuery.query_string.default_operator = options.default_operator
 
-    this.query.query!.bool!.must!.push(queryStringQuery)
-    return this
+    return this.addClause(queryStringQuery, 'must', options)
   }
 
   /**
    * Add a simple query string query
    */
-  simpleQueryString(queryStr: string, fields?: string[]): this {
+  simpleQueryString(
+    queryStr: string,
+    fields?: BoostedFieldPath<TDoc>[],
+    options?: ClauseOptions
+  ): this {
     validateQueryValue(queryStr, 'simple_query_string query')
-    this.ensureBoolQuery()
-
+    if (this.inputPolicy?.escapeQuerySyntax) {
+      queryStr = escapeSimpleQueryString(queryStr)
+    }
     const simpleQuery: any = { simple_query_string: { query: queryStr } }
     if (fields) simpleQuery.simple_query_string.fields = fields
 
-    this.query.query!.bool!.must!.push(simpleQuery)
-    return this
+    return this.addClause(simpleQuery, 'must', options)
   }
 
   /**
-   * Add a nested query
+   * Add a nested query. `innerHits` returns the nested objects that
+   * matched with each hit.
    */
-  nested(path: string, callback: (builder: QueryBuilder) => void): this {
+  nested(
+    path: FieldPath<TDoc>,
+    callback: (builder: QueryBuilder<TDoc>) => void,
+    options?: NestedOptions<TDoc> & ClauseOptions
+  ): this {
     validateFieldName(path, 'nested query')
-    this.ensureBoolQuery()
-
-    const nestedBuilder = new QueryBuilder()
+    const nestedBuilder = this.subBuilder<TDoc>()
     callback(nestedBuilder)
 
-    const nestedQuery = {
-      nested: {
-        path,
-        query: nestedBuilder.build().query,
-      },
+    const nested: NestedQuery = {
+      path,
+      query: nestedBuilder.build().query,
+      ...this.joinOptions(options),
     }
+    if (options?.scoreMode) nested.score_mode = options.scoreMode
 
-    this.query.query!.bool!.must!.push(nestedQuery)
-    return this
+    return this.addClause({ nested }, 'must', options)
   }
 
   /**
-   * Add a has_child query
+   * Add a has_child query, optionally bounding the number of matching
+   * children with minChildren/maxChildren
    */
-  hasChild(type: string, callback: (builder: QueryBuilder) => void): this {
+  hasChild<TChild = any>(
+    type: string,
+    callback: (builder: QueryBuilder<TChild>) => void,
+    options?: HasChildOptions<TChild> & ClauseOptions
+  ): this {
     validateQueryValue(type, 'has_child query')
-    this.ensureBoolQuery()
+    const { minChildren, maxChildren } = options || {}
+    ;[minChildren, maxChildren].forEach((count) => {
+      if (count !== undefined && (!Number.isInteger(count) || count < 0)) {
+        throw new ValidationError(
+          'minChildren and maxChildren must be non-negative integers',
+          'children',
+          'INVALID_CHILDREN_RANGE',
+          'hasChild',
+          { minChildren, maxChildren }
+        )
+      }
+    })
+    if (
+      minChildren !== undefined &&
+      maxChildren !== undefined &&
+      minChildren > maxChildren
+    ) {
+      throw new ValidationError(
+        `minChildren (${minChildren}) cannot exceed maxChildren (${maxChildren})`,
+        'children',
+        'INVALID_CHILDREN_RANGE',
+        'hasChild',
+        { minChildren, maxChildren }
+      )
+    }
 
-    const childBuilder = new QueryBuilder()
+    const childBuilder = this.subBuilder<TChild>()
     callback(childBuilder)
 
-    const hasChildQuery = {
+    const hasChildQuery: any = {
       has_child: {
         type,
         query: childBuilder.build().query,
+        ...this.joinOptions(options),
       },
     }
-
-    this.query.query!.bool!.must!.push(hasChildQuery)
-    return this
+    if (options?.scoreMode)
+      hasChildQuery.has_child.score_mode = options.scoreMode
+    if (minChildren !== undefined)
+      hasChildQuery.has_child.min_children = minChildren
+    if (maxChildren !== undefined)
+      hasChildQuery.has_child.max_children = maxChildren
+
+    return this.addClause(hasChildQuery, 'must', options)
   }
 
   /**
    * Add a has_parent query
    */
-  hasParent(type: string, callback: (builder: QueryBuilder) => void): this {
+  hasParent<TParent = any>(
+    type: string,
+    callback: (builder: QueryBuilder<TParent>) => void,
+    options?: HasParentOptions<TParent> & ClauseOptions
+  ): this {
     validateQueryValue(type, 'has_parent query')
-    this.ensureBoolQuery()
-
-    const parentBuilder = new QueryBuilder()
+    const parentBuilder = this.subBuilder<TParent>()
     callback(parentBuilder)
 
-    const hasParentQuery = {
+    const hasParentQuery: any = {
       has_parent: {
         parent_type: type,
         query: parentBuilder.build().query,
+        ...this.joinOptions(options),
       },
     }
+    if (options?.score !== undefined)
+      hasParentQuery.has_parent.score = options.score
 
-    this.query.query!.bool!.must!.push(hasParentQuery)
-    return this
+    return this.addClause(hasParentQuery, 'must', options)
   }
 
   // ========================================
@@ -570,11 +1331,15 @@ export class QueryBuilder {
   /**
    * Add a geo_distance query
    */
-  geoDistance(field: string, distance: string, lat: number, lon: number): this {
+  geoDistance(
+    field: FieldPath<TDoc>,
+    distance: string,
+    lat: number,
+    lon: number,
+    options?: ClauseOptions
+  ): this {
     validateFieldName(field, 'geo_distance query')
     validateQueryValue(distance, 'geo_distance query')
-    this.ensureBoolQuery()
-
     const geoDistanceQuery = {
       geo_distance: {
         distance,
@@ -582,21 +1347,19 @@ export class QueryBuilder {
       },
     }
 
-    this.query.query!.bool!.filter!.push(geoDistanceQuery)
-    return this
+    return this.addClause(geoDistanceQuery, 'filter', options)
   }
 
   /**
    * Add a geo_bounding_box query
    */
   geoBoundingBox(
-    field: string,
+    field: FieldPath<TDoc>,
     topLeft: [number, number],
-    bottomRight: [number, number]
+    bottomRight: [number, number],
+    options?: ClauseOptions
   ): this {
     validateFieldName(field, 'geo_bounding_box query')
-    this.ensureBoolQuery()
-
     const geoBBoxQuery = {
       geo_bounding_box: {
         [field]: {
@@ -606,20 +1369,21 @@ export class QueryBuilder {
       },
     }
 
-    this.query.query!.bool!.filter!.push(geoBBoxQuery)
-    return this
+    return this.addClause(geoBBoxQuery, 'filter', options)
   }
 
   /**
    * Add a geo_polygon query
    */
-  geoPolygon(field: string, points: Array<[number, number]>): this {
+  geoPolygon(
+    field: FieldPath<TDoc>,
+    points: Array<[number, number]>,
+    options?: ClauseOptions
+  ): this {
     validateFieldName(field, 'geo_polygon query')
     if (!Array.isArray(points) || points.length < 3) {
       throw new Error('geo_polygon query requires at least 3 points')
     }
-    this.ensureBoolQuery()
-
     const geoPolygonQuery = {
       geo_polygon: {
         [field]: {
@@ -628,8 +1392,7 @@ export class QueryBuilder {
       },
     }
 
-    this.query.query!.bool!.filter!.push(geoPolygonQuery)
-    return this
+    return this.addClause(geoPolygonQuery, 'filter', options)
   }
 
   // ========================================
@@ -639,24 +1402,28 @@ export class QueryBuilder {
   /**
    * Add a script query
    */
-  script(script: string, params?: Record<string, any>): this {
+  script(
+    script: string,
+    params?: Record<string, any>,
+    options?: ClauseOptions
+  ): this {
     validateQueryValue(script, 'script query')
-    this.ensureBoolQuery()
-
     const scriptQuery: any = { script: { script: { source: script } } }
     if (params) scriptQuery.script.script.params = params
 
-    this.query.query!.bool!.must!.push(scriptQuery)
-    return this
+    return this.addClause(scriptQuery, 'must', options)
   }
 
   /**
    * Add a more_like_this query
    */
-  moreLikeThis(fields: string[], texts?: string[], docs?: any[]): this {
+  moreLikeThis(
+    fields: QueryFieldPath<TDoc>[],
+    texts?: string[],
+    docs?: any[],
+    options?: ClauseOptions
+  ): this {
     validateStringArray(fields, 'more_like_this fields')
-    this.ensureBoolQuery()
-
     const mltQuery: any = { more_like_this: { fields } }
     if (texts && texts.length > 0) mltQuery.more_like_this.like = texts
     if (docs && docs.length > 0) {
@@ -664,8 +1431,7 @@ export class QueryBuilder {
       mltQuery.more_like_this.like.push(...docs)
     }
 
-    this.query.query!.bool!.must!.push(mltQuery)
-    return this
+    return this.addClause(mltQuery, 'must', options)
   }
 
   /**
@@ -705,6 +1471,212 @@ export class QueryBuilder {
     return this
   }
 
+  /**
+   * Rescore the top `windowSize` hits of each shard with the query built in
+   * the callback, e.g. a costly phrase or function score pass. Rescorers
+   * run in the order they are added.
+   */
+  rescore(
+    windowSize: number,
+    callback: (builder: QueryBuilder<TDoc>) => void,
+    options: RescoreOptions = {}
+  ): this {
+    if (!Number.isInteger(windowSize) || windowSize <= 0) {
+      throw new Error('Rescore window size must be a positive integer')
+    }
+    if (windowSize > this.resultWindowLimit) {
+      throw new ValidationError(
+        `Rescore window size cannot exceed ${this.resultWindowLimit} (max_rescore_window)`,
+        'windowSize',
+        'RESCORE_WINDOW_EXCEEDED',
+        'rescore',
+        { windowSize, limit: this.resultWindowLimit }
+      )
+    }
+    const weights = [options.queryWeight, options.rescoreQueryWeight]
+    if (weights.some((w) => w !== undefined && !Number.isFinite(w))) {
+      throw new Error('Rescore query weights must be finite numbers')
+    }
+
+    const rescoreBuilder = this.subBuilder<TDoc>()
+    callback(rescoreBuilder)
+    const rescoreQuery = rescoreBuilder.build().query
+    if (rescoreQuery?.match_all) {
+      throw new Error('Rescore query requires at least one clause')
+    }
+
+    const rescore: RescoreDSL = {
+      window_size: windowSize,
+      query: { rescore_query: rescoreQuery },
+    }
+    if (options.queryWeight !== undefined) {
+      rescore.query.query_weight = options.queryWeight
+    }
+    if (options.rescoreQueryWeight !== undefined) {
+      rescore.query.rescore_query_weight = options.rescoreQueryWeight
+    }
+    if (options.scoreMode) rescore.query.score_mode = options.scoreMode
+
+    this.query.rescore = [...(this.query.rescore || []), rescore]
+    return this
+  }
+
+  // ========================================
+  // VECTOR SEARCH
+  // ========================================
+
+  /**
+   * Add an approximate kNN search as a top-level `knn` section
+   * (Elasticsearch). Its scores add to the query's; `boost` weighs them.
+   */
+  knn(
+    field: FieldPath<TDoc>,
+    vector: number[],
+    options: KnnOptions<TDoc>
+  ): this {
+    validateFieldName(field, 'knn')
+    const sections = ([] as KnnDSL[]).concat(this.query.knn || [])
+    const existing = sections.find((knn) => knn.field === field)
+    validateVector(
+      vector,
+      options.dimensions ?? existing?.query_vector.length,
+      'knn'
+    )
+    this.validateK(options.k)
+
+    const knn: KnnDSL = { field, query_vector: vector, k: options.k }
+    if (options.numCandidates !== undefined) {
+      const { k, numCandidates } = options
+      if (
+        !Number.isInteger(numCandidates) ||
+        numCandidates < k ||
+        numCandidates > MAX_RESULT_WINDOW
+      ) {
+        throw new ValidationError(
+          `numCandidates must be an integer from k (${k}) to ${MAX_RESULT_WINDOW}`,
+          'numCandidates',
+          'INVALID_NUM_CANDIDATES',
+          'knn',
+          { k, numCandidates }
+        )
+      }
+      knn.num_candidates = numCandidates
+    }
+    const filter = this.vectorFilter(options.filter)
+    if (filter) knn.filter = filter
+    if (options.similarity !== undefined) knn.similarity = options.similarity
+    if (options.boost !== undefined) knn.boost = options.boost
+
+    this.query.knn = [...sections, knn]
+    return this
+  }
+
+  /**
+   * Add a `knn` query clause (OpenSearch k-NN plugin; a target emits the
+   * Elasticsearch 8.12+ shape)
+   */
+  knnQuery(
+    field: FieldPath<TDoc>,
+    vector: number[],
+    options: KnnQueryOptions<TDoc> & ClauseOptions
+  ): this {
+    validateFieldName(field, 'knn query')
+    validateVector(vector, options.dimensions, 'knn query')
+    this.validateK(options.k)
+
+    const knn: Record<string, any> = { vector, k: options.k }
+    const filter = this.vectorFilter(options.filter)
+    if (filter) knn.filter = filter
+    if (options.boost !== undefined) knn.boost = options.boost
+
+    return this.addClause({ knn: { [field]: knn } }, 'must', options)
+  }
+
+  /**
+   * Add a `neural` query clause, embedding the text with the model
+   * (OpenSearch neural search)
+   */
+  neural(
+    field: FieldPath<TDoc>,
+    queryText: string,
+    options: NeuralOptions<TDoc> & ClauseOptions
+  ): this {
+    validateFieldName(field, 'neural query')
+    validateQueryValue(queryText, 'neural query')
+    this.validateK(options.k)
+
+    const neural: Record<string, any> = { query_text: queryText, k: options.k }
+    if (options.modelId) neural.model_id = options.modelId
+    const filter = this.vectorFilter(options.filter)
+    if (filter) neural.filter = filter
+    if (options.boost !== undefined) neural.boost = options.boost
+
+    return this.addClause({ neural: { [field]: neural } }, 'must', options)
+  }
+
+  /**
+   * Replace the query with a `hybrid` query over lexical and vector
+   * sub-queries (OpenSearch). `weights` adds a temporary search pipeline
+   * that normalizes each sub-query's scores and combines them.
+   */
+  hybrid(
+    queries: (QueryBuilder<TDoc> | ((builder: QueryBuilder<TDoc>) => void))[],
+    options: HybridOptions = {}
+  ): this {
+    if (!Array.isArray(queries) || queries.length < 1 || queries.length > 5) {
+      throw new ValidationError(
+        'hybrid query takes 1 to 5 sub-queries',
+        'queries',
+        'INVALID_HYBRID_QUERIES',
+        'hybrid',
+        { count: Array.isArray(queries) ? queries.length : undefined }
+      )
+    }
+    const { weights } = options
+    if (weights !== undefined) {
+      const total = weights.reduce((sum, weight) => sum + weight, 0)
+      if (
+        weights.length !== queries.length ||
+        weights.some((weight) => !(weight >= 0)) ||
+        Math.abs(total - 1) > 1e-6
+      ) {
+        throw new ValidationError(
+          'hybrid weights need one non-negative weight per sub-query, summing to 1',
+          'weights',
+          'INVALID_HYBRID_WEIGHTS',
+          'hybrid',
+          { weights, queries: queries.length }
+        )
+      }
+    }
+
+    const subQueries = queries.map((query) => {
+      if (query instanceof QueryBuilder) return query.build().query
+      const subBuilder = this.subBuilder<TDoc>()
+      query(subBuilder)
+      return subBuilder.build().query
+    })
+    this.query.query = { hybrid: { queries: subQueries } }
+
+    if (weights || options.normalization || options.combination) {
+      const combination: Record<string, any> = {
+        technique: options.combination || 'arithmetic_mean',
+      }
+      if (weights) combination.parameters = { weights }
+      this.query.search_pipeline = {
+        phase_results_processors: [
+          {
+            'normalization-processor': {
+              normalization: { technique: options.normalization || 'min_max' },
+              combination,
+            },
+          },
+        ],
+      }
+    }
+    return this
+  }
+
   // ========================================
   // ENHANCED AGGREGATIONS
   // ========================================
@@ -712,103 +1684,388 @@ export class QueryBuilder {
   /**
    * Add average aggregation
    */
-  avgAgg(name: string, field: string): this {
-    validateAggregationName(name)
-    validateFieldName(field, 'avg aggregation')
-    return this.aggregate(name, { avg: { field } })
+  avgAgg<N extends string>(
+    name: N,
+    field: RangeFieldPath<TDoc>
+  ): WithAggregation<this, N, MetricAggregationResult> {
+    return this.aggs((aggs) => aggs.avgAgg(name, field))
   }
 
   /**
    * Add sum aggregation
    */
-  sumAgg(name: string, field: string): this {
-    validateAggregationName(name)
-    validateFieldName(field, 'sum aggregation')
-    return this.aggregate(name, { sum: { field } })
+  sumAgg<N extends string>(
+    name: N,
+    field: RangeFieldPath<TDoc>
+  ): WithAggregation<this, N, MetricAggregationResult> {
+    return this.aggs((aggs) => aggs.sumAgg(name, field))
   }
 
   /**
    * Add max aggregation
    */
-  maxAgg(name: string, field: string): this {
-    validateAggregationName(name)
-    validateFieldName(field, 'max aggregation')
-    return this.aggregate(name, { max: { field } })
+  maxAgg<N extends string>(
+    name: N,
+    field: RangeFieldPath<TDoc>
+  ): WithAggregation<this, N, MetricAggregationResult> {
+    return this.aggs((aggs) => aggs.maxAgg(name, field))
   }
 
   /**
    * Add min aggregation
    */
-  minAgg(name: string, field: string): this {
-    validateAggregationName(name)
-    validateFieldName(field, 'min aggregation')
-    return this.aggregate(name, { min: { field } })
+  minAgg<N extends string>(
+    name: N,
+    field: RangeFieldPath<TDoc>
+  ): WithAggregation<this, N, MetricAggregationResult> {
+    return this.aggs((aggs) => aggs.minAgg(name, field))
   }
 
   /**
    * Add cardinality aggregation
    */
-  cardinalityAgg(name: string, field: string): this {
-    validateAggregationName(name)
-    validateFieldName(field, 'cardinality aggregation')
-    return this.aggregate(name, { cardinality: { field } })
+  cardinalityAgg<N extends string>(
+    name: N,
+    field: QueryFieldPath<TDoc>
+  ): WithAggregation<this, N, CountAggregationResult> {
+    return this.aggs((aggs) => aggs.cardinalityAgg(name, field))
   }
 
   /**
    * Add value count aggregation
    */
-  valueCountAgg(name: string, field: string): this {
-    validateAggregationName(name)
-    validateFieldName(field, 'value_count aggregation')
-    return this.aggregate(name, { value_count: { field } })
+  valueCountAgg<N extends string>(
+    name: N,
+    field: QueryFieldPath<TDoc>
+  ): WithAggregation<this, N, CountAggregationResult> {
+    return this.aggs((aggs) => aggs.valueCountAgg(name, field))
   }
 
   /**
    * Add histogram aggregation
    */
-  histogramAgg(name: string, field: string, interval: number): this {
-    validateAggregationName(name)
-    validateFieldName(field, 'histogram aggregation')
-    if (!Number.isInteger(interval) || interval <= 0) {
-      throw new Error('Histogram interval must be a positive integer')
-    }
-    return this.aggregate(name, { histogram: { field, interval } })
+  histogramAgg<N extends string, C = {}>(
+    name: N,
+    field: RangeFieldPath<TDoc>,
+    interval: number,
+    subAggs?: SubAggregations<TDoc, C>
+  ): WithAggregation<this, N, HistogramAggregationResult<C>> {
+    return this.aggs((aggs) =>
+      aggs.histogramAgg(name, field, interval, subAggs)
+    )
   }
 
   /**
    * Add range aggregation
    */
-  rangeAgg(
+  rangeAgg<N extends string, C = {}>(
+    name: N,
+    field: RangeFieldPath<TDoc>,
+    ranges: Array<{ from?: number; to?: number; key?: string }>,
+    subAggs?: SubAggregations<TDoc, C>
+  ): WithAggregation<this, N, RangeAggregationResult<C>> {
+    return this.aggs((aggs) => aggs.rangeAgg(name, field, ranges, subAggs))
+  }
+
+  /**
+   * Add filters aggregation
+   */
+  filtersAgg<N extends string, K extends string = string, C = {}>(
+    name: N,
+    filters: Record<K, any>,
+    subAggs?: SubAggregations<TDoc, C>
+  ): WithAggregation<this, N, FiltersAggregationResult<K, C>> {
+    return this.aggs((aggs) => aggs.filtersAgg(name, filters, subAggs))
+  }
+
+  /**
+   * Add single-bucket filter aggregation
+   */
+  filterAgg<N extends string, C = {}>(
+    name: N,
+    filter: Record<string, any> | ((builder: QueryBuilder<TDoc>) => void),
+    subAggs?: SubAggregations<TDoc, C>
+  ): WithAggregation<this, N, SingleBucketAggregationResult<C>> {
+    return this.aggs((aggs) => aggs.filterAgg(name, filter, subAggs))
+  }
+
+  /**
+   * Add nested aggregation
+   */
+  nestedAgg<N extends string, C = {}>(
+    name: N,
+    path: FieldPath<TDoc>,
+    subAggs?: SubAggregations<TDoc, C>
+  ): WithAggregation<this, N, SingleBucketAggregationResult<C>> {
+    return this.aggs((aggs) => aggs.nestedAgg(name, path, subAggs))
+  }
+
+  /**
+   * Add global aggregation, bucketing all documents regardless of the query
+   */
+  globalAgg<N extends string, C = {}>(
+    name: N,
+    subAggs?: SubAggregations<TDoc, C>
+  ): WithAggregation<this, N, SingleBucketAggregationResult<C>> {
+    return this.aggs((aggs) => aggs.globalAgg(name, subAggs))
+  }
+
+  /**
+   * Add avg_bucket sibling pipeline aggregation
+   */
+  avgBucketAgg<N extends string>(
+    name: N,
+    bucketsPath: string,
+    options?: PipelineOptions
+  ): WithAggregation<this, N, MetricAggregationResult> {
+    return this.aggs((aggs) => aggs.avgBucketAgg(name, bucketsPath, options))
+  }
+
+  /**
+   * Add sum_bucket sibling pipeline aggregation
+   */
+  sumBucketAgg<N extends string>(
+    name: N,
+    bucketsPath: string,
+    options?: PipelineOptions
+  ): WithAggregation<this, N, MetricAggregationResult> {
+    return this.aggs((aggs) => aggs.sumBucketAgg(name, bucketsPath, options))
+  }
+
+  /**
+   * Add max_bucket sibling pipeline aggregation
+   */
+  maxBucketAgg<N extends string>(
+    name: N,
+    bucketsPath: string,
+    options?: PipelineOptions
+  ): WithAggregation<this, N, BucketMetricAggregationResult> {
+    return this.aggs((aggs) => aggs.maxBucketAgg(name, bucketsPath, options))
+  }
+
+  /**
+   * Add min_bucket sibling pipeline aggregation
+   */
+  minBucketAgg<N extends string>(
+    name: N,
+    bucketsPath: string,
+    options?: PipelineOptions
+  ): WithAggregation<this, N, BucketMetricAggregationResult> {
+    return this.aggs((aggs) => aggs.minBucketAgg(name, bucketsPath, options))
+  }
+
+  /**
+   * Add stats_bucket sibling pipeline aggregation
+   */
+  statsBucketAgg<N extends string>(
+    name: N,
+    bucketsPath: string,
+    options?: PipelineOptions
+  ): WithAggregation<this, N, StatsAggregationResult> {
+    return this.aggs((aggs) => aggs.statsBucketAgg(name, bucketsPath, options))
+  }
+
+  /**
+   * Add composite aggregation helper
+   */
+  compositeAgg<N extends string, C = {}>(
+    name: N,
+    sources: CompositeSource<TDoc>[],
+    size: number = 10,
+    subAggs?: SubAggregations<TDoc, C>
+  ): WithAggregation<this, N, CompositeAggregationResult<C>> {
+    return this.aggs((aggs) => aggs.compositeAgg(name, sources, size, subAggs))
+  }
+
+  /**
+   * Clone the query with the named composite aggregation resuming after a
+   * previous response's `after_key`. Returns undefined on the last page.
+   */
+  nextCompositePage(name: string, response: any): this | undefined {
+    const composite = this.query.aggs?.[name]?.composite
+    if (!composite) {
+      throw new ValidationError(
+        `No composite aggregation named "${name}"`,
+        'name',
+        'COMPOSITE_NOT_FOUND',
+        'nextCompositePage',
+        { name, available: Object.keys(this.query.aggs || {}) }
+      )
+    }
+
+    const result: CompositeAggregationResult | undefined =
+      responseAggregations(response)[name]
+    if (!result?.after_key || !result.buckets?.length) {
+      return undefined
+    }
+
+    const next = this.clone()
+    next.query.aggs![name].composite.after = result.after_key
+    return next
+  }
+
+  /**
+   * Iterate every page of the named composite aggregation, fetching each
+   * one through the transport
+   */
+  async *compositePages(
     name: string,
-    field: string,
-    ranges: Array<{ from?: number; to?: number; key?: string }>
-  ): this {
-    validateAggregationName(name)
-    validateFieldName(field, 'range aggregation')
-    if (!Array.isArray(ranges) || ranges.length === 0) {
-      throw new Error('Range aggregation requires at least one range')
+    transport: SearchTransport
+  ): AsyncGenerator<CompositeAggregationResult> {
+    let page: this | undefined = this
+    while (page) {
+      const response = await transport(page.build())
+      const aggregations = responseAggregations(response)
+      const result = aggregations[name]
+      if (!result) {
+        throw new ValidationError(
+          `Response has no aggregation named "${name}"`,
+          'response',
+          'COMPOSITE_RESULT_MISSING',
+          'compositePages',
+          { name, aggregations: Object.keys(aggregations) }
+        )
+      }
+      if (result.buckets?.length) {
+        yield result
+      }
+      page = page.nextCompositePage(name, response)
     }
-    return this.aggregate(name, { range: { field, ranges } })
   }
 
+  // ========================================
+  // SUGGESTERS
+  // ========================================
+
   /**
-   * Add filters aggregation
+   * Suggest corrections for each term of `text`, e.g. "did you mean"
+   */
+  termSuggest<N extends string>(
+    name: N,
+    text: string,
+    field: QueryFieldPath<TDoc>,
+    options: TermSuggestOptions = {}
+  ): WithSuggester<this, N, TermSuggestion> {
+    validateFieldName(field, 'term suggester')
+    validateQueryValue(text, 'term suggester')
+    return this.addSuggester(name, {
+      text,
+      term: {
+        field,
+        size: options.size,
+        sort: options.sort,
+        suggest_mode: options.suggestMode,
+        max_edits: options.maxEdits,
+        prefix_length: options.prefixLength,
+        min_word_length: options.minWordLength,
+        min_doc_freq: options.minDocFreq,
+      },
+    })
+  }
+
+  /**
+   * Suggest corrections of the whole phrase, optionally keeping only
+   * candidates a collate query matches
    */
-  filtersAgg(name: string, filters: Record<string, any>): this {
-    validateAggregationName(name)
-    if (!filters || typeof filters !== 'object') {
-      throw new Error('Filters aggregation requires filters object')
+  phraseSuggest<N extends string>(
+    name: N,
+    text: string,
+    field: QueryFieldPath<TDoc>,
+    options: PhraseSuggestOptions<TDoc> = {}
+  ): WithSuggester<this, N, PhraseSuggestion> {
+    validateFieldName(field, 'phrase suggester')
+    validateQueryValue(text, 'phrase suggester')
+    const phrase: Record<string, any> = {
+      field,
+      size: options.size,
+      gram_size: options.gramSize,
+      confidence: options.confidence,
+      max_errors: options.maxErrors,
+      real_word_error_likelihood: options.realWordErrorLikelihood,
     }
-    return this.aggregate(name, { filters: { filters } })
+    if (options.highlight) {
+      phrase.highlight = {
+        pre_tag: options.highlight.preTag,
+        post_tag: options.highlight.postTag,
+      }
+    }
+    if (options.directGenerators) {
+      phrase.direct_generator = options.directGenerators.map((generator) => ({
+        field: generator.field,
+        suggest_mode: generator.suggestMode,
+        min_word_length: generator.minWordLength,
+        prefix_length: generator.prefixLength,
+      }))
+    }
+    if (options.collate) {
+      const collateBuilder = this.subBuilder<TDoc>()
+      options.collate.query(collateBuilder)
+      phrase.collate = {
+        query: { source: collateBuilder.build().query },
+        params: options.collate.params,
+        prune: options.collate.prune,
+      }
+    }
+    return this.addSuggester(name, { text, phrase })
   }
 
   /**
-   * Add nested aggregation
+   * Autocomplete `prefix` from a completion field, optionally fuzzy and
+   * filtered or boosted by contexts
+   */
+  completionSuggest<N extends string>(
+    name: N,
+    prefix: string,
+    field: QueryFieldPath<TDoc>,
+    options: CompletionSuggestOptions = {}
+  ): WithSuggester<this, N, CompletionSuggestion<TDoc>> {
+    validateFieldName(field, 'completion suggester')
+    const completion: Record<string, any> = {
+      field,
+      size: options.size,
+      skip_duplicates: options.skipDuplicates,
+      contexts: options.contexts,
+    }
+    if (options.fuzzy === true) {
+      completion.fuzzy = {}
+    } else if (options.fuzzy) {
+      completion.fuzzy = {
+        fuzziness: options.fuzzy.fuzziness,
+        transpositions: options.fuzzy.transpositions,
+        min_length: options.fuzzy.minLength,
+        prefix_length: options.fuzzy.prefixLength,
+        unicode_aware: options.fuzzy.unicodeAware,
+      }
+    }
+    return this.addSuggester(name, { prefix, completion })
+  }
+
+  /**
+   * Read the suggest section of a response, typed per suggester
    */
-  nestedAgg(name: string, path: string): this {
-    validateAggregationName(name)
-    validateFieldName(path, 'nested aggregation')
-    return this.aggregate(name, { nested: { path } })
+  suggestions(response: any): SuggestionsOf<this> {
+    const body =
+      response?.hits === undefined && response?.body ? response.body : response
+    const names = Object.keys(this.query.suggest || {})
+
+    const results: Record<string, any[]> = {}
+    names.forEach((name) => {
+      const entries = body?.suggest?.[name]
+      if (!Array.isArray(entries)) {
+        throw new ValidationError(
+          `Response has no suggestions named "${name}"`,
+          `suggest.${name}`,
+          'RESPONSE_SHAPE_MISMATCH',
+          'suggestions',
+          { name, suggesters: Object.keys(body?.suggest || {}) }
+        )
+      }
+      results[name] = entries.map((entry: any) => ({
+        ...entry,
+        options: Array.isArray(entry?.options) ? entry.options : [],
+      }))
+    })
+    return results as SuggestionsOf<this>
   }
 
   // ========================================
@@ -867,6 +2124,10 @@ export class QueryBuilder {
       if (built.size && (built.size <= 0 || !Number.isInteger(built.size))) {
         errors.push('size parameter must be a positive integer')
       }
+
+      this.indexSchema?.check(built).forEach((issue) => {
+        errors.push(`${issue.message} (at ${issue.path})`)
+      })
     } catch (error) {
       errors.push((error as Error).message)
     }
@@ -877,6 +2138,19 @@ export class QueryBuilder {
     }
   }
 
+  /**
+   * Run lint rules over the query: a Linter, or options for one with the
+   * built-in rules and this builder's maxResultWindow(). Issues build()
+   * would throw for are reported instead.
+   */
+  lint(linter: Linter | LintOptions = {}): LintIssue[] {
+    const rules =
+      linter instanceof Linter
+        ? linter
+        : new Linter({ maxResultWindow: this.resultWindowLimit, ...linter })
+    return rules.lint(this.assemble())
+  }
+
   /**
    * Get estimated query complexity
    */
@@ -912,10 +2186,208 @@ export class QueryBuilder {
       : JSON.stringify(this.build())
   }
 
+  /**
+   * Push a clause into the bool array for the resolved context:
+   * per-call option, then enclosing block, then the method's default
+   */
+  private addClause(
+    clause: any,
+    defaultContext: ClauseContext,
+    options?: ClauseOptions
+  ): this {
+    if (options?.context !== undefined) {
+      validateClauseContext(options.context)
+    }
+    this.ensureBoolQuery()
+    const context = options?.context ?? this.clauseContext ?? defaultContext
+    this.query.query!.bool![context]!.push(clause)
+    return this
+  }
+
+  private validateK(k: number): void {
+    if (!Number.isInteger(k) || k <= 0) {
+      throw new Error('k must be a positive integer')
+    }
+  }
+
+  // Query of a knn/neural pre-filter callback, if it added any clause
+  private vectorFilter(
+    callback?: (builder: QueryBuilder<TDoc>) => void
+  ): any | undefined {
+    if (!callback) return undefined
+    const filterBuilder = this.subBuilder<TDoc>()
+    callback(filterBuilder)
+    const filter = filterBuilder.build().query
+    return filter?.match_all ? undefined : filter
+  }
+
+  private fieldList(
+    fields: (string | FieldAndFormat)[],
+    context: string
+  ): (string | FieldAndFormat)[] {
+    validateArray(fields, context)
+    return fields.map((field) => {
+      validateFieldName(
+        typeof field === 'string' ? field : field?.field,
+        context
+      )
+      return typeof field === 'string' ? field : { ...field }
+    })
+  }
+
+  private addSuggester(name: string, suggester: SuggesterDSL): any {
+    if (typeof name !== 'string' || name.trim() === '') {
+      throw new ValidationError(
+        'Suggester name must be a non-empty string',
+        'name',
+        'INVALID_SUGGESTER_NAME',
+        'suggest',
+        { name }
+      )
+    }
+    if (this.query.suggest?.[name]) {
+      throw new ValidationError(
+        `Suggester "${name}" is already defined`,
+        'name',
+        'DUPLICATE_SUGGESTER',
+        'suggest',
+        { name }
+      )
+    }
+    // Drop unset options; JSON round trip as in build()
+    this.query.suggest = {
+      ...this.query.suggest,
+      [name]: JSON.parse(JSON.stringify(suggester)),
+    }
+    return this
+  }
+
+  // inner_hits body, with highlight given as for highlight()
+  private toInnerHits(
+    options: InnerHitsOptions<any> | true
+  ): Record<string, any> {
+    if (options === true) return {}
+    validatePaginationParams(options.from, options.size, 'inner_hits')
+    const { highlight, ...innerHits } = options
+    if (highlight === undefined) return innerHits
+    return {
+      ...innerHits,
+      highlight: {
+        fields: Array.isArray(highlight)
+          ? Object.fromEntries(highlight.map((field) => [field, {}]))
+          : highlight,
+      },
+    }
+  }
+
+  // Keys shared by nested, has_child and has_parent queries
+  private joinOptions(options?: {
+    innerHits?: InnerHitsOptions<any> | true
+    ignoreUnmapped?: boolean
+  }): Record<string, any> {
+    const join: Record<string, any> = {}
+    if (options?.ignoreUnmapped !== undefined) {
+      join.ignore_unmapped = options.ignoreUnmapped
+    }
+    if (options?.innerHits) {
+      join.inner_hits = this.toInnerHits(options.innerHits)
+    }
+    return join
+  }
+
+  // A clause parsed from a query string, under the userInput() policy
+  private sanitizeParsed(clause: any): any {
+    return this.inputPolicy
+      ? sanitizeParsedClause(clause, this.inputPolicy)
+      : clause
+  }
+
+  // Builder for a callback's clauses, sharing this builder's input policy
+  private subBuilder<T>(): QueryBuilder<T> {
+    const builder = new QueryBuilder<T>()
+    builder.inputPolicy = this.inputPolicy
+    builder.indexSchema = this.indexSchema
+    builder.embedded = true
+    return builder
+  }
+
+  private withContext(
+    context: ClauseContext,
+    callback: (builder: this) => void
+  ): this {
+    const previousContext = this.clauseContext
+    this.clauseContext = context
+    try {
+      callback(this)
+    } finally {
+      this.clauseContext = previousContext
+    }
+    return this
+  }
+
+  /**
+   * Built query of a sub-builder, or undefined when the callback added nothing
+   */
+  private toGroupQuery(): any | undefined {
+    const built = this.build().query
+    if (!built || (built.match_all && this.query.query?.bool)) {
+      return undefined
+    }
+    return built
+  }
+
+  /**
+   * Flatten a sub-builder into standalone clauses. must_not clauses and
+   * should groups are wrapped in their own bool so their meaning survives
+   * being moved into another clause array.
+   */
+  private toClauses(): any[] {
+    const built = this.toGroupQuery()
+    if (!built) {
+      return []
+    }
+    if (!built.bool) {
+      return [built]
+    }
+
+    const { must = [], filter = [], should = [], must_not = [] } = built.bool
+    // Beside other clauses, should clauses are optional and combine with
+    // them by AND; split out they would change meaning, so the bool stays
+    // one clause
+    if (
+      should.length > 0 &&
+      must.length + filter.length + must_not.length > 0
+    ) {
+      return [built]
+    }
+    const clauses = [...must, ...filter]
+    must_not.forEach((clause: any) => {
+      clauses.push({ bool: { must_not: [clause] } })
+    })
+    if (should.length > 0) {
+      const shouldGroup: any = { should }
+      if (built.bool.minimum_should_match !== undefined) {
+        shouldGroup.minimum_should_match = built.bool.minimum_should_match
+      }
+      clauses.push({ bool: shouldGroup })
+    }
+    return clauses
+  }
+
   private ensureBoolQuery(): void {
     if (!this.query.query) {
       this.query.query = {}
     }
+    // A single top-level query (e.g. from setQuery() or fromDSL()) becomes
+    // the first must clause
+    const current: any = this.query.query
+    if (!current.bool && Object.keys(current).length > 0) {
+      this.query.query = {
+        bool: {
+          must: current.match_all && !current.match_all.boost ? [] : [current],
+        },
+      }
+    }
     if (!this.query.query.bool) {
       this.query.query.bool = {
         must: [],
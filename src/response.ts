@@ -0,0 +1,260 @@
+import {
+  SearchResponse,
+  SearchHit,
+  FlattenedHit,
+  SourceOf,
+  DocumentOf,
+  AggregationsOf,
+} from './types'
+import { QueryBuilder } from './query-builder'
+import { ValidationError } from './validation'
+import { AUTO_NESTED_META } from './schema'
+
+const CONTEXT = 'parseResponse'
+
+// Aggregations whose result is a list (or keyed map) of buckets
+const MULTI_BUCKET_TYPES = [
+  'terms',
+  'date_histogram',
+  'histogram',
+  'range',
+  'filters',
+  'composite',
+]
+
+// Aggregations whose result is a single bucket holding its children
+const SINGLE_BUCKET_TYPES = ['filter', 'nested', 'reverse_nested', 'global']
+
+// Aggregations whose result is `{ value }`
+const VALUE_TYPES = [
+  'avg',
+  'sum',
+  'min',
+  'max',
+  'cardinality',
+  'value_count',
+  'derivative',
+  'cumulative_sum',
+  'moving_fn',
+  'bucket_script',
+  'avg_bucket',
+  'sum_bucket',
+  'min_bucket',
+  'max_bucket',
+]
+
+const STATS_TYPES = ['stats', 'stats_bucket']
+
+// Pipelines that modify their parent's buckets instead of adding a result
+const NO_RESULT_TYPES = ['bucket_selector', 'bucket_sort']
+
+// Pipelines the engine leaves out of some buckets (e.g. the first bucket of
+// a derivative)
+const OPTIONAL_RESULT_TYPES = ['derivative', 'bucket_script']
+
+function mismatch(path: string, expected: string, received: any): never {
+  throw new ValidationError(
+    `Response does not match the query at ${path}: expected ${expected}`,
+    path,
+    'RESPONSE_SHAPE_MISMATCH',
+    CONTEXT,
+    { path, expected, received }
+  )
+}
+
+function isObject(value: any): boolean {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+}
+
+function getAggregationType(aggregation: any): string | undefined {
+  return Object.keys(aggregation || {}).find(
+    (key) => key !== 'aggs' && key !== 'aggregations' && key !== 'meta'
+  )
+}
+
+function checkBucket(bucket: any, aggregation: any, path: string): void {
+  if (!isObject(bucket) || typeof bucket.doc_count !== 'number') {
+    mismatch(path, 'a bucket with a numeric doc_count', bucket)
+  }
+  checkAggregations(aggregation.aggs, bucket, path)
+}
+
+function checkAggregation(aggregation: any, result: any, path: string): void {
+  const type = getAggregationType(aggregation) || ''
+
+  if (MULTI_BUCKET_TYPES.includes(type)) {
+    const buckets = result?.buckets
+    if (type === 'filters' && isObject(buckets)) {
+      Object.keys(buckets).forEach((key) =>
+        checkBucket(buckets[key], aggregation, `${path}.buckets.${key}`)
+      )
+    } else if (Array.isArray(buckets)) {
+      buckets.forEach((bucket: any, index: number) =>
+        checkBucket(bucket, aggregation, `${path}.buckets[${index}]`)
+      )
+    } else {
+      mismatch(`${path}.buckets`, 'an array of buckets', buckets)
+    }
+  } else if (SINGLE_BUCKET_TYPES.includes(type)) {
+    checkBucket(result, aggregation, path)
+  } else if (VALUE_TYPES.includes(type)) {
+    if (
+      !isObject(result) ||
+      (typeof result.value !== 'number' && result.value !== null)
+    ) {
+      mismatch(`${path}.value`, 'a number or null', result?.value)
+    }
+  } else if (STATS_TYPES.includes(type)) {
+    if (!isObject(result) || typeof result.count !== 'number') {
+      mismatch(`${path}.count`, 'a number', result?.count)
+    }
+  }
+}
+
+function checkAggregations(
+  requested: Record<string, any> | undefined,
+  results: any,
+  path: string
+): void {
+  Object.keys(requested || {}).forEach((name) => {
+    const aggregation = requested![name]
+    const type = getAggregationType(aggregation) || ''
+    if (NO_RESULT_TYPES.includes(type)) return
+
+    const result = isObject(results) ? results[name] : undefined
+    if (result === undefined) {
+      if (OPTIONAL_RESULT_TYPES.includes(type)) return
+      throw new ValidationError(
+        `Response is missing aggregation "${name}" at ${path}`,
+        `${path}.${name}`,
+        'RESPONSE_AGGREGATION_MISSING',
+        CONTEXT,
+        {
+          path,
+          name,
+          available: isObject(results) ? Object.keys(results) : [],
+        }
+      )
+    }
+    checkAggregation(aggregation, result, `${path}.${name}`)
+  })
+}
+
+// Results with the nested / reverse_nested wrappers added for a schema
+// replaced by the aggregation they wrap, as the builder's types expect
+function liftAggregations(requested: any, results: any): any {
+  if (!isObject(results) || !isObject(requested)) return results
+  const lifted = { ...results }
+  Object.keys(requested).forEach((name) => {
+    let aggregation = requested[name]
+    let result = lifted[name]
+    while (aggregation?.meta?.[AUTO_NESTED_META] && isObject(result)) {
+      aggregation = aggregation.aggs[name]
+      result = result[name]
+    }
+    lifted[name] = liftBuckets(aggregation, result)
+  })
+  return lifted
+}
+
+function liftBuckets(aggregation: any, result: any): any {
+  const children = aggregation?.aggs
+  if (!isObject(result) || !children) return result
+  const buckets = result.buckets
+  if (Array.isArray(buckets)) {
+    return {
+      ...result,
+      buckets: buckets.map((bucket) => liftAggregations(children, bucket)),
+    }
+  }
+  if (isObject(buckets)) {
+    const keyed: Record<string, any> = {}
+    Object.keys(buckets).forEach((key) => {
+      keyed[key] = liftAggregations(children, buckets[key])
+    })
+    return { ...result, buckets: keyed }
+  }
+  return liftAggregations(children, result)
+}
+
+/**
+ * Check a raw search response against the builder that produced it and
+ * return it typed from the builder's aggregations and `source()` selection.
+ * Client results wrapping the body (`{ body, statusCode }`) are unwrapped,
+ * as are the nested wrappers a schema added around aggregations.
+ */
+export function parseResponse<TBuilder extends QueryBuilder<any>>(
+  builder: TBuilder,
+  rawResponse: unknown
+): SearchResponse<
+  SourceOf<TBuilder, DocumentOf<TBuilder>>,
+  AggregationsOf<TBuilder>
+> {
+  let response: any = rawResponse
+  if (isObject(response) && response.hits === undefined && response.body) {
+    response = response.body
+  }
+  if (!isObject(response)) {
+    throw new ValidationError(
+      'Search response must be an object',
+      'response',
+      'INVALID_RESPONSE',
+      CONTEXT,
+      { response: rawResponse, type: typeof rawResponse }
+    )
+  }
+
+  if (!isObject(response.hits) || !Array.isArray(response.hits.hits)) {
+    mismatch('hits.hits', 'an array of hits', response.hits?.hits)
+  }
+
+  const query = builder.build()
+  if (query._source !== false) {
+    response.hits.hits.forEach((hit: any, index: number) => {
+      if (hit?._source !== undefined && !isObject(hit._source)) {
+        mismatch(`hits.hits[${index}]._source`, 'an object', hit._source)
+      }
+    })
+  }
+
+  checkAggregations(query.aggs, response.aggregations, 'aggregations')
+
+  return {
+    ...response,
+    aggregations: liftAggregations(query.aggs, response.aggregations) ?? {},
+  }
+}
+
+function flattenHit(hit: any): FlattenedHit {
+  const innerHits: Record<string, FlattenedHit[]> = {}
+  Object.keys(hit.inner_hits || {}).forEach((name) => {
+    const hits = hit.inner_hits[name]?.hits?.hits
+    innerHits[name] = Array.isArray(hits) ? hits.map(flattenHit) : []
+  })
+  return { ...hit, innerHits }
+}
+
+/**
+ * Return the hits of a response with their inner hits (from nested,
+ * has_child, has_parent or collapse) as `innerHits[name]` arrays of hits,
+ * flattened at every level
+ */
+export function flattenInnerHits<TSource = any>(
+  rawResponse: unknown
+): FlattenedHit<TSource>[] {
+  let response: any = rawResponse
+  if (isObject(response) && response.hits === undefined && response.body) {
+    response = response.body
+  }
+  const hits: SearchHit<TSource>[] | undefined = response?.hits?.hits
+  if (!Array.isArray(hits)) {
+    throw new ValidationError(
+      'Search response has no hits array',
+      'hits.hits',
+      'RESPONSE_SHAPE_MISMATCH',
+      'flattenInnerHits',
+      { response: rawResponse }
+    )
+  }
+  return hits.map(flattenHit)
+}
@@ -0,0 +1,320 @@
+import { UserInputOptions } from './types'
+import { ValidationError } from './validation'
+
+// Longest regexp accepted from user input; the engine's own default
+// (index.max_regex_length) is 1000
+export const MAX_USER_REGEXP_LENGTH = 256
+
+// Largest {n,m} repetition count accepted in a regexp
+export const MAX_REGEXP_REPEAT = 100
+
+// query_string reserved characters; `<` and `>` cannot be escaped at all
+const QUERY_STRING_RESERVED = /[+\-=&|!(){}[\]^"~*?:\\/]/g
+const SIMPLE_QUERY_STRING_RESERVED = /[+\-|"*()~\\]/g
+
+/**
+ * Escape reserved query_string characters and the AND/OR/NOT operators so
+ * the input is searched literally. `<` and `>` cannot be escaped and are
+ * removed.
+ */
+export function escapeQueryString(value: string): string {
+  return value
+    .replace(/[<>]/g, '')
+    .replace(QUERY_STRING_RESERVED, '\\$&')
+    .replace(/\b(AND|OR|NOT)\b/g, '\\$1')
+}
+
+/**
+ * Escape simple_query_string operators so the input is searched literally
+ */
+export function escapeSimpleQueryString(value: string): string {
+  return value.replace(SIMPLE_QUERY_STRING_RESERVED, '\\$&')
+}
+
+/**
+ * Escape `*`, `?` and `\` so user text can be embedded in a wildcard pattern
+ */
+export function escapeWildcard(value: string): string {
+  return value.replace(/[*?\\]/g, '\\$&')
+}
+
+/**
+ * Reject a wildcard pattern starting with `*` or `?`, which scans every
+ * term of the field, or strip the leading wildcards with `mode: 'strip'`
+ */
+export function sanitizeWildcard(
+  pattern: string,
+  mode: 'reject' | 'strip' = 'reject'
+): string {
+  if (!/^[*?]/.test(pattern)) return pattern
+
+  const stripped = pattern.replace(/^[*?]+/, '')
+  if (mode === 'reject' || stripped.length === 0) {
+    throw new ValidationError(
+      `Wildcard pattern "${pattern}" cannot start with a wildcard`,
+      'value',
+      'LEADING_WILDCARD',
+      'sanitizeWildcard',
+      { pattern, mode }
+    )
+  }
+  return stripped
+}
+
+/**
+ * Apply the leading wildcard policy to a prefix query value: the query
+ * matches `value*`, so a value starting with `*` or `?` is checked the
+ * same way as a wildcard pattern
+ */
+export function sanitizePrefix(
+  value: string,
+  mode: 'reject' | 'strip' = 'reject'
+): string {
+  return sanitizeWildcard(`${value}*`, mode).slice(0, -1)
+}
+
+interface RegexpGroup {
+  start: number
+  // An unbounded quantifier (*, + or {n,}) appears inside the group
+  repeated: boolean
+  branches: string[]
+}
+
+function unsafeRegexp(
+  pattern: string,
+  position: number,
+  reason: string
+): never {
+  throw new ValidationError(
+    `Regular expression is unsafe: ${reason} at position ${position}`,
+    'value',
+    'UNSAFE_REGEXP',
+    'validateRegexp',
+    { pattern, position, reason }
+  )
+}
+
+function invalidRegexp(
+  pattern: string,
+  position: number,
+  reason: string
+): never {
+  throw new ValidationError(
+    `Regular expression is invalid: ${reason} at position ${position}`,
+    'value',
+    'INVALID_REGEXP',
+    'validateRegexp',
+    { pattern, position, reason }
+  )
+}
+
+// Quantifier text at `index` and whether it is unbounded
+function readQuantifier(
+  pattern: string,
+  index: number
+): { text: string; unbounded: boolean } | undefined {
+  const char = pattern[index]
+  if (char === '*' || char === '+') return { text: char, unbounded: true }
+  if (char === '?') return { text: char, unbounded: false }
+
+  const repeat = /^\{(\d*)(,?)(\d*)\}/.exec(pattern.slice(index))
+  if (!repeat || (!repeat[1] && !repeat[3])) return undefined
+
+  const counts = [repeat[1], repeat[3]].filter(Boolean).map(Number)
+  if (counts.some((count) => count > MAX_REGEXP_REPEAT)) {
+    unsafeRegexp(pattern, index, `repetition count above ${MAX_REGEXP_REPEAT}`)
+  }
+  return { text: repeat[0], unbounded: repeat[2] === ',' && !repeat[3] }
+}
+
+/**
+ * Check a user-supplied regexp before it reaches the engine: its length,
+ * balanced groups, repetition counts, and the catastrophic shapes that
+ * blow up automaton construction, i.e. a repeated group that itself
+ * repeats (`(a+)+`) or whose alternatives overlap (`(a|ab)*`)
+ */
+export function validateRegexp(
+  pattern: string,
+  maxLength: number = MAX_USER_REGEXP_LENGTH
+): void {
+  if (pattern.length > maxLength) {
+    throw new ValidationError(
+      `Regular expression is ${pattern.length} characters long; the limit is ${maxLength}`,
+      'value',
+      'REGEXP_TOO_LONG',
+      'validateRegexp',
+      { pattern, length: pattern.length, maxLength }
+    )
+  }
+
+  const stack: RegexpGroup[] = [{ start: 0, repeated: false, branches: [''] }]
+  const append = (text: string) => {
+    const branches = stack[stack.length - 1].branches
+    branches[branches.length - 1] += text
+  }
+
+  let index = 0
+  while (index < pattern.length) {
+    const char = pattern[index]
+
+    if (char === '\\') {
+      append(pattern.slice(index, index + 2))
+      index += 2
+    } else if (char === '[') {
+      // A `]` right after `[` or `[^` is a literal member of the class
+      let end = index + 1
+      if (pattern[end] === '^') end++
+      if (pattern[end] === ']') end++
+      while (end < pattern.length && pattern[end] !== ']') {
+        end += pattern[end] === '\\' ? 2 : 1
+      }
+      if (end >= pattern.length) {
+        invalidRegexp(pattern, index, 'unterminated character class')
+      }
+      append(pattern.slice(index, end + 1))
+      index = end + 1
+    } else if (char === '(') {
+      stack.push({ start: index, repeated: false, branches: [''] })
+      index++
+    } else if (char === ')') {
+      if (stack.length === 1) {
+        invalidRegexp(pattern, index, 'unbalanced ")"')
+      }
+      const group = stack.pop()!
+      const quantifier = readQuantifier(pattern, index + 1)
+      index += 1 + (quantifier?.text.length ?? 0)
+
+      if (quantifier?.unbounded) {
+        if (group.repeated) {
+          unsafeRegexp(pattern, group.start, 'nested repetition')
+        }
+        const overlapping = group.branches.some((branch, i) =>
+          group.branches.some((other, j) => i !== j && other.startsWith(branch))
+        )
+        if (overlapping) {
+          unsafeRegexp(
+            pattern,
+            group.start,
+            'repeated alternatives that overlap'
+          )
+        }
+      }
+      const parent = stack[stack.length - 1]
+      parent.repeated =
+        parent.repeated || group.repeated || !!quantifier?.unbounded
+      append(`(${group.branches.join('|')})${quantifier?.text ?? ''}`)
+    } else if (char === '|') {
+      stack[stack.length - 1].branches.push('')
+      index++
+    } else {
+      const quantifier = readQuantifier(pattern, index)
+      if (quantifier) {
+        if (quantifier.unbounded) stack[stack.length - 1].repeated = true
+        append(quantifier.text)
+        index += quantifier.text.length
+      } else {
+        append(char)
+        index++
+      }
+    }
+  }
+
+  if (stack.length > 1) {
+    invalidRegexp(pattern, stack[stack.length - 1].start, 'unclosed "("')
+  }
+}
+
+const BOOL_OCCURRENCES = ['must', 'filter', 'should', 'must_not']
+
+// A query_string wildcard pattern with its literal text escaped: `*` and
+// `?` stay wildcards, `\`-escaped characters and the rest are literal
+function escapeQueryStringPattern(pattern: string): string {
+  let escaped = ''
+  let literal = ''
+  const flush = () => {
+    escaped += escapeQueryString(literal).replace(/\s/g, '\\$&')
+    literal = ''
+  }
+  for (let i = 0; i < pattern.length; i++) {
+    if (pattern[i] === '\\') {
+      literal += pattern[++i] ?? ''
+    } else if (pattern[i] === '*' || pattern[i] === '?') {
+      flush()
+      escaped += pattern[i]
+    } else {
+      literal += pattern[i]
+    }
+  }
+  flush()
+  return escaped
+}
+
+function sanitizePatterns(
+  fields: Record<string, any>,
+  sanitize: (pattern: string) => string
+): Record<string, any> {
+  const sanitized: Record<string, any> = {}
+  Object.entries(fields).forEach(([field, value]) => {
+    sanitized[field] =
+      typeof value === 'string'
+        ? sanitize(value)
+        : { ...value, value: sanitize(String(value?.value)) }
+  })
+  return sanitized
+}
+
+/**
+ * Apply a userInput() policy to a clause parsed from a KQL or Lucene
+ * string: wildcard and prefix patterns are checked for leading wildcards, regexps
+ * are validated, and query_string patterns are escaped except for their
+ * wildcards
+ */
+export function sanitizeParsedClause(
+  clause: any,
+  options: Required<UserInputOptions>
+): any {
+  if (clause === null || typeof clause !== 'object') return clause
+
+  const sanitized: Record<string, any> = {}
+  Object.entries(clause).forEach(([type, body]: [string, any]) => {
+    if (type === 'bool') {
+      sanitized.bool = { ...body }
+      BOOL_OCCURRENCES.forEach((occurrence) => {
+        if (Array.isArray(body[occurrence])) {
+          sanitized.bool[occurrence] = body[occurrence].map((item: any) =>
+            sanitizeParsedClause(item, options)
+          )
+        }
+      })
+    } else if (type === 'nested') {
+      sanitized.nested = {
+        ...body,
+        query: sanitizeParsedClause(body.query, options),
+      }
+    } else if (type === 'wildcard') {
+      sanitized.wildcard = sanitizePatterns(body, (pattern) =>
+        sanitizeWildcard(pattern, options.leadingWildcard)
+      )
+    } else if (type === 'prefix') {
+      sanitized.prefix = sanitizePatterns(body, (value) =>
+        sanitizePrefix(value, options.leadingWildcard)
+      )
+    } else if (type === 'regexp') {
+      sanitized.regexp = sanitizePatterns(body, (pattern) => {
+        validateRegexp(pattern, options.maxRegexpLength)
+        return pattern
+      })
+    } else if (type === 'query_string') {
+      const query = sanitizeWildcard(body.query, options.leadingWildcard)
+      sanitized.query_string = {
+        ...body,
+        query: options.escapeQuerySyntax
+          ? escapeQueryStringPattern(query)
+          : query,
+      }
+    } else {
+      sanitized[type] = body
+    }
+  })
+  return sanitized
+}
@@ -0,0 +1,906 @@
+import { QueryDSL, MappedField, SchemaIssue } from './types'
+import { ValidationError } from './validation'
+
+const CONTEXT = 'Schema'
+
+const TEXT_TYPES = ['text', 'match_only_text', 'annotated_text']
+const KEYWORD_TYPES = ['keyword', 'constant_keyword', 'wildcard']
+const GEO_TYPES = ['geo_point', 'geo_shape']
+
+const BOOL_CONTEXTS = ['must', 'filter', 'should', 'must_not']
+
+// Marks the nested and reverse_nested wrappers Schema.nest() adds, for
+// parseResponse() to lift the wrapped aggregation back to its name
+export const AUTO_NESTED_META = 'auto_nested'
+
+// Where a compound query keeps its child queries; nested is walked apart
+const CHILD_QUERIES: Record<string, string[]> = {
+  bool: ['must', 'filter', 'should', 'must_not'],
+  has_child: ['query'],
+  has_parent: ['query'],
+  function_score: ['query'],
+  constant_score: ['filter'],
+  dis_max: ['queries'],
+  boosting: ['positive', 'negative'],
+  hybrid: ['queries'],
+}
+
+// Leaf queries keyed by field name, and the option keys beside the field
+const FIELD_QUERIES = [
+  'term',
+  'terms',
+  'range',
+  'match',
+  'match_phrase',
+  'match_phrase_prefix',
+  'match_bool_prefix',
+  'prefix',
+  'wildcard',
+  'regexp',
+  'fuzzy',
+  'geo_distance',
+  'geo_bounding_box',
+  'geo_polygon',
+  'geo_shape',
+  'knn',
+  'neural',
+]
+const OPTION_KEYS = [
+  'boost',
+  '_name',
+  'distance',
+  'distance_type',
+  'validation_method',
+  'ignore_unmapped',
+  'type',
+]
+
+// Leaf queries with a `fields` list
+const FIELDS_QUERIES = [
+  'multi_match',
+  'query_string',
+  'simple_query_string',
+  'more_like_this',
+]
+
+const EXACT_QUERIES = ['term', 'terms']
+const GEO_QUERIES = [
+  'geo_distance',
+  'geo_bounding_box',
+  'geo_polygon',
+  'geo_shape',
+]
+
+// Sort keys that are not fields
+const SPECIAL_SORTS = [
+  '_score',
+  '_doc',
+  '_shard_doc',
+  '_geo_distance',
+  '_script',
+]
+
+function isObject(value: any): boolean {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+}
+
+// Field aliases resolve to the field they point to
+type SchemaField = MappedField & { aliasOf?: string }
+
+// Scope a clause runs in: the nested object it is inside, if any
+interface Scope {
+  nestedPath?: string
+}
+
+/**
+ * Fields of an index mapping, loaded from a `_mapping` response, a
+ * `{ mappings }` object or bare `properties`. check() reports clauses and
+ * aggregations that do not fit it: unknown fields, exact queries and
+ * aggregations on analyzed text, ranges on strings, geo queries on
+ * non-geo fields and nested fields outside their nested query.
+ */
+export class Schema {
+  private fields = new Map<string, SchemaField>()
+
+  /**
+   * Load a mapping; `index` picks one index of a multi-index response,
+   * which is otherwise merged
+   */
+  constructor(mapping: unknown, index?: string) {
+    let response: any = mapping
+    // A client result, unless `body` is a field of a properties object
+    if (
+      isObject(response?.body) &&
+      !this.isMappings(response) &&
+      response.body.type === undefined &&
+      response.body.properties === undefined
+    ) {
+      response = response.body
+    }
+    const mappings = this.mappingsOf(response, index)
+    mappings.forEach(({ name, mappings }) => {
+      const indexFields = new Map<string, SchemaField>()
+      this.collect(mappings.properties || {}, '', undefined, indexFields)
+      Object.entries(mappings.runtime || {}).forEach(([path, def]: any) => {
+        indexFields.set(path, { path, type: def?.type ?? 'keyword' })
+      })
+      indexFields.forEach((field, path) => this.merge(field, path, name))
+    })
+  }
+
+  /**
+   * The mapped field at a dotted path, following field aliases
+   */
+  field(path: string): MappedField | undefined {
+    const field = this.fields.get(path)
+    if (field?.aliasOf !== undefined) return this.field(field.aliasOf)
+    return field && { ...field }
+  }
+
+  /**
+   * Fields by path, in mapping order
+   */
+  paths(): string[] {
+    return [...this.fields.keys()]
+  }
+
+  /**
+   * Field to use for exact matches on a path: the field itself, or the
+   * keyword sub-field of a text field; undefined when neither is mapped
+   */
+  exactMatchField(path: string): string | undefined {
+    const field = this.field(path)
+    if (!field) return undefined
+    if (!TEXT_TYPES.includes(field.type)) return path
+    const keyword = this.field(`${path}.keyword`)
+    return keyword && KEYWORD_TYPES.includes(keyword.type)
+      ? `${path}.keyword`
+      : undefined
+  }
+
+  /**
+   * Wrap clauses and aggregations on fields of nested objects in nested
+   * queries and aggregations, with reverse_nested back to outer fields.
+   * must and filter clauses on one nested object share a nested query,
+   * so they match within one element.
+   */
+  nest(body: QueryDSL): QueryDSL {
+    return new NestedWrapper(this).body(body)
+  }
+
+  /**
+   * Check a built request body against the mapping. Runtime fields
+   * defined in the body count as mapped.
+   */
+  check(body: QueryDSL): SchemaIssue[] {
+    const runtime = new Map<string, MappedField>()
+    Object.entries(body.runtime_mappings || {}).forEach(([path, def]) => {
+      runtime.set(path, { path, type: def.type })
+    })
+    const checker = new SchemaCheck(this, runtime)
+
+    checker.query(body.query, 'query', {})
+    checker.query(body.post_filter, 'post_filter', {})
+    body.rescore?.forEach((rescore, index) => {
+      checker.query(
+        rescore.query?.rescore_query,
+        `rescore[${index}].query.rescore_query`,
+        {}
+      )
+    })
+    checker.aggs(body.aggs, 'aggs', {})
+    checker.aggs(body.aggregations, 'aggregations', {})
+    checker.sort(body.sort)
+    return checker.issues
+  }
+
+  private isMappings(value: any): boolean {
+    return (
+      isObject(value) &&
+      (isObject(value.mappings) || isObject(value.properties))
+    )
+  }
+
+  // The mappings of each index in the response, or of the one asked for
+  private mappingsOf(
+    response: any,
+    index?: string
+  ): { name: string; mappings: any }[] {
+    const invalid = () =>
+      new ValidationError(
+        'Mapping must be a _mapping response, a { mappings } object or properties',
+        'mapping',
+        'INVALID_MAPPING',
+        CONTEXT,
+        { index }
+      )
+    if (!isObject(response)) throw invalid()
+    if (isObject(response.properties)) {
+      return [{ name: index ?? '', mappings: response }]
+    }
+    if (isObject(response.mappings)) {
+      return [{ name: index ?? '', mappings: response.mappings }]
+    }
+
+    const indices = Object.keys(response).filter((name) =>
+      isObject(response[name]?.mappings)
+    )
+    if (indices.length === 0) {
+      // A properties object itself: field names to definitions
+      const definitions = Object.values(response)
+      const isProperties =
+        definitions.length > 0 &&
+        definitions.every(
+          (def: any) => isObject(def) && (def.type || def.properties)
+        )
+      if (!isProperties) throw invalid()
+      return [{ name: index ?? '', mappings: { properties: response } }]
+    }
+    if (index === undefined) {
+      return indices.map((name) => ({
+        name,
+        mappings: response[name].mappings,
+      }))
+    }
+    if (!indices.includes(index)) {
+      throw new ValidationError(
+        `Index "${index}" is not in the mapping response (${indices.join(
+          ', '
+        )})`,
+        'index',
+        'INVALID_MAPPING',
+        CONTEXT,
+        { index, indices }
+      )
+    }
+    return [{ name: index, mappings: response[index].mappings }]
+  }
+
+  private collect(
+    properties: Record<string, any>,
+    prefix: string,
+    nestedPath: string | undefined,
+    into: Map<string, SchemaField>
+  ): void {
+    Object.entries(properties).forEach(([name, def]) => {
+      const path = `${prefix}${name}`
+      const type: string = def?.type ?? 'object'
+      const field: SchemaField = { path, type }
+      if (nestedPath !== undefined) field.nestedPath = nestedPath
+      if (type === 'alias' && typeof def.path === 'string') {
+        field.aliasOf = def.path
+      }
+      into.set(path, field)
+
+      Object.entries(def?.fields || {}).forEach(([sub, subDef]: any) => {
+        const subField: MappedField = {
+          path: `${path}.${sub}`,
+          type: subDef?.type ?? 'keyword',
+        }
+        if (nestedPath !== undefined) subField.nestedPath = nestedPath
+        into.set(subField.path, subField)
+      })
+      if (isObject(def?.properties)) {
+        this.collect(
+          def.properties,
+          `${path}.`,
+          type === 'nested' ? path : nestedPath,
+          into
+        )
+      }
+    })
+  }
+
+  private merge(field: SchemaField, path: string, index: string): void {
+    const existing = this.fields.get(path)
+    if (
+      existing &&
+      (existing.type !== field.type || existing.nestedPath !== field.nestedPath)
+    ) {
+      throw new ValidationError(
+        `Field "${path}" is mapped as ${existing.type} and as ${field.type} in index "${index}"; pass the index name to load one mapping`,
+        path,
+        'MAPPING_CONFLICT',
+        CONTEXT,
+        { path, types: [existing.type, field.type], index }
+      )
+    }
+    if (!existing) this.fields.set(path, field)
+  }
+}
+
+// One check() run: the fields in scope and the issues found so far
+class SchemaCheck {
+  readonly issues: SchemaIssue[] = []
+
+  constructor(
+    private schema: Schema,
+    private runtime: Map<string, MappedField>
+  ) {}
+
+  query(clause: any, path: string, scope: Scope): void {
+    if (Array.isArray(clause)) {
+      clause.forEach((item, index) =>
+        this.query(item, `${path}[${index}]`, scope)
+      )
+      return
+    }
+    if (!isObject(clause)) return
+
+    Object.entries(clause).forEach(([type, body]: [string, any]) => {
+      const clausePath = `${path}.${type}`
+      if (!isObject(body)) return
+
+      if (type === 'nested') {
+        const inner = this.nestedScope(body.path, `${clausePath}.path`, scope)
+        this.query(body.query, `${clausePath}.query`, inner)
+      } else if (CHILD_QUERIES[type]) {
+        CHILD_QUERIES[type].forEach((key) =>
+          this.query(body[key], `${clausePath}.${key}`, scope)
+        )
+      } else if (FIELD_QUERIES.includes(type)) {
+        Object.keys(body)
+          .filter((key) => !OPTION_KEYS.includes(key))
+          .forEach((field) => this.leaf(type, field, clausePath, scope))
+        if (type === 'knn') {
+          Object.keys(body).forEach((field) =>
+            this.query(
+              body[field]?.filter,
+              `${clausePath}.${field}.filter`,
+              scope
+            )
+          )
+        }
+      } else if (FIELDS_QUERIES.includes(type)) {
+        const fields: string[] = body.fields || []
+        fields.forEach((field) =>
+          this.leaf(type, field.replace(/\^[\d.]+$/, ''), clausePath, scope)
+        )
+      } else if (type === 'exists') {
+        this.leaf(type, body.field, clausePath, scope)
+      }
+    })
+  }
+
+  aggs(aggs: any, path: string, scope: Scope): void {
+    if (!isObject(aggs)) return
+    Object.entries(aggs).forEach(([name, agg]: [string, any]) => {
+      if (!isObject(agg)) return
+      const aggPath = `${path}.${name}`
+      let inner = scope
+
+      Object.entries(agg).forEach(([type, body]: [string, any]) => {
+        if (type === 'aggs' || type === 'aggregations' || !isObject(body)) {
+          return
+        }
+        const typePath = `${aggPath}.${type}`
+        if (type === 'nested') {
+          inner = this.nestedScope(body.path, `${typePath}.path`, scope)
+        } else if (type === 'reverse_nested') {
+          inner = body.path ? { nestedPath: body.path } : {}
+        } else if (type === 'filter') {
+          this.query(body, typePath, scope)
+        } else if (type === 'filters') {
+          const filters = body.filters
+          Object.keys(
+            isObject(filters) || Array.isArray(filters) ? filters : {}
+          ).forEach((key) =>
+            this.query(filters[key], `${typePath}.filters.${key}`, scope)
+          )
+        } else if (type === 'composite') {
+          const sources: any[] = body.sources || []
+          sources.forEach((source, index) =>
+            Object.entries(source || {}).forEach(([key, value]: any) => {
+              const [sourceType] = Object.keys(value || {})
+              this.aggField(
+                sourceType,
+                value?.[sourceType]?.field,
+                `${typePath}.sources[${index}].${key}`,
+                scope
+              )
+            })
+          )
+        } else if (typeof body.field === 'string') {
+          this.aggField(type, body.field, typePath, scope)
+        }
+      })
+
+      this.aggs(agg.aggs, `${aggPath}.aggs`, inner)
+      this.aggs(agg.aggregations, `${aggPath}.aggregations`, inner)
+    })
+  }
+
+  sort(sort: any[] = []): void {
+    sort.forEach((option, index) => {
+      const field =
+        typeof option === 'string' ? option : Object.keys(option || {})[0]
+      if (field === undefined || SPECIAL_SORTS.includes(field)) return
+      const path = `sort[${index}]`
+      const mapped = this.resolve(field, 'sort', path)
+      if (mapped && TEXT_TYPES.includes(mapped.type)) {
+        this.report(
+          'SORT_ON_TEXT',
+          path,
+          field,
+          `sort on text field "${field}" needs fielddata${this.keywordHint(
+            field
+          )}`
+        )
+      }
+    })
+  }
+
+  // Scope inside a nested query or aggregation; the outer one if the path
+  // is not a nested field, so its clauses are not reported twice
+  private nestedScope(nestedPath: any, path: string, scope: Scope): Scope {
+    if (typeof nestedPath !== 'string') return scope
+    const mapped = this.resolve(nestedPath, 'nested', path)
+    if (mapped && mapped.type !== 'nested') {
+      this.report(
+        'NOT_NESTED_PATH',
+        path,
+        nestedPath,
+        `nested path "${nestedPath}" is mapped as ${mapped.type}, not nested`
+      )
+    }
+    return mapped?.type === 'nested' ? { nestedPath: mapped.path } : scope
+  }
+
+  private leaf(type: string, field: any, path: string, scope: Scope): void {
+    if (typeof field !== 'string' || field.includes('*')) return
+    const mapped = this.resolve(field, `${type} query`, path)
+    if (!mapped) return
+    this.checkScope(mapped, `${type} query`, path, scope)
+
+    if (EXACT_QUERIES.includes(type) && TEXT_TYPES.includes(mapped.type)) {
+      this.report(
+        'TERM_ON_TEXT',
+        path,
+        field,
+        `${type} query on text field "${field}" matches analyzed tokens, not the whole value${this.keywordHint(
+          field
+        )}`
+      )
+    }
+    if (
+      type === 'range' &&
+      [...TEXT_TYPES, ...KEYWORD_TYPES].includes(mapped.type)
+    ) {
+      this.report(
+        'RANGE_ON_STRING',
+        path,
+        field,
+        `range query on ${mapped.type} field "${field}" compares strings, not numbers or dates`
+      )
+    }
+    if (GEO_QUERIES.includes(type) && !GEO_TYPES.includes(mapped.type)) {
+      this.report(
+        'GEO_QUERY_ON_NON_GEO_FIELD',
+        path,
+        field,
+        `${type} query needs a geo_point or geo_shape field; "${field}" is mapped as ${mapped.type}`
+      )
+    }
+  }
+
+  private aggField(type: string, field: any, path: string, scope: Scope): void {
+    if (typeof field !== 'string') return
+    const mapped = this.resolve(field, `${type} aggregation`, path)
+    if (!mapped) return
+    this.checkScope(mapped, `${type} aggregation`, path, scope)
+
+    if (TEXT_TYPES.includes(mapped.type)) {
+      this.report(
+        'AGGREGATION_ON_TEXT',
+        path,
+        field,
+        `${type} aggregation on text field "${field}" needs fielddata${this.keywordHint(
+          field
+        )}`
+      )
+    }
+  }
+
+  // The mapped field, or undefined after reporting it unknown
+  private resolve(
+    field: string,
+    usage: string,
+    path: string
+  ): MappedField | undefined {
+    const mapped = this.runtime.get(field) ?? this.schema.field(field)
+    if (mapped) return mapped
+
+    let hint = ''
+    const base = field.endsWith('.keyword') ? field.slice(0, -8) : undefined
+    const baseField = base !== undefined ? this.schema.field(base) : undefined
+    if (baseField && TEXT_TYPES.includes(baseField.type)) {
+      hint = `; "${base}" is a ${baseField.type} field, map a keyword sub-field to match it exactly`
+    } else if (baseField) {
+      hint = `; "${base}" is a ${baseField.type} field, use it directly`
+    }
+    this.report(
+      'UNKNOWN_FIELD',
+      path,
+      field,
+      `${usage} on "${field}": field is not in the mapping${hint}`
+    )
+    return undefined
+  }
+
+  private checkScope(
+    mapped: MappedField,
+    usage: string,
+    path: string,
+    scope: Scope
+  ): void {
+    const { nestedPath } = mapped
+    if (nestedPath === scope.nestedPath) return
+
+    const aggregation = usage.endsWith('aggregation')
+    let message: string
+    if (nestedPath === undefined) {
+      const fix = aggregation
+        ? 'use a reverse_nested aggregation'
+        : 'move it out of the nested query'
+      message = `${usage} on "${mapped.path}" matches nothing inside nested "${scope.nestedPath}"; ${fix}`
+    } else {
+      const wrapper = aggregation ? 'a nested aggregation' : 'a nested query'
+      message = `${usage} on "${mapped.path}" matches nothing outside ${wrapper} on "${nestedPath}"`
+    }
+    this.report('MISSING_NESTED_CONTEXT', path, mapped.path, message)
+  }
+
+  private keywordHint(field: string): string {
+    const keyword = this.schema.field(`${field}.keyword`)
+    return keyword && KEYWORD_TYPES.includes(keyword.type)
+      ? `; use "${field}.keyword"`
+      : '; map a keyword sub-field'
+  }
+
+  private report(
+    code: string,
+    path: string,
+    field: string,
+    message: string
+  ): void {
+    this.issues.push({ code, path, field, message })
+  }
+}
+
+// Rewrites one request body for Schema.nest()
+class NestedWrapper {
+  constructor(private schema: Schema) {}
+
+  body(body: QueryDSL): QueryDSL {
+    const nested = { ...body }
+    if (body.query) nested.query = this.query(body.query, undefined)
+    if (body.post_filter) {
+      nested.post_filter = this.query(body.post_filter, undefined)
+    }
+    if (body.rescore) {
+      nested.rescore = body.rescore.map((rescore) => ({
+        ...rescore,
+        query: {
+          ...rescore.query,
+          rescore_query: this.query(rescore.query.rescore_query, undefined),
+        },
+      }))
+    }
+    if (body.aggs) nested.aggs = this.aggs(body.aggs, undefined).aggs
+    return nested
+  }
+
+  // `scope` is the nested path the clause runs in; undefined at the root
+  private query(clause: any, scope: string | undefined): any {
+    if (!isObject(clause)) return clause
+
+    const step = this.clauseStep(clause, scope)
+    if (step !== undefined) {
+      return { nested: { path: step, query: this.query(clause, step) } }
+    }
+    const [type] = clauseTypes(clause)
+    const body = clause[type]
+    if (!isObject(body)) return clause
+
+    if (type === 'bool') return this.bool(clause, scope)
+    if (type === 'nested') {
+      return {
+        ...clause,
+        nested: { ...body, query: this.query(body.query, body.path) },
+      }
+    }
+    // Children and parents are separate root documents
+    const childScope =
+      type === 'has_child' || type === 'has_parent' ? undefined : scope
+    const children = { ...body }
+    const childKeys = CHILD_QUERIES[type] || []
+    childKeys.forEach((key) => {
+      if (Array.isArray(body[key])) {
+        children[key] = body[key].map((item: any) =>
+          this.query(item, childScope)
+        )
+      } else if (body[key] !== undefined) {
+        children[key] = this.query(body[key], childScope)
+      }
+    })
+    return { ...clause, [type]: children }
+  }
+
+  // must and filter clauses on one nested object are grouped so they
+  // match within one element; should and must_not clauses keep their
+  // meaning only when wrapped one by one
+  private bool(clause: any, scope: string | undefined): any {
+    const bool = { ...clause.bool }
+    BOOL_CONTEXTS.forEach((context) => {
+      if (bool[context] === undefined) return
+      const items: any[] = [].concat(bool[context])
+      bool[context] =
+        context === 'must' || context === 'filter'
+          ? this.grouped(items, context, scope)
+          : items.map((item) => this.query(item, scope))
+    })
+    return { ...clause, bool }
+  }
+
+  private grouped(
+    items: any[],
+    context: string,
+    scope: string | undefined
+  ): any[] {
+    const entries: ({ clause: any } | { step: string; clauses: any[] })[] = []
+    const groups = new Map<string, any[]>()
+    items.forEach((item) => {
+      const step = this.clauseStep(item, scope)
+      if (step === undefined) {
+        entries.push({ clause: this.query(item, scope) })
+        return
+      }
+      if (!groups.has(step)) {
+        groups.set(step, [])
+        entries.push({ step, clauses: groups.get(step)! })
+      }
+      groups.get(step)!.push(item)
+    })
+
+    return entries.map((entry) => {
+      if ('clause' in entry) return entry.clause
+      const query =
+        entry.clauses.length === 1
+          ? entry.clauses[0]
+          : { bool: { [context]: entry.clauses } }
+      return {
+        nested: { path: entry.step, query: this.query(query, entry.step) },
+      }
+    })
+  }
+
+  // Nested path to wrap a leaf clause in, one level below `scope`
+  private clauseStep(
+    clause: any,
+    scope: string | undefined
+  ): string | undefined {
+    const fields = clauseFields(clause)
+    const target = fields ? this.targetOf(fields) : null
+    return target === null || target === scope
+      ? undefined
+      : this.stepTowards(target, scope)
+  }
+
+  private aggs(
+    aggs: Record<string, any>,
+    scope: string | undefined
+  ): { aggs: Record<string, any>; depths: Record<string, number> } {
+    const result: Record<string, any> = {}
+    const depths: Record<string, number> = {}
+    Object.entries(aggs).forEach(([name, agg]) => {
+      if (!isObject(agg)) {
+        result[name] = agg
+        return
+      }
+      const moved = this.agg(name, agg, scope)
+      result[name] = moved.agg
+      if (moved.depth > 0) depths[name] = moved.depth
+    })
+    if (Object.keys(depths).length === 0) return { aggs: result, depths }
+
+    // Pipelines reach a moved sibling through its wrappers
+    Object.values(result).forEach((agg: any) => {
+      const body = agg?.[aggregationType(agg) ?? '']
+      if (!isObject(body)) return
+      if (typeof body.buckets_path === 'string') {
+        body.buckets_path = throughWrappers(body.buckets_path, depths)
+      } else if (isObject(body.buckets_path)) {
+        Object.keys(body.buckets_path).forEach((key) => {
+          body.buckets_path[key] = throughWrappers(
+            body.buckets_path[key],
+            depths
+          )
+        })
+      }
+      if (Array.isArray(body.sort)) {
+        body.sort = body.sort.map((sort: any) =>
+          typeof sort === 'string'
+            ? throughWrappers(sort, depths)
+            : renameKeys(sort, depths)
+        )
+      }
+    })
+    return { aggs: result, depths }
+  }
+
+  // An aggregation moved to the nested level of its fields by nested or
+  // reverse_nested wrappers of the same name, and how many wrap it
+  private agg(
+    name: string,
+    agg: any,
+    scope: string | undefined
+  ): { agg: any; depth: number } {
+    const target = this.targetOf(aggregationFields(agg))
+    if (target !== null && target !== scope) {
+      const step = this.stepTowards(target, scope)
+      if (step !== undefined || this.isAncestor(target, scope)) {
+        const next = step ?? target
+        const inner = this.agg(name, agg, next)
+        const wrapper =
+          step !== undefined
+            ? { nested: { path: step } }
+            : { reverse_nested: target === undefined ? {} : { path: target } }
+        return {
+          agg: {
+            ...wrapper,
+            meta: { [AUTO_NESTED_META]: true },
+            aggs: { [name]: inner.agg },
+          },
+          depth: inner.depth + 1,
+        }
+      }
+    }
+    return { agg: this.aggChildren(agg, scope), depth: 0 }
+  }
+
+  private aggChildren(agg: any, scope: string | undefined): any {
+    const type = aggregationType(agg) ?? ''
+    const body = agg[type]
+    const result = { ...agg }
+
+    let childScope = scope
+    if (type === 'nested' || type === 'reverse_nested') childScope = body?.path
+    if (type === 'global') childScope = undefined
+    if (type === 'filter') result.filter = this.query(body, scope)
+    if (type === 'filters' && isObject(body?.filters)) {
+      const filters: Record<string, any> = {}
+      Object.entries(body.filters).forEach(([key, filter]) => {
+        filters[key] = this.query(filter, scope)
+      })
+      result.filters = { ...body, filters }
+    }
+
+    const subAggKeys = ['aggs', 'aggregations']
+    subAggKeys.forEach((key) => {
+      if (!isObject(agg[key])) return
+      const { aggs, depths } = this.aggs(agg[key], childScope)
+      result[key] = aggs
+      // Bucket order by a moved sub-aggregation
+      if (type === 'terms' && body?.order) {
+        result.terms = {
+          ...body,
+          order: Array.isArray(body.order)
+            ? body.order.map((order: any) => renameKeys(order, depths))
+            : renameKeys(body.order, depths),
+        }
+      }
+    })
+    return result
+  }
+
+  // Common nested path of fields; null when unknown or not shared
+  private targetOf(fields: string[]): string | undefined | null {
+    if (fields.length === 0) return null
+    const paths = fields.map((field) => this.nestedPathOf(field))
+    return paths.every((path) => path !== null && path === paths[0])
+      ? paths[0]
+      : null
+  }
+
+  // Nested path of a field, as for term()'s `.keyword`; null if unmapped
+  private nestedPathOf(field: string): string | undefined | null {
+    if (field.includes('*')) return null
+    const mapped =
+      this.schema.field(field) ??
+      (field.endsWith('.keyword')
+        ? this.schema.field(field.slice(0, -'.keyword'.length))
+        : undefined)
+    return mapped ? mapped.nestedPath : null
+  }
+
+  // The nested path right below `scope` on the way down to `target`
+  private stepTowards(
+    target: string | undefined,
+    scope: string | undefined
+  ): string | undefined {
+    let step = target
+    while (step !== undefined) {
+      const parent = this.schema.field(step)?.nestedPath
+      if (parent === scope) return step
+      step = parent
+    }
+    return undefined
+  }
+
+  private isAncestor(
+    ancestor: string | undefined,
+    scope: string | undefined
+  ): boolean {
+    let parent = scope
+    while (parent !== undefined) {
+      parent = this.schema.field(parent)?.nestedPath
+      if (parent === ancestor) return true
+    }
+    return false
+  }
+}
+
+// Query types of a clause; boost() may add a sibling `boost` key
+function clauseTypes(clause: any): string[] {
+  return Object.keys(clause).filter((key) => key !== 'boost')
+}
+
+// Fields a leaf clause searches; undefined for compound clauses
+function clauseFields(clause: any): string[] | undefined {
+  if (!isObject(clause)) return undefined
+  const types = clauseTypes(clause)
+  const body = clause[types[0]]
+  if (types.length !== 1 || !isObject(body)) return undefined
+
+  if (FIELD_QUERIES.includes(types[0])) {
+    return Object.keys(body).filter((key) => !OPTION_KEYS.includes(key))
+  }
+  if (FIELDS_QUERIES.includes(types[0]) && Array.isArray(body.fields)) {
+    return body.fields.map((field: string) => field.replace(/\^[\d.]+$/, ''))
+  }
+  if (types[0] === 'exists' && typeof body.field === 'string') {
+    return [body.field]
+  }
+  return undefined
+}
+
+function aggregationType(agg: any): string | undefined {
+  return Object.keys(agg || {}).find(
+    (key) => key !== 'aggs' && key !== 'aggregations' && key !== 'meta'
+  )
+}
+
+// Fields an aggregation reads: its `field`, or those of composite sources
+function aggregationFields(agg: any): string[] {
+  const type = aggregationType(agg) ?? ''
+  const body = agg[type]
+  if (typeof body?.field === 'string') return [body.field]
+  if (type === 'composite' && Array.isArray(body.sources)) {
+    return body.sources.flatMap((source: any) =>
+      Object.values(source || {}).map((value: any) => {
+        const [sourceType] = Object.keys(value || {})
+        return value?.[sourceType]?.field
+      })
+    )
+  }
+  return []
+}
+
+// A buckets_path or order path to a sibling moved under `depth` wrappers
+function throughWrappers(path: string, depths: Record<string, number>): string {
+  const name = /^[^>.[]+/.exec(path)?.[0]
+  const depth = name !== undefined ? depths[name] : undefined
+  return depth ? `${`${name}>`.repeat(depth)}${path}` : path
+}
+
+function renameKeys(
+  value: any,
+  depths: Record<string, number>
+): Record<string, any> {
+  if (!isObject(value)) return value
+  const renamed: Record<string, any> = {}
+  Object.entries(value).forEach(([key, order]) => {
+    renamed[throughWrappers(key, depths)] = order
+  })
+  return renamed
+}
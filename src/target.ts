@@ -0,0 +1,422 @@
+import { QueryDSL, SearchEngine, SearchTarget, TargetCapability } from './types'
+import { ValidationError } from './validation'
+
+const CONTEXT = 'target'
+
+// Versions a capability exists in: from `since`, up to but excluding `until`
+interface VersionRange {
+  since?: string
+  until?: string
+}
+
+// Major versions build() can emit DSL for
+const SUPPORTED_MAJORS: Record<SearchEngine, number[]> = {
+  elasticsearch: [7, 8],
+  opensearch: [1, 2],
+}
+
+const CAPABILITIES: Record<
+  SearchEngine,
+  Record<TargetCapability, VersionRange | false>
+> = {
+  elasticsearch: {
+    calendarInterval: { since: '7.2' },
+    geoPolygon: { until: '8.0' },
+    runtimeFields: { since: '7.11' },
+    pointInTime: { since: '7.10' },
+    topLevelKnn: { since: '8.4' },
+    multipleKnn: { since: '8.7' },
+    knnQuery: { since: '8.12' },
+    neuralQuery: false,
+    hybridQuery: false,
+    vectorFunctionFieldNames: { since: '7.6' },
+  },
+  opensearch: {
+    calendarInterval: {},
+    geoPolygon: {},
+    runtimeFields: false,
+    pointInTime: { since: '2.4' },
+    topLevelKnn: false,
+    multipleKnn: false,
+    knnQuery: {},
+    neuralQuery: { since: '2.9' },
+    hybridQuery: { since: '2.10' },
+    vectorFunctionFieldNames: false,
+  },
+}
+
+const ENGINE_NAMES: Record<SearchEngine, string> = {
+  elasticsearch: 'Elasticsearch',
+  opensearch: 'OpenSearch',
+}
+
+const CAPABILITY_NAMES: Record<TargetCapability, string> = {
+  calendarInterval: 'calendar_interval and fixed_interval',
+  geoPolygon: 'geo_polygon query',
+  runtimeFields: 'runtime_mappings',
+  pointInTime: 'pit',
+  topLevelKnn: 'top-level knn search',
+  multipleKnn: 'more than one top-level knn search',
+  knnQuery: 'knn query',
+  neuralQuery: 'neural query',
+  hybridQuery: 'hybrid query',
+  vectorFunctionFieldNames: 'vector functions taking a field name',
+}
+
+// Where a compound query keeps its child queries
+const CHILD_QUERIES: Record<string, string[]> = {
+  bool: ['must', 'filter', 'should', 'must_not'],
+  nested: ['query'],
+  has_child: ['query'],
+  // parent_type, score and inner_hits read the same in every supported
+  // version, so only the parent query is converted
+  has_parent: ['query'],
+  function_score: ['query'],
+  script_score: ['query'],
+  constant_score: ['filter'],
+  dis_max: ['queries'],
+  boosting: ['positive', 'negative'],
+  hybrid: ['queries'],
+}
+
+// Query clauses that exist only where their capability does
+const CLAUSE_CAPABILITIES: Record<string, TargetCapability> = {
+  knn: 'knnQuery',
+  neural: 'neuralQuery',
+  hybrid: 'hybridQuery',
+}
+
+// Intervals calendar_interval accepts; other multiples need fixed_interval
+const CALENDAR_INTERVALS = [
+  '1s',
+  '1m',
+  '1h',
+  '1d',
+  '1w',
+  '1M',
+  '1q',
+  '1y',
+  'second',
+  'minute',
+  'hour',
+  'day',
+  'week',
+  'month',
+  'quarter',
+  'year',
+]
+const FIXED_INTERVAL = /^\d+(ms|s|m|h|d)$/
+
+// Painless vector functions given the field name, as in
+// `cosineSimilarity(params.query_vector, 'embedding')`
+const VECTOR_FUNCTION_FIELD_NAME =
+  /\b(cosineSimilarity|dotProduct|l1norm|l2norm)\(([^,()]+),\s*'([^']+)'\)/g
+// OpenSearch k-NN names of the functions that read `doc`
+const DOC_VECTOR_FUNCTIONS: Record<string, string> = {
+  cosineSimilarity: 'cosineSimilarity',
+  l1norm: 'l1Norm',
+}
+
+function isObject(value: any): boolean {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+}
+
+function parseVersion(version: string): number[] | undefined {
+  const match = /^(\d+)(?:\.(\d+))?(?:\.(\d+))?$/.exec(version)
+  return match ? match.slice(1).map((part) => Number(part || 0)) : undefined
+}
+
+function compareVersions(a: string, b: string): number {
+  const left = parseVersion(a)!
+  const right = parseVersion(b)!
+  const index = left.findIndex((part, i) => part !== right[i])
+  return index === -1 ? 0 : left[index] - right[index]
+}
+
+/**
+ * Check a target's engine and version, returning a copy
+ */
+export function validateTarget(target: SearchTarget): SearchTarget {
+  const version = typeof target?.version === 'string' && target.version
+  const majors = SUPPORTED_MAJORS[target?.engine]
+  if (!majors || !version || !parseVersion(version)) {
+    throw new ValidationError(
+      'Target must name an engine (elasticsearch or opensearch) and a version such as "8.11"',
+      'target',
+      'INVALID_TARGET',
+      CONTEXT,
+      { target }
+    )
+  }
+  if (!majors.includes(parseVersion(version)![0])) {
+    const engine = ENGINE_NAMES[target.engine]
+    const supported = majors.join(', ')
+    throw new ValidationError(
+      `${engine} ${version} is not a supported target; supported major versions are ${supported}`,
+      'target.version',
+      'INVALID_TARGET',
+      CONTEXT,
+      { target, supported: majors }
+    )
+  }
+  return { engine: target.engine, version }
+}
+
+/**
+ * Whether a target engine version has a capability, by the capability table
+ */
+export function targetSupports(
+  target: SearchTarget,
+  capability: TargetCapability
+): boolean {
+  const { engine, version } = validateTarget(target)
+  const range = CAPABILITIES[engine][capability]
+  if (range === false) return false
+  return (
+    (range.since === undefined || compareVersions(version, range.since) >= 0) &&
+    (range.until === undefined || compareVersions(version, range.until) < 0)
+  )
+}
+
+function requireCapability(
+  target: SearchTarget,
+  capability: TargetCapability,
+  path: string
+): void {
+  if (targetSupports(target, capability)) return
+
+  const engine = ENGINE_NAMES[target.engine]
+  const range = CAPABILITIES[target.engine][capability]
+  let hint = ''
+  if (range && range.since)
+    hint = `; it needs ${engine} ${range.since} or later`
+  if (range && range.until)
+    hint = `; it was removed in ${engine} ${range.until}`
+  throw new ValidationError(
+    `${CAPABILITY_NAMES[capability]} is not supported by ${engine} ${target.version}${hint}`,
+    path,
+    'UNSUPPORTED_IN_TARGET',
+    CONTEXT,
+    { target, capability, ...(range || {}) }
+  )
+}
+
+// geo_polygon as the geo_shape query that replaces it on geo_point fields
+function geoPolygonAsShape(geoPolygon: Record<string, any>): any {
+  const geoShape: Record<string, any> = {}
+  Object.entries(geoPolygon).forEach(([key, value]) => {
+    if (key === 'validation_method') return
+    if (!isObject(value) || !Array.isArray(value.points)) {
+      geoShape[key] = value
+      return
+    }
+    const ring = value.points.map((point: any) => [point.lon, point.lat])
+    const [first, last] = [ring[0], ring[ring.length - 1]]
+    if (first[0] !== last[0] || first[1] !== last[1]) ring.push(first)
+    geoShape[key] = {
+      shape: { type: 'polygon', coordinates: [ring] },
+      relation: 'intersects',
+    }
+  })
+  return { geo_shape: geoShape }
+}
+
+// A script whose vector functions read the field from `doc`, for engines
+// without the field-name form
+function emitScript(script: any, target: SearchTarget): any {
+  if (targetSupports(target, 'vectorFunctionFieldNames')) return script
+  const rewrite = (source: string) =>
+    source.replace(VECTOR_FUNCTION_FIELD_NAME, (call, fn, vector, field) => {
+      const name =
+        target.engine === 'opensearch' ? DOC_VECTOR_FUNCTIONS[fn] : fn
+      if (!name) {
+        throw new ValidationError(
+          `${fn}() is not supported by ${ENGINE_NAMES[target.engine]} ${
+            target.version
+          } scripts`,
+          'script',
+          'UNSUPPORTED_IN_TARGET',
+          CONTEXT,
+          { target, call }
+        )
+      }
+      return `${name}(${vector}, doc['${field}'])`
+    })
+  if (typeof script === 'string') return rewrite(script)
+  if (isObject(script) && typeof script.source === 'string') {
+    return { ...script, source: rewrite(script.source) }
+  }
+  return script
+}
+
+// An OpenSearch knn query, `{ [field]: { vector, k } }`, as the
+// Elasticsearch one; k bounds the candidates searched per shard
+function knnQueryAsElasticsearch(knn: Record<string, any>): any {
+  const [field] = Object.keys(knn)
+  const { vector, k, ...options } = knn[field]
+  return { field, query_vector: vector, num_candidates: k, ...options }
+}
+
+function emitQuery(clause: any, path: string, target: SearchTarget): any {
+  if (!isObject(clause)) return clause
+
+  if (clause.geo_polygon && !targetSupports(target, 'geoPolygon')) {
+    return geoPolygonAsShape(clause.geo_polygon)
+  }
+  Object.keys(clause).forEach((type) => {
+    if (CLAUSE_CAPABILITIES[type]) {
+      requireCapability(target, CLAUSE_CAPABILITIES[type], `${path}.${type}`)
+    }
+    if (
+      type === 'knn' &&
+      target.engine === 'elasticsearch' &&
+      isObject(clause.knn) &&
+      clause.knn.field === undefined
+    ) {
+      clause.knn = knnQueryAsElasticsearch(clause.knn)
+    }
+    const body = clause[type]
+    if (type === 'knn' && isObject(body) && body.field !== undefined) {
+      if (body.filter) {
+        body.filter = emitQuery(body.filter, `${path}.knn.filter`, target)
+      }
+    } else if (type === 'knn' && isObject(body)) {
+      Object.keys(body).forEach((field) => {
+        if (isObject(body[field]) && body[field].filter) {
+          body[field].filter = emitQuery(
+            body[field].filter,
+            `${path}.knn.${field}.filter`,
+            target
+          )
+        }
+      })
+    }
+    if ((type === 'script' || type === 'script_score') && isObject(body)) {
+      body.script = emitScript(body.script, target)
+    }
+    if (type === 'function_score' && Array.isArray(body?.functions)) {
+      body.functions.forEach((fn: any) => {
+        if (fn?.script_score) {
+          fn.script_score.script = emitScript(fn.script_score.script, target)
+        }
+      })
+    }
+    const childKeys = CHILD_QUERIES[type] || []
+    childKeys.forEach((key) => {
+      const child = body?.[key]
+      const childPath = `${path}.${type}.${key}`
+      if (Array.isArray(child)) {
+        body[key] = child.map((item, index) =>
+          emitQuery(item, `${childPath}[${index}]`, target)
+        )
+      } else if (child !== undefined) {
+        body[key] = emitQuery(child, childPath, target)
+      }
+    })
+  })
+  return clause
+}
+
+function emitInterval(
+  histogram: Record<string, any>,
+  target: SearchTarget
+): void {
+  if (!isObject(histogram)) return
+  const interval = histogram.calendar_interval ?? histogram.fixed_interval
+  if (interval === undefined) return
+
+  if (!targetSupports(target, 'calendarInterval')) {
+    delete histogram.calendar_interval
+    delete histogram.fixed_interval
+    histogram.interval = interval
+  } else if (
+    histogram.calendar_interval !== undefined &&
+    FIXED_INTERVAL.test(interval) &&
+    !CALENDAR_INTERVALS.includes(interval)
+  ) {
+    delete histogram.calendar_interval
+    histogram.fixed_interval = interval
+  }
+}
+
+function emitAggs(
+  aggs: Record<string, any> | undefined,
+  path: string,
+  target: SearchTarget
+): void {
+  if (!aggs || !isObject(aggs)) return
+  Object.entries(aggs).forEach(([name, agg]) => {
+    if (!isObject(agg)) return
+    const aggPath = `${path}.${name}`
+
+    emitInterval(agg.date_histogram, target)
+    if (Array.isArray(agg.composite?.sources)) {
+      agg.composite.sources.forEach((source: any) => {
+        Object.values(source || {}).forEach((value: any) =>
+          emitInterval(value?.date_histogram, target)
+        )
+      })
+    }
+    if (agg.filter) {
+      agg.filter = emitQuery(agg.filter, `${aggPath}.filter`, target)
+    }
+    const filters = agg.filters?.filters
+    if (isObject(filters) || Array.isArray(filters)) {
+      Object.keys(filters).forEach((key) => {
+        filters[key] = emitQuery(
+          filters[key],
+          `${aggPath}.filters.filters.${key}`,
+          target
+        )
+      })
+    }
+    emitAggs(agg.aggs, `${aggPath}.aggs`, target)
+    emitAggs(agg.aggregations, `${aggPath}.aggregations`, target)
+  })
+}
+
+/**
+ * Rewrite a built request body, in place, into the syntax of a target
+ * engine version: intervals, geo_polygon and knn sections are converted,
+ * and features the target lacks throw UNSUPPORTED_IN_TARGET
+ */
+export function emitForTarget(body: QueryDSL, target: SearchTarget): QueryDSL {
+  if (body.query) body.query = emitQuery(body.query, 'query', target)
+  if (body.post_filter) {
+    body.post_filter = emitQuery(body.post_filter, 'post_filter', target)
+  }
+  body.rescore?.forEach((rescore, index) => {
+    rescore.query.rescore_query = emitQuery(
+      rescore.query.rescore_query,
+      `rescore[${index}].query.rescore_query`,
+      target
+    )
+  })
+  emitAggs(body.aggs, 'aggs', target)
+  emitAggs(body.aggregations, 'aggregations', target)
+
+  if (body.runtime_mappings) {
+    requireCapability(target, 'runtimeFields', 'runtime_mappings')
+  }
+  if (body.pit) requireCapability(target, 'pointInTime', 'pit')
+  Object.values(body.script_fields || {}).forEach((field: any) => {
+    if (field?.script) field.script = emitScript(field.script, target)
+  })
+
+  if (body.knn) {
+    requireCapability(target, 'topLevelKnn', 'knn')
+    const sections = Array.isArray(body.knn) ? body.knn : [body.knn]
+    sections.forEach((knn, index) => {
+      if (knn.filter) {
+        knn.filter = emitQuery(knn.filter, `knn[${index}].filter`, target)
+      }
+    })
+    if (!targetSupports(target, 'multipleKnn')) {
+      if (sections.length > 1) {
+        requireCapability(target, 'multipleKnn', 'knn')
+      }
+      body.knn = sections[0]
+    }
+  }
+  return body
+}
@@ -0,0 +1,350 @@
+import {
+  QueryDSL,
+  TemplateParamOptions,
+  StoredScriptBody,
+  SearchTemplateRequest,
+} from './types'
+import { ValidationError } from './validation'
+
+const CONTEXT = 'SearchTemplate'
+
+// Mustache names: identifiers with dotted lookups, or `.` for the section item
+const PARAM_NAME = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z0-9_]+)*$/
+
+// A whole JSON param, optionally followed by its default; stored as a
+// string while the body is built and unquoted by SearchTemplate.from()
+const JSON_PARAM =
+  /^\{\{#toJson\}\}([\w.]+)\{\{\/toJson\}\}(\{\{\^\1\}\}[^{}]*\{\{\/\1\}\})?$/
+
+type Node =
+  | { type: 'text'; text: string }
+  | { type: 'variable'; name: string; raw: boolean; position: number }
+  | { type: 'toJson'; name: string; position: number }
+  | {
+      type: 'section'
+      name: string
+      inverted: boolean
+      children: Node[]
+      position: number
+    }
+
+function syntaxError(source: string, position: number, message: string): never {
+  throw new ValidationError(
+    `${message} at position ${position}`,
+    'source',
+    'TEMPLATE_SYNTAX_ERROR',
+    CONTEXT,
+    { source, position }
+  )
+}
+
+function validateParamName(name: any): void {
+  if (typeof name !== 'string' || !PARAM_NAME.test(name)) {
+    throw new ValidationError(
+      `Invalid template parameter name "${name}"`,
+      'name',
+      'INVALID_TEMPLATE_PARAM',
+      'param',
+      { name }
+    )
+  }
+}
+
+/**
+ * Placeholder for a template parameter, usable wherever the builder takes a
+ * value: `term('status', param('status'))`. Strings are substituted inside
+ * their quotes; `json: true` (implied by a non-string default) substitutes
+ * any JSON value with `{{#toJson}}`.
+ */
+export function param<T = any>(
+  name: string,
+  options: TemplateParamOptions = {}
+): T {
+  validateParamName(name)
+  const json =
+    options.json ??
+    (options.default !== undefined && typeof options.default !== 'string')
+
+  let placeholder = json ? `{{#toJson}}${name}{{/toJson}}` : `{{${name}}}`
+  if (options.default !== undefined) {
+    const text = json
+      ? JSON.stringify(options.default)
+      : String(options.default)
+    if (/[{}]{2}/.test(text) || (json && /[{}]/.test(text))) {
+      throw new ValidationError(
+        `Default of template parameter "${name}" cannot contain mustache braces`,
+        'default',
+        'INVALID_TEMPLATE_PARAM',
+        'param',
+        { name, default: options.default }
+      )
+    }
+    placeholder += `{{^${name}}}${text}{{/${name}}}`
+  }
+  return placeholder as unknown as T
+}
+
+function parse(source: string): Node[] {
+  const root: Node[] = []
+  const stack: { name: string; position: number; children: Node[] }[] = []
+  const current = () =>
+    stack.length > 0 ? stack[stack.length - 1].children : root
+
+  let index = 0
+  while (index < source.length) {
+    const open = source.indexOf('{{', index)
+    if (open === -1) {
+      current().push({ type: 'text', text: source.slice(index) })
+      break
+    }
+    if (open > index) {
+      current().push({ type: 'text', text: source.slice(index, open) })
+    }
+
+    const raw = source[open + 2] === '{'
+    const close = source.indexOf(raw ? '}}}' : '}}', open)
+    if (close === -1) {
+      syntaxError(source, open, 'Unclosed mustache tag')
+    }
+    const tag = source.slice(open + (raw ? 3 : 2), close).trim()
+    index = close + (raw ? 3 : 2)
+
+    const sigil = raw ? '' : tag.charAt(0)
+    const name = /^[#^/!]$/.test(sigil) ? tag.slice(1).trim() : tag
+    if (sigil === '!') continue
+    if (/^[>=&<$]$/.test(sigil) || (name !== '.' && !PARAM_NAME.test(name))) {
+      syntaxError(source, open, `Unsupported mustache tag "{{${tag}}}"`)
+    }
+
+    if (sigil === '#' && name === 'toJson') {
+      const end = source.indexOf('{{/toJson}}', index)
+      const target = end === -1 ? '' : source.slice(index, end).trim()
+      if (!PARAM_NAME.test(target)) {
+        syntaxError(source, open, '{{#toJson}} must wrap a parameter name')
+      }
+      current().push({ type: 'toJson', name: target, position: open })
+      index = end + '{{/toJson}}'.length
+    } else if (sigil === '#' || sigil === '^') {
+      const section: Node = {
+        type: 'section',
+        name,
+        inverted: sigil === '^',
+        children: [],
+        position: open,
+      }
+      current().push(section)
+      stack.push({ name, position: open, children: section.children })
+    } else if (sigil === '/') {
+      const section = stack.pop()
+      if (!section || section.name !== name) {
+        syntaxError(source, open, `Unexpected closing tag "{{/${name}}}"`)
+      }
+    } else {
+      current().push({ type: 'variable', name, raw, position: open })
+    }
+  }
+
+  if (stack.length > 0) {
+    const section = stack[stack.length - 1]
+    syntaxError(source, section.position, `Unclosed section "${section.name}"`)
+  }
+  return root
+}
+
+function lookup(contexts: any[], name: string): any {
+  if (name === '.') return contexts[contexts.length - 1]
+  const [head, ...rest] = name.split('.')
+  for (let i = contexts.length - 1; i >= 0; i--) {
+    const context = contexts[i]
+    if (
+      context !== null &&
+      typeof context === 'object' &&
+      Object.prototype.hasOwnProperty.call(context, head)
+    ) {
+      return rest.reduce((value, key) => value?.[key], context[head])
+    }
+  }
+  return undefined
+}
+
+function isFalsy(value: any): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    value === false ||
+    value === '' ||
+    (Array.isArray(value) && value.length === 0)
+  )
+}
+
+function renderNodes(nodes: Node[], contexts: any[]): string {
+  return nodes
+    .map((node) => {
+      if (node.type === 'text') return node.text
+
+      const value = lookup(contexts, node.name)
+      if (node.type === 'toJson') {
+        return value === undefined ? '' : JSON.stringify(value)
+      }
+      if (node.type === 'variable') {
+        if (value === undefined || value === null) return ''
+        if (typeof value === 'object') {
+          throw new ValidationError(
+            `Template parameter "${node.name}" is not a scalar; use {{#toJson}}${node.name}{{/toJson}}`,
+            node.name,
+            'TEMPLATE_PARAM_NOT_SCALAR',
+            CONTEXT,
+            { name: node.name, value }
+          )
+        }
+        // Substituted into JSON, so escape as a JSON string body
+        return node.raw
+          ? String(value)
+          : JSON.stringify(String(value)).slice(1, -1)
+      }
+
+      if (node.inverted) {
+        return isFalsy(value) ? renderNodes(node.children, contexts) : ''
+      }
+      if (isFalsy(value)) return ''
+      const items = Array.isArray(value) ? value : [value]
+      return items
+        .map((item) => renderNodes(node.children, [...contexts, item]))
+        .join('')
+    })
+    .join('')
+}
+
+// Names substituted outside any section, that have no `{{^name}}` default
+function requiredParams(nodes: Node[]): string[] {
+  const defaults = new Set<string>()
+  const collect = (list: Node[]) =>
+    list.forEach((node) => {
+      if (node.type === 'section') {
+        if (node.inverted) defaults.add(node.name)
+        collect(node.children)
+      }
+    })
+  collect(nodes)
+
+  const required = nodes
+    .filter(
+      (node): node is Extract<Node, { name: string }> =>
+        (node.type === 'variable' || node.type === 'toJson') &&
+        node.name !== '.' &&
+        !defaults.has(node.name)
+    )
+    .map((node) => node.name)
+  return [...new Set(required)]
+}
+
+/**
+ * Render a mustache template with the subset the engine's search templates
+ * use: `{{var}}`, `{{{var}}}`, `{{#toJson}}var{{/toJson}}`, sections,
+ * inverted sections (for defaults) and comments
+ */
+export function renderTemplate(
+  source: string,
+  params: Record<string, any> = {}
+): string {
+  return renderNodes(parse(source), [params])
+}
+
+/**
+ * A mustache search template built from a query builder, so stored
+ * templates can be versioned with code and rendered locally in tests
+ */
+export class SearchTemplate {
+  readonly source: string
+  readonly id?: string
+  private nodes: Node[]
+
+  constructor(source: string, id?: string) {
+    this.nodes = parse(source)
+    this.source = source
+    this.id = id
+  }
+
+  /**
+   * Template from a builder, or a built body, holding param() placeholders
+   */
+  static from(
+    body: { build(): QueryDSL } | QueryDSL,
+    id?: string
+  ): SearchTemplate {
+    const dsl =
+      typeof body === 'object' && body !== null && 'build' in body
+        ? body.build()
+        : body
+    const source = JSON.stringify(dsl).replace(
+      /"(?:[^"\\]|\\.)*"/g,
+      (literal) => {
+        const value: string = JSON.parse(literal)
+        return JSON_PARAM.test(value) ? value : literal
+      }
+    )
+    return new SearchTemplate(source, id)
+  }
+
+  /**
+   * Names of the parameters the template substitutes
+   */
+  params(): string[] {
+    const names = new Set<string>()
+    const collect = (nodes: Node[]) =>
+      nodes.forEach((node) => {
+        if (node.type === 'section') collect(node.children)
+        if (node.type !== 'text' && node.name !== '.') names.add(node.name)
+      })
+    collect(this.nodes)
+    return [...names]
+  }
+
+  /**
+   * Render locally into the search body the engine would run
+   */
+  render(params: Record<string, any> = {}): QueryDSL {
+    const missing = requiredParams(this.nodes).filter(
+      (name) => lookup([params], name) === undefined
+    )
+    if (missing.length > 0) {
+      throw new ValidationError(
+        `Missing template parameters: ${missing.join(', ')}`,
+        'params',
+        'TEMPLATE_PARAM_MISSING',
+        CONTEXT,
+        { missing, params }
+      )
+    }
+
+    const rendered = renderNodes(this.nodes, [params])
+    try {
+      return JSON.parse(rendered)
+    } catch (error) {
+      throw new ValidationError(
+        `Rendered template is not valid JSON: ${(error as Error).message}`,
+        'source',
+        'TEMPLATE_RENDER_ERROR',
+        CONTEXT,
+        { rendered, params }
+      )
+    }
+  }
+
+  /**
+   * Body for `PUT _scripts/<id>`
+   */
+  toStoredScript(): StoredScriptBody {
+    return { script: { lang: 'mustache', source: this.source } }
+  }
+
+  /**
+   * Body for `_search/template`: the stored id when the template has one,
+   * otherwise the inline source
+   */
+  toSearchRequest(params: Record<string, any> = {}): SearchTemplateRequest {
+    return this.id !== undefined
+      ? { id: this.id, params }
+      : { source: this.source, params }
+  }
+}
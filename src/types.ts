@@ -1,3 +1,5 @@
+import type { QueryBuilder } from './query-builder'
+
 export type SortOrder = 'asc' | 'desc'
 
 export interface SortOption {
@@ -21,15 +23,162 @@ export interface QueryDSL {
   sort?: SortOption[]
   _source?: string[] | boolean
   aggs?: Record<string, any>
+  // Long form of `aggs` in hand-written bodies; the builder emits `aggs`
+  aggregations?: Record<string, any>
   highlight?: any
   track_total_hits?: boolean
+  search_after?: SortValue[]
+  pit?: PointInTime
+  post_filter?: Record<string, any>
+  collapse?: CollapseDSL
+  rescore?: RescoreDSL[]
+  suggest?: Record<string, SuggesterDSL>
+  script_fields?: Record<string, ScriptFieldDSL>
+  docvalue_fields?: (string | FieldAndFormat)[]
+  stored_fields?: string[] | '_none_'
+  fields?: (string | FieldAndFormat)[]
+  runtime_mappings?: Record<string, RuntimeFieldDSL>
+  // One section without an array before Elasticsearch 8.7
+  knn?: KnnDSL | KnnDSL[]
+  search_pipeline?: Record<string, any>
+}
+
+// Part of an imported DSL body the builder has no method for, kept verbatim
+export interface OpaqueDSLEntry {
+  path: string
+  type: string
+  value: any
+}
+
+export interface FromDSLResult<TBuilder> {
+  builder: TBuilder
+  opaque: OpaqueDSLEntry[]
+}
+
+export interface InnerHitsOptions<TDoc = any> {
+  // Key of the hits under `inner_hits` in the response; join queries
+  // default to the path or type
+  name?: string
+  size?: number
+  from?: number
+  sort?: Partial<Record<SortFieldPath<TDoc>, SortOrder>>[]
+  _source?: FieldPath<TDoc>[] | boolean
+  // Field list or field configs, as for highlight()
+  highlight?: QueryFieldPath<TDoc>[] | Record<string, any>
+}
+
+export interface CollapseOptions<TDoc = any> {
+  innerHits?:
+    | (InnerHitsOptions<TDoc> & { name: string })
+    | (InnerHitsOptions<TDoc> & { name: string })[]
+  maxConcurrentGroupSearches?: number
+}
+
+export interface CollapseDSL {
+  field: string
+  inner_hits?: Record<string, any> | Record<string, any>[]
+  max_concurrent_group_searches?: number
+}
+
+// How a rescorer combines the original and rescore query scores
+export type RescoreScoreMode = 'total' | 'multiply' | 'avg' | 'max' | 'min'
+
+export interface RescoreOptions {
+  queryWeight?: number
+  rescoreQueryWeight?: number
+  scoreMode?: RescoreScoreMode
+}
+
+export interface RescoreDSL {
+  window_size: number
+  query: {
+    rescore_query: any
+    query_weight?: number
+    rescore_query_weight?: number
+    score_mode?: RescoreScoreMode
+  }
+}
+
+export type JoinScoreMode = 'avg' | 'sum' | 'max' | 'min' | 'none'
+
+interface JoinQueryOptions<TDoc> {
+  // `true` returns the matching inner documents with default options
+  innerHits?: InnerHitsOptions<TDoc> | true
+  // Match nothing instead of failing when the path or type is unmapped
+  ignoreUnmapped?: boolean
+}
+
+export interface NestedOptions<TDoc = any> extends JoinQueryOptions<TDoc> {
+  scoreMode?: JoinScoreMode
+}
+
+export interface HasChildOptions<TChild = any>
+  extends JoinQueryOptions<TChild> {
+  scoreMode?: JoinScoreMode
+  minChildren?: number
+  maxChildren?: number
+}
+
+export interface HasParentOptions<TParent = any>
+  extends JoinQueryOptions<TParent> {
+  // Score children by their parent's relevance instead of a constant
+  score?: boolean
+}
+
+// Sanitization applied by QueryBuilder.userInput()
+export interface UserInputOptions {
+  // Wildcard patterns starting with * or ?: 'reject' throws, 'strip' drops them
+  leadingWildcard?: 'reject' | 'strip'
+  maxRegexpLength?: number
+  // Escape query_string and simple_query_string syntax so input is literal
+  escapeQuerySyntax?: boolean
 }
 
-export interface RangeQuery {
-  gte?: any
-  gt?: any
-  lte?: any
-  lt?: any
+// Lucene syntax features that LuceneOptions.allowedOperators can restrict
+export type LuceneOperator =
+  | 'and'
+  | 'or'
+  | 'not'
+  | 'required'
+  | 'prohibited'
+  | 'group'
+  | 'range'
+  | 'wildcard'
+  | 'fuzzy'
+  | 'phrase'
+  | 'proximity'
+  | 'regexp'
+  | 'boost'
+
+export interface LuceneOptions<TField extends string = string> {
+  // Fields searched by terms without a `field:` prefix
+  defaultFields?: TField[]
+  defaultOperator?: 'AND' | 'OR'
+  allowedFields?: TField[]
+  allowedOperators?: LuceneOperator[]
+  allowLeadingWildcard?: boolean
+}
+
+// Sort value of a hit, as returned in `hit.sort` and sent as `search_after`
+export type SortValue = string | number | boolean | null
+
+export interface PointInTime {
+  id: string
+  keep_alive?: string
+}
+
+// Bool clause a leaf query is placed in: must scores, filter does not
+export type ClauseContext = 'must' | 'filter'
+
+export interface ClauseOptions {
+  context?: ClauseContext
+}
+
+export interface RangeQuery<TValue = any> {
+  gte?: TValue
+  gt?: TValue
+  lte?: TValue
+  lt?: TValue
   boost?: number
 }
 
@@ -71,7 +220,9 @@ export interface GeoPolygon {
 export interface NestedQuery {
   path: string
   query: any
-  score_mode?: 'avg' | 'sum' | 'max' | 'min' | 'none'
+  score_mode?: JoinScoreMode
+  ignore_unmapped?: boolean
+  inner_hits?: Record<string, any>
 }
 
 // Function score interfaces
@@ -125,5 +276,822 @@ export interface HistogramAggregation {
   min_doc_count?: number
 }
 
+// Pipeline aggregation interfaces
+export type GapPolicy = 'skip' | 'insert_zeros' | 'keep_values'
+
+// Path to a metric: 'agg>sub_agg.metric', '_count', or a named map for scripts
+export type BucketsPath = string | Record<string, string>
+
+export interface PipelineOptions {
+  gapPolicy?: GapPolicy
+  format?: string
+}
+
+export interface BucketSortOptions {
+  sort?: Array<string | Record<string, SortOrder | { order: SortOrder }>>
+  from?: number
+  size?: number
+  gapPolicy?: GapPolicy
+}
+
+// Composite aggregation interfaces
+export interface CompositeSourceOptions {
+  order?: SortOrder
+  missing_bucket?: boolean
+}
+
+export interface CompositeTermsSource<TField = string> {
+  terms: { field: TField } & CompositeSourceOptions
+}
+
+export interface CompositeHistogramSource<TField = string> {
+  histogram: { field: TField; interval: number } & CompositeSourceOptions
+}
+
+export interface CompositeDateHistogramSource<TField = string> {
+  date_histogram: {
+    field: TField
+    calendar_interval?: string
+    fixed_interval?: string
+    format?: string
+    time_zone?: string
+  } & CompositeSourceOptions
+}
+
+// One named value source, e.g. `{ brand: { terms: { field: 'brand' } } }`
+export type CompositeSource<TDoc = any> = Record<
+  string,
+  | CompositeTermsSource<QueryFieldPath<TDoc>>
+  | CompositeHistogramSource<RangeFieldPath<TDoc>>
+  | CompositeDateHistogramSource<RangeFieldPath<TDoc>>
+>
+
+export type CompositeAfterKey = Record<string, any>
+
+// Executes a search body and resolves with the raw response
+export type SearchTransport = (body: QueryDSL) => Promise<any>
+
+// ========================================
+// FIELD RETRIEVAL
+// ========================================
+
+export interface FieldAndFormat<TField extends string = string> {
+  field: TField
+  // Date pattern or `epoch_millis` for dates, DecimalFormat for numbers
+  format?: string
+  include_unmapped?: boolean
+}
+
+export interface ScriptFieldOptions {
+  params?: Record<string, any>
+  lang?: string
+  ignoreFailure?: boolean
+}
+
+export interface ScriptFieldDSL {
+  script: { source: string; lang?: string; params?: Record<string, any> }
+  ignore_failure?: boolean
+}
+
+export type RuntimeFieldType =
+  | 'keyword'
+  | 'long'
+  | 'double'
+  | 'date'
+  | 'boolean'
+  | 'ip'
+  | 'geo_point'
+
+/**
+ * Document value type of a runtime field, for typed builders
+ */
+export type RuntimeFieldValue<T extends RuntimeFieldType> = T extends
+  | 'long'
+  | 'double'
+  ? number
+  : T extends 'date'
+  ? Date
+  : T extends 'boolean'
+  ? boolean
+  : T extends 'geo_point'
+  ? GeoPoint
+  : string
+
+export interface RuntimeFieldOptions {
+  // Painless script calling emit(); without one the field reads _source
+  script?: string
+  params?: Record<string, any>
+  format?: string
+}
+
+export interface RuntimeFieldDSL {
+  type: RuntimeFieldType
+  script?: { source: string; params?: Record<string, any> }
+  format?: string
+}
+
+// ========================================
+// VECTOR SEARCH
+// ========================================
+
+export interface KnnOptions<TDoc = any> {
+  k: number
+  // Candidates per shard, at least k (Elasticsearch)
+  numCandidates?: number
+  // Pre-filter: only documents matching it are candidates
+  filter?: (builder: QueryBuilder<TDoc>) => void
+  similarity?: number
+  boost?: number
+  // Expected vector length, e.g. the `dims` of the vector field
+  dimensions?: number
+}
+
+export type KnnQueryOptions<TDoc = any> = Omit<
+  KnnOptions<TDoc>,
+  'numCandidates' | 'similarity'
+>
+
+export interface NeuralOptions<TDoc = any> {
+  k: number
+  // Defaults to the model of the index's neural search pipeline
+  modelId?: string
+  filter?: (builder: QueryBuilder<TDoc>) => void
+  boost?: number
+}
+
+export interface KnnDSL {
+  field: string
+  query_vector: number[]
+  k: number
+  num_candidates?: number
+  filter?: any
+  similarity?: number
+  boost?: number
+}
+
+export type HybridNormalization = 'min_max' | 'l2'
+
+export type HybridCombination =
+  | 'arithmetic_mean'
+  | 'geometric_mean'
+  | 'harmonic_mean'
+
+export interface HybridOptions {
+  // One weight per sub-query, summing to 1
+  weights?: number[]
+  normalization?: HybridNormalization
+  combination?: HybridCombination
+}
+
+// ========================================
+// AGGREGATION RESULTS
+// ========================================
+
+export interface MetricAggregationResult {
+  value: number | null
+  value_as_string?: string
+}
+
+export interface CountAggregationResult {
+  value: number
+}
+
+export interface StatsAggregationResult {
+  count: number
+  min: number | null
+  max: number | null
+  avg: number | null
+  sum: number
+}
+
+export interface BucketMetricAggregationResult extends MetricAggregationResult {
+  keys: string[]
+}
+
+export type SingleBucketAggregationResult<TChildren = {}> = {
+  doc_count: number
+} & TChildren
+
+export interface TermsAggregationResult<TChildren = {}> {
+  doc_count_error_upper_bound?: number
+  sum_other_doc_count?: number
+  buckets: Array<
+    {
+      key: string | number
+      key_as_string?: string
+      doc_count: number
+    } & TChildren
+  >
+}
+
+export interface DateHistogramAggregationResult<TChildren = {}> {
+  buckets: Array<
+    { key: number; key_as_string: string; doc_count: number } & TChildren
+  >
+}
+
+export interface HistogramAggregationResult<TChildren = {}> {
+  buckets: Array<{ key: number; doc_count: number } & TChildren>
+}
+
+export interface RangeAggregationResult<TChildren = {}> {
+  buckets: Array<
+    {
+      key: string
+      from?: number
+      to?: number
+      from_as_string?: string
+      to_as_string?: string
+      doc_count: number
+    } & TChildren
+  >
+}
+
+export interface FiltersAggregationResult<
+  TKeys extends string = string,
+  TChildren = {}
+> {
+  buckets: Record<TKeys, SingleBucketAggregationResult<TChildren>>
+}
+
+export interface CompositeAggregationResult<TChildren = Record<string, any>> {
+  after_key?: CompositeAfterKey
+  buckets: Array<{ key: CompositeAfterKey; doc_count: number } & TChildren>
+}
+
+/**
+ * Type-level record of the aggregations registered on a builder. Never set
+ * at runtime; aggregation helpers narrow it so responses can be typed.
+ */
+export interface AggregationMarker<TAggs> {
+  readonly __aggs?: TAggs
+}
+
+/**
+ * Builder type with one more aggregation result recorded
+ */
+export type WithAggregation<
+  TBuilder,
+  TName extends string,
+  TResult
+> = TBuilder & AggregationMarker<{ [K in TName]: TResult }>
+
+/**
+ * Builder type with the `_source` selection recorded
+ */
+export type WithSource<TBuilder, TSource> = TBuilder & {
+  readonly __source?: TSource
+}
+
+/**
+ * Builder type that also accepts a runtime field wherever it takes a
+ * document field
+ */
+export type WithRuntimeField<
+  TBuilder,
+  TDoc,
+  TName extends string,
+  TValue
+> = TBuilder & QueryBuilder<TDoc & { [K in TName]: TValue }>
+
+export type DocumentOf<TBuilder> = TBuilder extends {
+  readonly __doc?: infer TDoc
+}
+  ? NonNullable<TDoc>
+  : any
+
+export type AggregationsOf<TBuilder> = TBuilder extends AggregationMarker<
+  infer TAggs
+>
+  ? NonNullable<TAggs>
+  : {}
+
+// ========================================
+// SUGGESTERS
+// ========================================
+
+export type SuggestMode = 'missing' | 'popular' | 'always'
+
+export interface TermSuggestOptions {
+  size?: number
+  sort?: 'score' | 'frequency'
+  suggestMode?: SuggestMode
+  maxEdits?: 1 | 2
+  prefixLength?: number
+  minWordLength?: number
+  minDocFreq?: number
+}
+
+export interface DirectGenerator<TField extends string = string> {
+  field: TField
+  suggestMode?: SuggestMode
+  minWordLength?: number
+  prefixLength?: number
+}
+
+export interface PhraseSuggestOptions<TDoc = any> {
+  size?: number
+  gramSize?: number
+  confidence?: number
+  maxErrors?: number
+  realWordErrorLikelihood?: number
+  highlight?: { preTag: string; postTag: string }
+  directGenerators?: DirectGenerator<QueryFieldPath<TDoc>>[]
+  // Keep only corrections the query built here matches; write the
+  // candidate as `{{suggestion}}`. `prune` returns the rest flagged instead.
+  collate?: {
+    query: (builder: QueryBuilder<TDoc>) => void
+    params?: Record<string, any>
+    prune?: boolean
+  }
+}
+
+export interface CompletionContext {
+  context: string | { lat: number; lon: number }
+  boost?: number
+  prefix?: boolean
+  precision?: number | string
+}
+
+export interface CompletionSuggestOptions {
+  size?: number
+  skipDuplicates?: boolean
+  fuzzy?:
+    | boolean
+    | {
+        fuzziness?: number | 'AUTO'
+        transpositions?: boolean
+        minLength?: number
+        prefixLength?: number
+        unicodeAware?: boolean
+      }
+  // Category or geo contexts by context name
+  contexts?: Record<string, string | (string | CompletionContext)[]>
+}
+
+export interface SuggesterDSL {
+  text?: string
+  prefix?: string
+  term?: Record<string, any>
+  phrase?: Record<string, any>
+  completion?: Record<string, any>
+}
+
+export interface TermSuggestion {
+  text: string
+  score: number
+  freq: number
+}
+
+export interface PhraseSuggestion {
+  text: string
+  score: number
+  highlighted?: string
+  // Set with collate prune
+  collate_match?: boolean
+}
+
+export interface CompletionSuggestion<TSource = any> {
+  text: string
+  _index: string
+  _id: string
+  _score: number
+  _source: TSource
+  contexts?: Record<string, string[]>
+}
+
+/**
+ * Suggestions for one token (term) or the whole text (phrase, completion)
+ */
+export interface SuggestEntry<TOption> {
+  text: string
+  offset: number
+  length: number
+  options: TOption[]
+}
+
+/**
+ * Type-level record of the suggesters registered on a builder, by name
+ */
+export interface SuggestMarker<TSuggest> {
+  readonly __suggest?: TSuggest
+}
+
+export type WithSuggester<TBuilder, TName extends string, TOption> = TBuilder &
+  SuggestMarker<{ [K in TName]: TOption }>
+
+export type SuggestionsOf<TBuilder> = TBuilder extends SuggestMarker<
+  infer TSuggest
+>
+  ? {
+      [K in keyof NonNullable<TSuggest>]: SuggestEntry<
+        NonNullable<TSuggest>[K]
+      >[]
+    }
+  : {}
+
+// ========================================
+// SEARCH TEMPLATES
+// ========================================
+
+export interface TemplateParamOptions {
+  // Rendered when the parameter is missing
+  default?: any
+  // Substitute any JSON value instead of text inside a string
+  json?: boolean
+}
+
+export interface StoredScriptBody {
+  script: { lang: 'mustache'; source: string }
+}
+
+export type SearchTemplateRequest =
+  | { id: string; params: Record<string, any> }
+  | { source: string; params: Record<string, any> }
+
+// ========================================
+// FACETS
+// ========================================
+
+export interface TermsFacetOptions<TField extends string = string> {
+  field: TField
+  size?: number
+}
+
+export interface RangeFacetOptions<TField extends string = string> {
+  field: TField
+  // Selected by key; `from` is inclusive and `to` exclusive
+  ranges: Array<{ key: string; from?: number; to?: number }>
+}
+
+export interface HierarchyFacetOptions<TField extends string = string> {
+  // One field per level, each holding the full path ("A > B") to that level
+  fields: TField[]
+  separator?: string
+  size?: number
+}
+
+export interface FacetOption {
+  value: string
+  count: number
+  selected: boolean
+  // Next hierarchy level, present below selected options
+  children?: FacetOption[]
+}
+
+export type FacetResults = Record<string, FacetOption[]>
+
+// ========================================
+// SEARCH RESPONSES
+// ========================================
+
+export interface SearchHit<TSource = any> {
+  _index: string
+  _id: string
+  _score: number | null
+  _source: TSource
+  sort?: any[]
+  highlight?: Record<string, string[]>
+  fields?: Record<string, any[]>
+  inner_hits?: Record<string, any>
+  // Position of a nested inner hit within its parent document
+  _nested?: { field: string; offset: number; _nested?: any }
+}
+
+/**
+ * A hit with its inner hits flattened by name, see flattenInnerHits()
+ */
+export interface FlattenedHit<TSource = any> extends SearchHit<TSource> {
+  innerHits: Record<string, FlattenedHit[]>
+}
+
+export interface SearchResponse<TSource = any, TAggs = Record<string, any>> {
+  took?: number
+  timed_out?: boolean
+  _shards?: Record<string, any>
+  hits: {
+    total?: { value: number; relation: 'eq' | 'gte' }
+    max_score: number | null
+    hits: SearchHit<TSource>[]
+  }
+  aggregations: TAggs
+}
+
+// One collapsed result with its expanded inner hits
+export interface CollapsedGroup<TSource = any> {
+  // Value of the collapse field shared by the group
+  key: unknown
+  hit: SearchHit<TSource>
+  innerHits: Record<string, { total: number; hits: SearchHit<TSource>[] }>
+}
+
+// ========================================
+// RESULT FUSION
+// ========================================
+
+export type FusionMethod = 'rrf' | 'min_max' | 'z_score' | 'convex'
+
+/**
+ * A named or weighted result list to fuse; `results` is a search response
+ * (or `{ body }` client result) or its hits
+ */
+export interface FusionList {
+  name?: string
+  results: unknown
+  weight?: number
+}
+
+export interface FusionOptions {
+  // Default 'rrf'
+  method?: FusionMethod
+  // k in 1 / (k + rank); default 60
+  rankConstant?: number
+  // Per list, instead of `weight` on each input
+  weights?: number[]
+  size?: number
+}
+
+export interface FusedHit<TSource = any> extends SearchHit<TSource> {
+  _score: number
+  _fusion: {
+    // 1-based rank in each list that returned the hit, by list name
+    ranks: Record<string, number>
+    // Weighted contribution of each of those lists to the fused score
+    scores: Record<string, number>
+  }
+}
+
+// ========================================
+// SEARCH TARGETS
+// ========================================
+
+export type SearchEngine = 'elasticsearch' | 'opensearch'
+
+/**
+ * The engine and version build() emits DSL for, e.g.
+ * `{ engine: 'opensearch', version: '2.11' }`
+ */
+export interface SearchTarget {
+  engine: SearchEngine
+  version: string
+}
+
+/**
+ * Request features whose syntax or availability differs between engines
+ * and versions
+ */
+export type TargetCapability =
+  | 'calendarInterval'
+  | 'geoPolygon'
+  | 'runtimeFields'
+  | 'pointInTime'
+  | 'topLevelKnn'
+  | 'multipleKnn'
+  | 'knnQuery'
+  | 'neuralQuery'
+  | 'hybridQuery'
+  | 'vectorFunctionFieldNames'
+
+// ========================================
+// INDEX MAPPINGS
+// ========================================
+
+// A field of a loaded index mapping, including multi-fields and runtime fields
+export interface MappedField {
+  path: string
+  type: string
+  // Innermost `nested` object the field belongs to
+  nestedPath?: string
+}
+
+// A clause or aggregation that does not fit the index mapping
+export interface SchemaIssue {
+  code: string
+  // JSON path of the clause in the request body
+  path: string
+  field: string
+  message: string
+}
+
+// ========================================
+// QUERY LINTING
+// ========================================
+
+export type LintSeverity = 'error' | 'warning' | 'info'
+
+// A query clause of the linted body and where it sits
+export interface LintClause {
+  // Clause type, e.g. `wildcard` or `bool`
+  type: string
+  // The clause object, `{ [type]: body }`
+  clause: Record<string, any>
+  // JSON path of the clause object, e.g. `query.bool.must[0]`
+  path: string
+  // Bool occurrence holding the clause, with its array and bool body
+  occurrence?: 'must' | 'filter' | 'should' | 'must_not'
+  siblings?: any[]
+  bool?: Record<string, any>
+  // Whether the clause only filters, so it is not scored
+  filterContext: boolean
+}
+
+// An aggregation of the linted body
+export interface LintAggregation {
+  name: string
+  type?: string
+  agg: Record<string, any>
+  // JSON path of the aggregation, e.g. `aggs.by_user`
+  path: string
+}
+
+export interface LintContext {
+  clauses: LintClause[]
+  aggregations: LintAggregation[]
+}
+
+// What a rule reports; `fix` edits the linted copy of the body in place
+export interface LintFinding {
+  path: string
+  message: string
+  fix?: () => void
+}
+
+/**
+ * A lint rule: check() looks at a built request body, with its clauses
+ * and aggregations already collected, and returns what it finds
+ */
+export interface LintRule {
+  name: string
+  severity: LintSeverity
+  check(body: QueryDSL, context: LintContext): LintFinding[]
+}
+
+export interface LintIssue {
+  rule: string
+  severity: LintSeverity
+  // JSON path in the request body
+  path: string
+  message: string
+  fixable: boolean
+}
+
+export interface LintOptions {
+  // Severity per rule name, or 'off' to skip the rule
+  rules?: Record<string, LintSeverity | 'off'>
+  // Rules to run beside the built-in ones
+  plugins?: LintRule[]
+  // Largest from + size (default 10000, as index.max_result_window)
+  maxResultWindow?: number
+  // Largest terms aggregation size (default 1000)
+  maxTermsSize?: number
+  // Field names, `*` globs or patterns regexp queries should avoid;
+  // replaces the default of id, uuid, email, url and hash fields
+  highCardinalityFields?: (string | RegExp)[]
+}
+
+export interface LintFixResult {
+  body: QueryDSL
+  // Issues whose fix was applied
+  fixed: LintIssue[]
+  // Issues of the fixed body
+  issues: LintIssue[]
+}
+
+// ========================================
+// DOCUMENT FIELD PATHS
+// ========================================
+
+type Primitive = string | number | boolean | bigint | symbol | null | undefined
+
+// Values indexed as a single field rather than as an object
+type LeafValue = Primitive | Date
+
+type IsAny<T> = 0 extends 1 & T ? true : false
+
+// Arrays are flattened at index time, so paths go through their elements
+type FieldElement<T> = NonNullable<T> extends ReadonlyArray<infer E>
+  ? NonNullable<E>
+  : NonNullable<T>
+
+// Caps recursion so self-referencing document types stay finite
+type PrevDepth = [never, 0, 1, 2, 3, 4, 5]
+
+type DocumentPaths<T, Depth extends number = 6> = [Depth] extends [never]
+  ? never
+  : {
+      [K in keyof T & string]-?: FieldElement<T[K]> extends infer V
+        ? IsAny<V> extends true
+          ? K | `${K}.${string}`
+          : V extends LeafValue
+          ? K
+          : K | `${K}.${DocumentPaths<V, PrevDepth[Depth]>}`
+        : never
+    }[keyof T & string]
+
+type PathValue<T, P extends string> = P extends keyof T
+  ? FieldElement<T[P]>
+  : P extends `${infer K}.${infer Rest}`
+  ? K extends keyof T
+    ? PathValue<FieldElement<T[K]>, Rest>
+    : never
+  : never
+
+// Date fields also accept date strings and date math ('now-1d')
+type QueryValue<V> = V extends Date ? Date | string : V
+
+type PathsOfType<TDoc, TValue> = {
+  [P in DocumentPaths<TDoc>]: PathValue<TDoc, P> extends TValue ? P : never
+}[DocumentPaths<TDoc>]
+
+/**
+ * Dotted path of any field in the document, including object fields.
+ * Resolves to `string` for untyped builders.
+ */
+export type FieldPath<TDoc> = IsAny<TDoc> extends true
+  ? string
+  : DocumentPaths<TDoc>
+
+/**
+ * `.keyword` sub-field of a string field
+ */
+export type KeywordFieldPath<TDoc> = IsAny<TDoc> extends true
+  ? string
+  : `${PathsOfType<TDoc, string>}.keyword`
+
+/**
+ * Field usable in term-level, full-text and bucket aggregation clauses
+ */
+export type QueryFieldPath<TDoc> = FieldPath<TDoc> | KeywordFieldPath<TDoc>
+
+/**
+ * Numeric or date field, as required by range queries and numeric aggregations
+ */
+export type RangeFieldPath<TDoc> = IsAny<TDoc> extends true
+  ? string
+  : PathsOfType<TDoc, number | bigint | Date>
+
+/**
+ * Field usable in sort clauses
+ */
+export type SortFieldPath<TDoc> = QueryFieldPath<TDoc> | '_score' | '_doc'
+
+/**
+ * Field with an optional boost suffix, e.g. 'title^3'
+ */
+export type BoostedFieldPath<TDoc> =
+  | QueryFieldPath<TDoc>
+  | `${QueryFieldPath<TDoc>}^${number}`
+
+/**
+ * Value type stored at a field path. Array fields resolve to their element type.
+ */
+export type FieldValue<TDoc, P extends string> = IsAny<TDoc> extends true
+  ? any
+  : P extends DocumentPaths<TDoc>
+  ? QueryValue<PathValue<TDoc, P>>
+  : P extends `${infer Base}.keyword`
+  ? QueryValue<PathValue<TDoc, Base>>
+  : never
+
+type UnionToIntersection<U> = (
+  U extends any ? (value: U) => void : never
+) extends (value: infer I) => void
+  ? I
+  : never
+
+type PickPathElement<V, Rest extends string> = V extends ReadonlyArray<infer E>
+  ? Array<PickPathElement<E, Rest>>
+  : V extends LeafValue
+  ? V
+  : PickPath<V, Rest>
+
+type PickPath<T, P extends string> = P extends `${infer K}.${infer Rest}`
+  ? {
+      [Key in keyof T as Key extends K ? Key : never]: PickPathElement<
+        T[Key],
+        Rest
+      >
+    }
+  : { [Key in keyof T as Key extends P ? Key : never]: T[Key] }
+
+/**
+ * Document narrowed to the given `_source` field paths
+ */
+export type SourcePick<TDoc, P extends string> = IsAny<TDoc> extends true
+  ? any
+  : UnionToIntersection<P extends any ? PickPath<TDoc, P> : never>
+
+/**
+ * `_source` type of hits returned for a builder: the picked fields when
+ * `source()` was given paths, otherwise the whole document
+ */
+export type SourceOf<TBuilder, TDoc> = TBuilder extends {
+  readonly __source?: infer TSource
+}
+  ? unknown extends TSource
+    ? TDoc
+    : NonNullable<TSource>
+  : TDoc
+
 // Re-export validation error
 export { ValidationError } from './validation'
@@ -2,6 +2,8 @@
  * Enhanced validation utilities with better error tracking
  */
 
+import { QueryDSL } from './types'
+
 export class ValidationError extends Error {
   public readonly code: string
   public readonly context: string
@@ -347,7 +349,8 @@ export function validateSortOrder(order: any): void {
 export function validatePaginationParams(
   from?: any,
   size?: any,
-  context?: string
+  context?: string,
+  maxSize: number = MAX_RESULT_WINDOW
 ): void {
   const validationContext = context || 'validatePaginationParams'
 
@@ -374,18 +377,227 @@ export function validatePaginationParams(
       )
     }
 
-    if (size > 10000) {
+    if (size > maxSize) {
       throw new ValidationError(
-        'size parameter cannot exceed 10000 (Elasticsearch limit)',
+        `size parameter cannot exceed ${maxSize} (Elasticsearch limit)`,
         'size',
         'SIZE_EXCEEDS_LIMIT',
         validationContext,
-        { size, limit: 10000 }
+        { size, limit: maxSize }
       )
     }
   }
 }
 
+// Default index.max_result_window
+export const MAX_RESULT_WINDOW = 10000
+
+export function validateResultWindow(
+  from?: number,
+  size?: number,
+  maxResultWindow: number = MAX_RESULT_WINDOW
+): void {
+  const window = (from || 0) + (size ?? 10)
+  if (window > maxResultWindow) {
+    throw new ValidationError(
+      `from + size cannot exceed ${maxResultWindow} (max_result_window); use searchAfter() for deep pagination`,
+      'from',
+      'RESULT_WINDOW_EXCEEDED',
+      'validateResultWindow',
+      { from, size, window, limit: maxResultWindow }
+    )
+  }
+}
+
+export function validateSearchAfter(query: QueryDSL): void {
+  const context = 'validateSearchAfter'
+  const searchAfter = query.search_after
+  if (searchAfter === undefined) return
+
+  if (query.from) {
+    throw new ValidationError(
+      'search_after cannot be combined with a from offset',
+      'from',
+      'SEARCH_AFTER_WITH_FROM',
+      context,
+      { from: query.from, searchAfter }
+    )
+  }
+
+  const sort = query.sort || []
+  if (sort.length === 0) {
+    throw new ValidationError(
+      'search_after requires a sort',
+      'sort',
+      'SEARCH_AFTER_REQUIRES_SORT',
+      context,
+      { searchAfter }
+    )
+  }
+
+  if (searchAfter.length !== sort.length) {
+    throw new ValidationError(
+      `search_after has ${searchAfter.length} values but the sort has ${sort.length} fields`,
+      'search_after',
+      'SEARCH_AFTER_SORT_MISMATCH',
+      context,
+      { searchAfter, sort }
+    )
+  }
+}
+
+/**
+ * Check inner_hits definitions: each needs a unique name, since the
+ * response keys the expanded hits by it
+ */
+export function validateInnerHits(innerHits: any[]): void {
+  const context = 'validateInnerHits'
+  const names = new Set<string>()
+
+  innerHits.forEach((options, index) => {
+    const name = options?.name
+    if (typeof name !== 'string' || name.trim().length === 0) {
+      throw new ValidationError(
+        `inner_hits at index ${index} requires a name`,
+        'name',
+        'INVALID_INNER_HITS_NAME',
+        context,
+        { index, options }
+      )
+    }
+    if (names.has(name)) {
+      throw new ValidationError(
+        `Duplicate inner_hits name "${name}"`,
+        'name',
+        'DUPLICATE_INNER_HITS_NAME',
+        context,
+        { name }
+      )
+    }
+    names.add(name)
+    validatePaginationParams(options.from, options.size, context)
+  })
+}
+
+/**
+ * Check collapse against the rest of the request. The engine only pages a
+ * collapsed search with search_after when it is sorted on the collapse
+ * field alone.
+ */
+export function validateCollapse(query: QueryDSL): void {
+  const collapse = query.collapse
+  if (!collapse || query.search_after === undefined) return
+
+  const sortFields = (query.sort || []).map((option) => Object.keys(option)[0])
+  if (sortFields.length !== 1 || sortFields[0] !== collapse.field) {
+    throw new ValidationError(
+      `search_after with collapse requires sorting on the collapse field "${collapse.field}" only`,
+      'sort',
+      'COLLAPSE_SORT_MISMATCH',
+      'validateCollapse',
+      { field: collapse.field, sort: sortFields }
+    )
+  }
+}
+
+/**
+ * Check a query vector: a non-empty array of finite numbers, of the
+ * expected length when `dimensions` is given
+ */
+export function validateVector(
+  vector: any,
+  dimensions?: number,
+  methodContext: string = 'knn'
+): void {
+  const context = `validateVector:${methodContext}`
+  if (
+    !Array.isArray(vector) ||
+    vector.length === 0 ||
+    !vector.every((value) => typeof value === 'number' && isFinite(value))
+  ) {
+    throw new ValidationError(
+      'Query vector must be a non-empty array of finite numbers',
+      'vector',
+      'INVALID_VECTOR',
+      context,
+      { length: Array.isArray(vector) ? vector.length : undefined }
+    )
+  }
+  if (dimensions !== undefined && vector.length !== dimensions) {
+    throw new ValidationError(
+      `Query vector has ${vector.length} dimensions; the field has ${dimensions}`,
+      'vector',
+      'VECTOR_DIMENSION_MISMATCH',
+      context,
+      { length: vector.length, dimensions }
+    )
+  }
+}
+
+// Whether a query DSL fragment contains a clause of the given type
+function containsClause(node: any, type: string): boolean {
+  if (Array.isArray(node))
+    return node.some((item) => containsClause(item, type))
+  if (node === null || typeof node !== 'object') return false
+  return Object.keys(node).some(
+    (key) => key === type || containsClause(node[key], type)
+  )
+}
+
+/**
+ * Check that a hybrid query is the whole top-level query, as the engine
+ * requires; clauses added after hybrid() would nest it in a bool
+ */
+export function validateHybrid(query: QueryDSL): void {
+  const top: any = query.query
+  if (top?.hybrid || !containsClause(top, 'hybrid')) return
+
+  throw new ValidationError(
+    'hybrid query must be the top-level query; add clauses inside its sub-queries',
+    'query',
+    'HYBRID_NOT_TOP_LEVEL',
+    'validateHybrid',
+    { query: top }
+  )
+}
+
+/**
+ * Check that rescorers are not combined with options the engine rejects
+ * alongside them: a sort other than _score descending, or collapse
+ */
+export function validateRescore(query: QueryDSL): void {
+  const context = 'validateRescore'
+  if (!query.rescore?.length) return
+
+  const sort = (query.sort || []).filter((option) => {
+    const field = Object.keys(option)[0]
+    const order = option[field]
+    const direction = typeof order === 'string' ? order : order?.order
+    return (
+      field !== '_score' || (direction !== undefined && direction !== 'desc')
+    )
+  })
+  if (sort.length > 0) {
+    throw new ValidationError(
+      'rescore cannot be combined with a sort other than _score descending',
+      'sort',
+      'RESCORE_SORT_CONFLICT',
+      context,
+      { sort: query.sort }
+    )
+  }
+
+  if (query.collapse) {
+    throw new ValidationError(
+      'rescore cannot be combined with collapse',
+      'collapse',
+      'RESCORE_COLLAPSE_CONFLICT',
+      context,
+      { collapse: query.collapse.field }
+    )
+  }
+}
+
 export function validateArray(
   array: any,
   fieldName: string,
@@ -486,6 +698,23 @@ export function validateMultiMatchType(type?: any): void {
   }
 }
 
+export function validateClauseContext(clauseContext: any): void {
+  const context = 'validateClauseContext'
+  const validContexts = ['must', 'filter']
+
+  if (validContexts.indexOf(clauseContext) === -1) {
+    throw new ValidationError(
+      `Invalid clause context: ${clauseContext}. Valid contexts are: ${validContexts.join(
+        ', '
+      )}`,
+      'context',
+      'INVALID_CLAUSE_CONTEXT',
+      context,
+      { clauseContext, validContexts }
+    )
+  }
+}
+
 export function validateAggregationName(name: any): void {
   const context = 'validateAggregationName'
 
@@ -510,6 +739,220 @@ export function validateAggregationName(name: any): void {
   }
 }
 
+// Pipelines computed per bucket of an enclosing multi-bucket aggregation
+const PARENT_PIPELINE_TYPES = [
+  'derivative',
+  'cumulative_sum',
+  'moving_fn',
+  'bucket_script',
+  'bucket_selector',
+  'bucket_sort',
+  'serial_diff',
+]
+
+// Special path elements resolved by the engine rather than by name
+const SPECIAL_BUCKETS_PATHS = ['_count', '_key', '_bucket_count']
+
+export function validateBucketsPath(bucketsPath: any): void {
+  const context = 'validateBucketsPath'
+  const paths =
+    bucketsPath && typeof bucketsPath === 'object'
+      ? Object.values(bucketsPath)
+      : [bucketsPath]
+
+  if (paths.length === 0) {
+    throw new ValidationError(
+      'buckets_path map must have at least one entry',
+      'buckets_path',
+      'EMPTY_BUCKETS_PATH',
+      context,
+      { bucketsPath }
+    )
+  }
+
+  paths.forEach((path) => {
+    if (typeof path !== 'string' || path.trim().length === 0) {
+      throw new ValidationError(
+        'buckets_path must be a non-empty string',
+        'buckets_path',
+        'INVALID_BUCKETS_PATH',
+        context,
+        { bucketsPath, invalidPath: path, type: typeof path }
+      )
+    }
+
+    if (path.split('>').some((segment) => segment.trim().length === 0)) {
+      throw new ValidationError(
+        `buckets_path "${path}" contains an empty path segment`,
+        'buckets_path',
+        'INVALID_BUCKETS_PATH',
+        context,
+        { bucketsPath, invalidPath: path }
+      )
+    }
+  })
+}
+
+function getAggregationType(aggregation: any): string | undefined {
+  return Object.keys(aggregation || {}).find(
+    (key) => key !== 'aggs' && key !== 'aggregations' && key !== 'meta'
+  )
+}
+
+function getSubAggregations(aggregation: any): Record<string, any> {
+  return aggregation?.aggs || aggregation?.aggregations || {}
+}
+
+function hasAggregation(level: Record<string, any>, name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(level, name)
+}
+
+function resolveBucketsPath(
+  level: Record<string, any>,
+  path: string,
+  pipelineName: string
+): void {
+  const segments = path.split('>')
+  let current = level
+
+  segments.forEach((segment, index) => {
+    const isLast = index === segments.length - 1
+    if (isLast && SPECIAL_BUCKETS_PATHS.indexOf(segment) !== -1) {
+      return
+    }
+
+    // Strip a bucket key selector ('sales[hats]') and, on the last
+    // element, a metric suffix ('stats.avg') unless it is part of the name
+    let name = segment.replace(/\[[^\]]*\]$/, '')
+    if (isLast && !hasAggregation(current, name) && name.indexOf('.') !== -1) {
+      name = name.slice(0, name.indexOf('.')).replace(/\[[^\]]*\]$/, '')
+    }
+
+    if (!hasAggregation(current, name)) {
+      throw new ValidationError(
+        `buckets_path "${path}" of aggregation "${pipelineName}" references unknown aggregation "${name}"`,
+        'buckets_path',
+        'BUCKETS_PATH_NOT_FOUND',
+        'validateBucketsPaths',
+        {
+          pipeline: pipelineName,
+          bucketsPath: path,
+          missing: name,
+          available: Object.keys(current),
+        }
+      )
+    }
+    current = getSubAggregations(current[name])
+  })
+}
+
+/**
+ * Check that every pipeline aggregation's buckets_path resolves to an
+ * aggregation in the tree, relative to the pipeline's own level
+ */
+export function validateBucketsPaths(
+  aggs: Record<string, any> | undefined,
+  isRoot = true
+): void {
+  if (!aggs) {
+    return
+  }
+
+  Object.keys(aggs).forEach((name) => {
+    const aggregation = aggs[name]
+    const type = getAggregationType(aggregation)
+    const body = type ? aggregation[type] : undefined
+
+    if (type && PARENT_PIPELINE_TYPES.indexOf(type) !== -1 && isRoot) {
+      throw new ValidationError(
+        `Pipeline aggregation "${name}" (${type}) must be nested inside a multi-bucket aggregation`,
+        'aggs',
+        'PIPELINE_REQUIRES_PARENT',
+        'validateBucketsPaths',
+        { pipeline: name, type }
+      )
+    }
+
+    if (body && body.buckets_path !== undefined) {
+      const paths =
+        typeof body.buckets_path === 'string'
+          ? [body.buckets_path]
+          : Object.values(body.buckets_path)
+      paths.forEach((path: any) => resolveBucketsPath(aggs, path, name))
+    }
+
+    if (type === 'bucket_sort' && Array.isArray(body?.sort)) {
+      body.sort.forEach((sort: any) => {
+        const path = typeof sort === 'string' ? sort : Object.keys(sort)[0]
+        resolveBucketsPath(aggs, path, name)
+      })
+    }
+
+    validateBucketsPaths(getSubAggregations(aggregation), false)
+  })
+}
+
+const COMPOSITE_SOURCE_TYPES = ['terms', 'histogram', 'date_histogram']
+
+export function validateCompositeSources(sources: any): void {
+  const context = 'validateCompositeSources'
+
+  if (!Array.isArray(sources) || sources.length === 0) {
+    throw new ValidationError(
+      'Composite aggregation requires at least one source',
+      'sources',
+      'EMPTY_COMPOSITE_SOURCES',
+      context,
+      { sources }
+    )
+  }
+
+  const seen = new Set<string>()
+  sources.forEach((source: any, index: number) => {
+    const names =
+      source && typeof source === 'object' ? Object.keys(source) : []
+    if (names.length !== 1) {
+      throw new ValidationError(
+        `Composite source at index ${index} must have exactly one name`,
+        'sources',
+        'INVALID_COMPOSITE_SOURCE',
+        context,
+        { source, index }
+      )
+    }
+
+    const name = names[0]
+    if (seen.has(name)) {
+      throw new ValidationError(
+        `Duplicate composite source name: ${name}`,
+        'sources',
+        'DUPLICATE_COMPOSITE_SOURCE',
+        context,
+        { name, index }
+      )
+    }
+    seen.add(name)
+
+    const definition = source[name]
+    const types = Object.keys(definition || {})
+    if (
+      types.length !== 1 ||
+      !COMPOSITE_SOURCE_TYPES.includes(types[0]) ||
+      !definition[types[0]]?.field
+    ) {
+      throw new ValidationError(
+        `Composite source "${name}" must be one of ${COMPOSITE_SOURCE_TYPES.join(
+          ', '
+        )} with a field`,
+        'sources',
+        'INVALID_COMPOSITE_SOURCE',
+        context,
+        { name, source: definition, allowedTypes: COMPOSITE_SOURCE_TYPES }
+      )
+    }
+  })
+}
+
 export function validateMsearchQueries(queries: any): void {
   const context = 'validateMsearchQueries'
 
@@ -0,0 +1,222 @@
+import { AggregationBuilder } from '../src/aggregation-builder'
+import { QueryBuilder } from '../src/query-builder'
+import { ValidationError } from '../src/validation'
+
+describe('AggregationBuilder', () => {
+  let aggs: AggregationBuilder
+
+  beforeEach(() => {
+    aggs = new AggregationBuilder()
+  })
+
+  describe('Sub-aggregations', () => {
+    it('should attach children to a bucket aggregation', () => {
+      const result = aggs
+        .termsAgg('brands', 'brand.keyword', 20, (brand) =>
+          brand.avgAgg('avg_price', 'price').maxAgg('max_price', 'price')
+        )
+        .build()
+
+      expect(result).toEqual({
+        brands: {
+          terms: { field: 'brand.keyword', size: 20 },
+          aggs: {
+            avg_price: { avg: { field: 'price' } },
+            max_price: { max: { field: 'price' } },
+          },
+        },
+      })
+    })
+
+    it('should nest to arbitrary depth', () => {
+      const result = aggs
+        .termsAgg('brands', 'brand.keyword', 10, (brand) =>
+          brand.dateHistogramAgg('per_month', 'created_at', '1M', (month) =>
+            month.avgAgg('avg_price', 'price')
+          )
+        )
+        .build()
+
+      expect(result.brands.aggs.per_month).toEqual({
+        date_histogram: { field: 'created_at', calendar_interval: '1M' },
+        aggs: { avg_price: { avg: { field: 'price' } } },
+      })
+    })
+
+    it('should accept a format before the date histogram callback', () => {
+      const result = aggs
+        .dateHistogramAgg('per_day', 'created_at', '1d', 'yyyy-MM-dd', (day) =>
+          day.sumAgg('revenue', 'price')
+        )
+        .build()
+
+      expect(result.per_day.date_histogram.format).toBe('yyyy-MM-dd')
+      expect(result.per_day.aggs).toEqual({
+        revenue: { sum: { field: 'price' } },
+      })
+    })
+
+    it('should omit aggs when the callback adds nothing', () => {
+      const result = aggs.termsAgg('brands', 'brand', 10, () => {}).build()
+
+      expect(result.brands).toEqual({ terms: { field: 'brand', size: 10 } })
+    })
+
+    it('should attach children to histogram, range and filters aggregations', () => {
+      const result = aggs
+        .histogramAgg('prices', 'price', 50, (h) =>
+          h.valueCountAgg('count', 'id')
+        )
+        .rangeAgg('bands', 'price', [{ to: 10 }], (r) =>
+          r.cardinalityAgg('brands', 'brand')
+        )
+        .filtersAgg('groups', { a: { term: { a: 1 } } }, (f) =>
+          f.minAgg('min_price', 'price')
+        )
+        .build()
+
+      expect(Object.keys(result.prices.aggs)).toEqual(['count'])
+      expect(Object.keys(result.bands.aggs)).toEqual(['brands'])
+      expect(Object.keys(result.groups.aggs)).toEqual(['min_price'])
+    })
+  })
+
+  describe('Wrapper aggregations', () => {
+    it('should build nested with reverse_nested children', () => {
+      const result = aggs
+        .nestedAgg('variants', 'variants', (variant) =>
+          variant.termsAgg('colors', 'variants.color', 10, (color) =>
+            color.reverseNestedAgg('products', (product) =>
+              product.cardinalityAgg('unique_brands', 'brand')
+            )
+          )
+        )
+        .build()
+
+      expect(result).toEqual({
+        variants: {
+          nested: { path: 'variants' },
+          aggs: {
+            colors: {
+              terms: { field: 'variants.color', size: 10 },
+              aggs: {
+                products: {
+                  reverse_nested: {},
+                  aggs: {
+                    unique_brands: { cardinality: { field: 'brand' } },
+                  },
+                },
+              },
+            },
+          },
+        },
+      })
+    })
+
+    it('should accept a reverse_nested path', () => {
+      const result = aggs.reverseNestedAgg('to_parent', 'comments').build()
+
+      expect(result.to_parent).toEqual({
+        reverse_nested: { path: 'comments' },
+      })
+    })
+
+    it('should build global aggregations', () => {
+      const result = aggs
+        .globalAgg('all_products', (all) => all.avgAgg('avg_price', 'price'))
+        .build()
+
+      expect(result.all_products).toEqual({
+        global: {},
+        aggs: { avg_price: { avg: { field: 'price' } } },
+      })
+    })
+
+    it('should build filter aggregations from a callback or raw query', () => {
+      const result = aggs
+        .filterAgg('in_stock', (q) => q.term('in_stock', true))
+        .filterAgg('sale', { term: { sale: true } }, (sale) =>
+          sale.avgAgg('avg_price', 'price')
+        )
+        .build()
+
+      expect(result.in_stock).toEqual({
+        filter: { bool: { filter: [{ term: { 'in_stock.keyword': true } }] } },
+      })
+      expect(result.sale).toEqual({
+        filter: { term: { sale: true } },
+        aggs: { avg_price: { avg: { field: 'price' } } },
+      })
+    })
+  })
+
+  describe('Validation', () => {
+    it('should validate aggregation names at every depth', () => {
+      expect(() =>
+        aggs.termsAgg('brands', 'brand', 10, (b) => b.avgAgg('', 'price'))
+      ).toThrow(ValidationError)
+    })
+
+    it('should validate fields and sizes', () => {
+      expect(() => aggs.nestedAgg('n', '')).toThrow(ValidationError)
+      expect(() => aggs.termsAgg('t', 'brand', 0)).toThrow(
+        'Terms aggregation size must be a positive integer'
+      )
+      expect(() => aggs.filterAgg('f', null as any)).toThrow(
+        'Filter aggregation requires a filter query'
+      )
+    })
+  })
+
+  describe('QueryBuilder integration', () => {
+    it('should merge an aggregation tree into the query', () => {
+      const result = new QueryBuilder()
+        .match('title', 'laptop')
+        .aggs((a) =>
+          a.termsAgg('brands', 'brand', 10, (b) =>
+            b.avgAgg('avg_price', 'price')
+          )
+        )
+        .avgAgg('overall_avg', 'price')
+        .build()
+
+      expect(Object.keys(result.aggs || {})).toEqual(['brands', 'overall_avg'])
+      expect(result.aggs?.brands.aggs.avg_price).toEqual({
+        avg: { field: 'price' },
+      })
+    })
+
+    it('should accept sub-aggregation callbacks on builder helpers', () => {
+      const result = new QueryBuilder()
+        .termsAgg('brands', 'brand', 5, (b) =>
+          b.dateHistogramAgg('per_month', 'created_at', '1M', (m) =>
+            m.avgAgg('avg_price', 'price')
+          )
+        )
+        .nestedAgg('variants', 'variants', (v) =>
+          v.termsAgg('sizes', 'variants.size')
+        )
+        .globalAgg('everything')
+        .build()
+
+      expect(result.aggs?.brands.aggs.per_month.aggs).toEqual({
+        avg_price: { avg: { field: 'price' } },
+      })
+      expect(result.aggs?.variants.aggs.sizes).toEqual({
+        terms: { field: 'variants.size', size: 10 },
+      })
+      expect(result.aggs?.everything).toEqual({ global: {} })
+    })
+
+    it('should keep the aggregation tree independent in clones', () => {
+      const original = new QueryBuilder().termsAgg('brands', 'brand')
+      const cloned = original.clone().avgAgg('avg_price', 'price')
+
+      expect(Object.keys(original.build().aggs || {})).toEqual(['brands'])
+      expect(Object.keys(cloned.build().aggs || {})).toEqual([
+        'brands',
+        'avg_price',
+      ])
+    })
+  })
+})
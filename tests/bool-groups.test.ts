@@ -0,0 +1,256 @@
+import { QueryBuilder } from '../src/query-builder'
+
+describe('Boolean Groups', () => {
+  let builder: QueryBuilder
+
+  beforeEach(() => {
+    builder = new QueryBuilder()
+  })
+
+  describe('bool / allOf', () => {
+    it('should emit a nested bool keeping every clause type', () => {
+      const result = builder
+        .bool((q) => {
+          q.match('title', 'laptop')
+            .term('status', 'active')
+            .should((s) => s.term('brand', 'acme').term('brand', 'globex'))
+            .minimumShouldMatch(1)
+            .mustNot((n) => n.term('hidden', true))
+        })
+        .build()
+
+      expect(result.query?.bool?.must).toEqual([
+        {
+          bool: {
+            must: [{ match: { title: { query: 'laptop' } } }],
+            filter: [{ term: { 'status.keyword': 'active' } }],
+            should: [
+              { term: { 'brand.keyword': 'acme' } },
+              { term: { 'brand.keyword': 'globex' } },
+            ],
+            must_not: [{ term: { 'hidden.keyword': true } }],
+            minimum_should_match: 1,
+          },
+        },
+      ])
+    })
+
+    it('should treat allOf as a bool group', () => {
+      const viaBool = new QueryBuilder()
+        .bool((q) => q.term('a', 1).term('b', 2))
+        .build()
+      const viaAllOf = builder.allOf((q) => q.term('a', 1).term('b', 2)).build()
+
+      expect(viaAllOf).toEqual(viaBool)
+    })
+
+    it('should skip empty groups', () => {
+      const result = builder
+        .bool(() => undefined)
+        .anyOf(() => undefined)
+        .noneOf(() => undefined)
+        .build()
+
+      expect(result.query).toEqual({ match_all: {} })
+    })
+
+    it('should nest groups to any depth', () => {
+      const result = builder
+        .bool((q) =>
+          q.bool((inner) => inner.anyOf((o) => o.term('a', 1).term('b', 2)))
+        )
+        .build()
+
+      expect(result.query?.bool?.must).toEqual([
+        {
+          bool: {
+            must: [
+              {
+                bool: {
+                  must: [
+                    {
+                      bool: {
+                        should: [
+                          { term: { 'a.keyword': 1 } },
+                          { term: { 'b.keyword': 2 } },
+                        ],
+                        minimum_should_match: 1,
+                      },
+                    },
+                  ],
+                },
+              },
+            ],
+          },
+        },
+      ])
+    })
+  })
+
+  describe('anyOf', () => {
+    it('should express (A AND NOT B) OR C', () => {
+      const result = builder
+        .anyOf((o) =>
+          o
+            .allOf((a) => a.term('a', 1).mustNot((n) => n.term('b', 2)))
+            .term('c', 3)
+        )
+        .build()
+
+      expect(result.query?.bool?.must).toEqual([
+        {
+          bool: {
+            should: [
+              {
+                bool: {
+                  filter: [{ term: { 'a.keyword': 1 } }],
+                  must_not: [{ term: { 'b.keyword': 2 } }],
+                },
+              },
+              { term: { 'c.keyword': 3 } },
+            ],
+            minimum_should_match: 1,
+          },
+        },
+      ])
+    })
+
+    it('should wrap must_not clauses as negated alternatives', () => {
+      const result = builder
+        .anyOf((o) => o.term('a', 1).mustNot((n) => n.term('b', 2)))
+        .build()
+
+      expect(result.query?.bool?.must?.[0].bool.should).toEqual([
+        { term: { 'a.keyword': 1 } },
+        { bool: { must_not: [{ term: { 'b.keyword': 2 } }] } },
+      ])
+    })
+
+    it('should keep a non-bool sub query as a single alternative', () => {
+      const result = builder.anyOf((o) => o.matchAll()).build()
+
+      expect(result.query?.bool?.must?.[0].bool.should).toEqual([
+        { match_all: {} },
+      ])
+    })
+  })
+
+  describe('noneOf', () => {
+    it('should emit a must_not group of every alternative', () => {
+      const result = builder
+        .noneOf((n) =>
+          n.term('status', 'draft').anyOf((o) => o.term('a', 1).term('b', 2))
+        )
+        .build()
+
+      expect(result.query?.bool?.must).toEqual([
+        {
+          bool: {
+            must_not: [
+              {
+                bool: {
+                  should: [
+                    { term: { 'a.keyword': 1 } },
+                    { term: { 'b.keyword': 2 } },
+                  ],
+                  minimum_should_match: 1,
+                },
+              },
+              { term: { 'status.keyword': 'draft' } },
+            ],
+          },
+        },
+      ])
+    })
+  })
+
+  describe('should / mustNot preservation', () => {
+    it('should keep should and must_not added inside should()', () => {
+      const result = builder
+        .should((q) =>
+          q
+            .term('a', 1)
+            .mustNot((n) => n.term('b', 2))
+            .should((s) => s.term('c', 3).term('d', 4))
+            .minimumShouldMatch(2)
+        )
+        .build()
+
+      expect(result.query?.bool?.should).toEqual([
+        {
+          bool: {
+            filter: [{ term: { 'a.keyword': 1 } }],
+            must_not: [{ term: { 'b.keyword': 2 } }],
+            should: [
+              { term: { 'c.keyword': 3 } },
+              { term: { 'd.keyword': 4 } },
+            ],
+            minimum_should_match: 2,
+          },
+        },
+      ])
+    })
+
+    it('should keep should and mustNot inside should() as one clause', () => {
+      const result = builder
+        .should((q) =>
+          q.mustNot((n) => n.term('b', 2)).should((s) => s.term('c', 3))
+        )
+        .build()
+
+      expect(result.query?.bool?.should).toEqual([
+        {
+          bool: {
+            should: [{ term: { 'c.keyword': 3 } }],
+            must_not: [{ term: { 'b.keyword': 2 } }],
+          },
+        },
+      ])
+    })
+
+    it('should keep should added inside should() alone as alternatives', () => {
+      const result = builder
+        .should((q) => q.should((s) => s.term('c', 3).term('d', 4)))
+        .build()
+
+      expect(result.query?.bool?.should).toEqual([
+        {
+          bool: {
+            should: [
+              { term: { 'c.keyword': 3 } },
+              { term: { 'd.keyword': 4 } },
+            ],
+          },
+        },
+      ])
+    })
+
+    it('should keep optional should clauses optional inside mustNot()', () => {
+      const result = builder
+        .mustNot((q) =>
+          q.match('title', 'sale').should((s) => s.term('tag', 'new'))
+        )
+        .build()
+
+      expect(result.query?.bool?.must_not).toEqual([
+        {
+          bool: {
+            must: [{ match: { title: { query: 'sale' } } }],
+            should: [{ term: { 'tag.keyword': 'new' } }],
+          },
+        },
+      ])
+    })
+
+    it('should keep must_not added inside mustNot() as a double negation', () => {
+      const result = builder
+        .mustNot((q) => q.term('a', 1).mustNot((n) => n.term('b', 2)))
+        .build()
+
+      expect(result.query?.bool?.must_not).toEqual([
+        { term: { 'a.keyword': 1 } },
+        { bool: { must_not: [{ term: { 'b.keyword': 2 } }] } },
+      ])
+    })
+  })
+})
@@ -0,0 +1,161 @@
+import { QueryBuilder } from '../src/query-builder'
+import { LogsQueryBuilder } from '../src/presets'
+import { ValidationError } from '../src/validation'
+
+describe('Clause Context', () => {
+  let builder: QueryBuilder
+
+  beforeEach(() => {
+    builder = new QueryBuilder()
+  })
+
+  describe('Per-call context option', () => {
+    it('should move filter-by-default clauses into must', () => {
+      const result = builder
+        .term('status', 'active', { context: 'must' })
+        .range('price', { gte: 10 }, { context: 'must' })
+        .exists('brand', { context: 'must' })
+        .geoDistance('location', '5km', 40.7, -74, { context: 'must' })
+        .build()
+
+      expect(result.query?.bool?.filter).toBeUndefined()
+      expect(result.query?.bool?.must).toEqual([
+        { term: { 'status.keyword': 'active' } },
+        { range: { price: { gte: 10 } } },
+        { exists: { field: 'brand' } },
+        {
+          geo_distance: { distance: '5km', location: { lat: 40.7, lon: -74 } },
+        },
+      ])
+    })
+
+    it('should move must-by-default clauses into filter', () => {
+      const result = builder
+        .match('title', 'laptop', undefined, { context: 'filter' })
+        .wildcard('sku', 'AB*', { context: 'filter' })
+        .fuzzy('name', 'laptp', { fuzziness: 1, context: 'filter' })
+        .queryString('a AND b', { context: 'filter' })
+        .build()
+
+      expect(result.query?.bool?.must).toBeUndefined()
+      expect(result.query?.bool?.filter).toEqual([
+        { match: { title: { query: 'laptop' } } },
+        { wildcard: { sku: 'AB*' } },
+        { fuzzy: { name: { value: 'laptp', fuzziness: 1 } } },
+        { query_string: { query: 'a AND b' } },
+      ])
+    })
+
+    it('should keep default contexts when no option is given', () => {
+      const result = builder.match('title', 'a').term('status', 'b').build()
+
+      expect(result.query?.bool?.must).toHaveLength(1)
+      expect(result.query?.bool?.filter).toHaveLength(1)
+    })
+
+    it('should reject unknown contexts', () => {
+      expect(() =>
+        builder.term('status', 'a', { context: 'should' as any })
+      ).toThrow(ValidationError)
+    })
+  })
+
+  describe('Context blocks', () => {
+    it('should place every clause of a filter block in filter', () => {
+      const result = builder
+        .match('title', 'laptop')
+        .filter((f) => {
+          f.match('description', 'gaming').nested('variants', (n) =>
+            n.term('variants.color', 'red')
+          )
+        })
+        .build()
+
+      expect(result.query?.bool?.must).toEqual([
+        { match: { title: { query: 'laptop' } } },
+      ])
+      expect(result.query?.bool?.filter).toEqual([
+        { match: { description: { query: 'gaming' } } },
+        {
+          nested: {
+            path: 'variants',
+            query: {
+              bool: { filter: [{ term: { 'variants.color.keyword': 'red' } }] },
+            },
+          },
+        },
+      ])
+    })
+
+    it('should place every clause of a must block in must', () => {
+      const result = builder
+        .must((m) => m.term('status', 'active').range('price', { lte: 5 }))
+        .build()
+
+      expect(result.query?.bool?.filter).toBeUndefined()
+      expect(result.query?.bool?.must).toHaveLength(2)
+    })
+
+    it('should let per-call options override the block', () => {
+      const result = builder
+        .filter((f) => f.match('title', 'a', undefined, { context: 'must' }))
+        .build()
+
+      expect(result.query?.bool?.must).toHaveLength(1)
+      expect(result.query?.bool?.filter).toBeUndefined()
+    })
+
+    it('should place groups in the block context', () => {
+      const result = builder
+        .filter((f) => f.anyOf((o) => o.match('a', 1).match('b', 2)))
+        .build()
+
+      expect(result.query?.bool?.filter).toEqual([
+        {
+          bool: {
+            should: [
+              { match: { a: { query: 1 } } },
+              { match: { b: { query: 2 } } },
+            ],
+            minimum_should_match: 1,
+          },
+        },
+      ])
+    })
+
+    it('should restore the previous context after the block', () => {
+      const result = builder
+        .must((m) => m.filter((f) => f.term('a', 1)).term('b', 2))
+        .term('c', 3)
+        .build()
+
+      expect(result.query?.bool?.filter).toEqual([
+        { term: { 'a.keyword': 1 } },
+        { term: { 'c.keyword': 3 } },
+      ])
+      expect(result.query?.bool?.must).toEqual([{ term: { 'b.keyword': 2 } }])
+    })
+
+    it('should restore the context when the callback throws', () => {
+      expect(() =>
+        builder.filter(() => {
+          throw new Error('boom')
+        })
+      ).toThrow('boom')
+
+      const result = builder.match('title', 'a').build()
+      expect(result.query?.bool?.must).toHaveLength(1)
+    })
+
+    it('should pass preset builders into the block', () => {
+      const result = new LogsQueryBuilder()
+        .must((m) => m.logLevel('error').searchMessage('timeout'))
+        .build()
+
+      expect(result.query?.bool?.must).toEqual([
+        { term: { 'level.keyword': 'error' } },
+        { match: { message: { query: 'timeout' } } },
+      ])
+    })
+  })
+})
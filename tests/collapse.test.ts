@@ -0,0 +1,189 @@
+import { QueryBuilder } from '../src/query-builder'
+import { ValidationError } from '../src/validation'
+
+interface Product {
+  name: string
+  family: string
+  price: number
+  created_at: string
+}
+
+describe('Field collapsing', () => {
+  describe('collapse', () => {
+    it('should collapse on a field', () => {
+      const query = new QueryBuilder<Product>()
+        .match('name', 'shoe')
+        .collapse('family')
+        .build()
+
+      expect(query.collapse).toEqual({ field: 'family' })
+    })
+
+    it('should add inner_hits and the concurrency limit', () => {
+      const query = new QueryBuilder<Product>()
+        .collapse('family', {
+          innerHits: {
+            name: 'cheapest',
+            size: 3,
+            sort: [{ price: 'asc' }],
+            _source: ['name', 'price'],
+          },
+          maxConcurrentGroupSearches: 4,
+        })
+        .build()
+
+      expect(query.collapse).toEqual({
+        field: 'family',
+        inner_hits: {
+          name: 'cheapest',
+          size: 3,
+          sort: [{ price: 'asc' }],
+          _source: ['name', 'price'],
+        },
+        max_concurrent_group_searches: 4,
+      })
+    })
+
+    it('should accept several named inner_hits', () => {
+      const query = new QueryBuilder<Product>()
+        .collapse('family', {
+          innerHits: [
+            { name: 'cheapest', size: 1, sort: [{ price: 'asc' }] },
+            { name: 'newest', size: 1, sort: [{ created_at: 'desc' }] },
+          ],
+        })
+        .build()
+
+      expect(query.collapse!.inner_hits).toHaveLength(2)
+    })
+
+    it('should type fields against the document', () => {
+      const builder = new QueryBuilder<Product>()
+      expect(() =>
+        builder.collapse('family', {
+          // @ts-expect-error unknown sort field
+          innerHits: { name: 'a', sort: [{ colour: 'asc' }] },
+        })
+      ).not.toThrow()
+    })
+  })
+
+  describe('Validation', () => {
+    it('should reject unnamed and duplicate inner_hits', () => {
+      const builder = new QueryBuilder()
+      expect(() =>
+        builder.collapse('family', { innerHits: { name: ' ' } })
+      ).toThrow(ValidationError)
+      expect(() =>
+        builder.collapse('family', {
+          innerHits: [{ name: 'a' }, { name: 'a' }],
+        })
+      ).toThrow('Duplicate inner_hits name "a"')
+      expect(() =>
+        builder.collapse('family', { innerHits: { name: 'a', size: -1 } })
+      ).toThrow(ValidationError)
+    })
+
+    it('should reject an invalid concurrency limit', () => {
+      expect(() =>
+        new QueryBuilder().collapse('family', { maxConcurrentGroupSearches: 0 })
+      ).toThrow('Max concurrent group searches must be a positive integer')
+    })
+
+    it('should require search_after pages to sort on the collapse field only', () => {
+      const builder = new QueryBuilder()
+        .collapse('family')
+        .sort('price', 'asc')
+        .searchAfter([10])
+
+      expect(() => builder.build()).toThrow(ValidationError)
+      expect(() => builder.build()).toThrow(
+        expect.objectContaining({ code: 'COLLAPSE_SORT_MISMATCH' })
+      )
+
+      expect(() =>
+        new QueryBuilder()
+          .collapse('family')
+          .sort('family', 'asc')
+          .searchAfter(['boots'])
+          .build()
+      ).not.toThrow()
+    })
+
+    it('should allow any sort without search_after', () => {
+      expect(() =>
+        new QueryBuilder().collapse('family').sort('price', 'desc').build()
+      ).not.toThrow()
+    })
+  })
+
+  describe('collapsedGroups', () => {
+    const builder = new QueryBuilder<Product>().collapse('family', {
+      innerHits: { name: 'variants', size: 2 },
+    })
+
+    it('should expand each collapsed hit', () => {
+      const variant = {
+        _index: 'products',
+        _id: '2',
+        _score: 1,
+        _source: { name: 'Boot (red)' },
+      }
+      const groups = builder.collapsedGroups({
+        hits: {
+          hits: [
+            {
+              _index: 'products',
+              _id: '1',
+              _score: 2,
+              _source: { name: 'Boot' },
+              fields: { family: ['boots'] },
+              inner_hits: {
+                variants: {
+                  hits: {
+                    total: { value: 5, relation: 'eq' },
+                    hits: [variant],
+                  },
+                },
+              },
+            },
+            {
+              _index: 'products',
+              _id: '3',
+              _score: 1,
+              _source: { name: 'Sandal' },
+              fields: { family: ['sandals'] },
+            },
+          ],
+        },
+      })
+
+      expect(groups).toHaveLength(2)
+      expect(groups[0].key).toBe('boots')
+      expect(groups[0].hit._id).toBe('1')
+      expect(groups[0].innerHits.variants).toEqual({
+        total: 5,
+        hits: [variant],
+      })
+      expect(groups[1].innerHits.variants).toEqual({ total: 0, hits: [] })
+    })
+
+    it('should type hits from the source selection', () => {
+      const groups = new QueryBuilder<Product>()
+        .collapse('family')
+        .source(['name'])
+        .collapsedGroups({ body: { hits: { hits: [] } } })
+
+      expect(groups).toEqual([])
+      // @ts-expect-error price is not in the source selection
+      groups.map((group) => group.hit._source.price)
+    })
+
+    it('should require collapse and a hits array', () => {
+      expect(() =>
+        new QueryBuilder().collapsedGroups({ hits: { hits: [] } })
+      ).toThrow('collapsedGroups() requires collapse() on the query')
+      expect(() => builder.collapsedGroups({})).toThrow(ValidationError)
+    })
+  })
+})
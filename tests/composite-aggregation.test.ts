@@ -0,0 +1,160 @@
+import { QueryBuilder } from '../src/query-builder'
+import { AggregationBuilder } from '../src/aggregation-builder'
+import { ValidationError } from '../src/validation'
+import { CompositeSource, QueryDSL } from '../src/types'
+
+const sources: CompositeSource[] = [
+  { brand: { terms: { field: 'brand.keyword' } } },
+  {
+    month: { date_histogram: { field: 'created_at', calendar_interval: '1M' } },
+  },
+]
+
+function page(afterKey?: Record<string, any>, count = 2) {
+  const buckets = Array.from({ length: count }, (_, i) => ({
+    key: { brand: `b${i}`, month: 0 },
+    doc_count: 1,
+  }))
+  return {
+    aggregations: {
+      combos: afterKey ? { after_key: afterKey, buckets } : { buckets },
+    },
+  }
+}
+
+describe('Composite Aggregation', () => {
+  let builder: QueryBuilder
+
+  beforeEach(() => {
+    builder = new QueryBuilder()
+  })
+
+  describe('compositeAgg', () => {
+    it('should build sources, size and sub-aggregations', () => {
+      const result = builder
+        .compositeAgg('combos', sources, 500, (combo) =>
+          combo.sumAgg('revenue', 'price')
+        )
+        .build()
+
+      expect(result.aggs?.combos).toEqual({
+        composite: { sources, size: 500 },
+        aggs: { revenue: { sum: { field: 'price' } } },
+      })
+    })
+
+    it('should accept histogram sources and source options', () => {
+      const result = new AggregationBuilder()
+        .compositeAgg('prices', [
+          { bucket: { histogram: { field: 'price', interval: 50 } } },
+          {
+            brand: {
+              terms: { field: 'brand', order: 'desc', missing_bucket: true },
+            },
+          },
+        ])
+        .build()
+
+      expect(result.prices.composite.size).toBe(10)
+      expect(result.prices.composite.sources[1].brand.terms).toEqual({
+        field: 'brand',
+        order: 'desc',
+        missing_bucket: true,
+      })
+    })
+
+    it('should validate sources and size', () => {
+      expect(() => builder.compositeAgg('c', [])).toThrow(ValidationError)
+      expect(() =>
+        builder.compositeAgg('c', [{ a: { range: { field: 'x' } } } as any])
+      ).toThrow(ValidationError)
+      expect(() =>
+        builder.compositeAgg('c', [
+          { a: { terms: { field: 'x' } } },
+          { a: { terms: { field: 'y' } } },
+        ])
+      ).toThrow('Duplicate composite source name: a')
+      expect(() => builder.compositeAgg('c', sources, 0)).toThrow(
+        'Composite aggregation size must be a positive integer'
+      )
+    })
+  })
+
+  describe('nextCompositePage', () => {
+    it('should clone the builder with the after key', () => {
+      const first = builder
+        .term('status', 'active')
+        .compositeAgg('combos', sources)
+      const next = first.nextCompositePage('combos', page({ brand: 'b1' }))
+
+      expect(next).toBeInstanceOf(QueryBuilder)
+      expect(next?.build().aggs?.combos.composite.after).toEqual({
+        brand: 'b1',
+      })
+      expect(next?.build().query).toEqual(first.build().query)
+      expect(first.build().aggs?.combos.composite.after).toBeUndefined()
+    })
+
+    it('should return undefined on the last page', () => {
+      const query = builder.compositeAgg('combos', sources)
+
+      expect(query.nextCompositePage('combos', page())).toBeUndefined()
+      expect(
+        query.nextCompositePage('combos', page({ brand: 'b1' }, 0))
+      ).toBeUndefined()
+    })
+
+    it('should reject unknown aggregation names', () => {
+      expect(() =>
+        builder.termsAgg('brands', 'brand').nextCompositePage('brands', page())
+      ).toThrow(ValidationError)
+    })
+  })
+
+  describe('compositePages', () => {
+    it('should fetch pages until the after key runs out', async () => {
+      const responses = [page({ brand: 'b1' }), page({ brand: 'b3' }), page()]
+      const bodies: QueryDSL[] = []
+      const transport = async (body: QueryDSL) => {
+        bodies.push(body)
+        return responses.shift()
+      }
+
+      const pages = []
+      for await (const result of builder
+        .compositeAgg('combos', sources, 2)
+        .compositePages('combos', transport)) {
+        pages.push(result)
+      }
+
+      expect(pages).toHaveLength(3)
+      expect(bodies.map((b) => b.aggs?.combos.composite.after)).toEqual([
+        undefined,
+        { brand: 'b1' },
+        { brand: 'b3' },
+      ])
+    })
+
+    it('should read aggregations returned under aggs', async () => {
+      const responses = [page({ brand: 'b1' }), page()].map((response) => ({
+        aggs: response.aggregations,
+      }))
+      const pages = []
+      for await (const result of builder
+        .compositeAgg('combos', sources, 2)
+        .compositePages('combos', async () => responses.shift())) {
+        pages.push(result)
+      }
+
+      expect(pages).toHaveLength(2)
+    })
+
+    it('should fail when the response lacks the aggregation', async () => {
+      const pages = builder
+        .compositeAgg('combos', sources)
+        .compositePages('combos', async () => ({ aggregations: {} }))
+
+      await expect(pages.next()).rejects.toThrow(ValidationError)
+    })
+  })
+})
@@ -0,0 +1,275 @@
+import { QueryBuilder } from '../src/query-builder'
+import { EcommerceQueryBuilder } from '../src/presets'
+import { FacetedSearch } from '../src/facets'
+import { ValidationError } from '../src/validation'
+
+interface Product {
+  name: string
+  brand: string
+  color: string
+  price: number
+  category: { lvl0: string; lvl1: string; lvl2: string }
+}
+
+function productFacets() {
+  return new FacetedSearch<Product>()
+    .terms('brand', { field: 'brand', size: 20 })
+    .terms('color', { field: 'color' })
+    .range('price', {
+      field: 'price',
+      ranges: [
+        { key: 'under_50', to: 50 },
+        { key: '50_to_100', from: 50, to: 100 },
+        { key: 'over_100', from: 100 },
+      ],
+    })
+}
+
+describe('Faceted search', () => {
+  describe('Request', () => {
+    it('should put selections in post_filter, not the main query', () => {
+      const query = new QueryBuilder<Product>()
+        .match('name', 'shoe')
+        .facets(productFacets().select('brand', ['acme', 'globex']))
+        .build()
+
+      expect(query.query).toEqual({
+        bool: { must: [{ match: { name: { query: 'shoe' } } }] },
+      })
+      expect(query.post_filter).toEqual({
+        bool: { filter: [{ terms: { brand: ['acme', 'globex'] } }] },
+      })
+    })
+
+    it('should count each facet with every selection but its own', () => {
+      const query = new QueryBuilder<Product>()
+        .facets(
+          productFacets()
+            .select('brand', 'acme')
+            .select('price', ['under_50', 'over_100'])
+        )
+        .build()
+
+      const priceFilter = {
+        bool: {
+          should: [
+            { range: { price: { lt: 50 } } },
+            { range: { price: { gte: 100 } } },
+          ],
+          minimum_should_match: 1,
+        },
+      }
+      const brandFilter = { terms: { brand: ['acme'] } }
+
+      expect(query.aggs!.facet_brand).toEqual({
+        filter: priceFilter,
+        aggs: { values: { terms: { field: 'brand', size: 20 } } },
+      })
+      expect(query.aggs!.facet_color.filter).toEqual({
+        bool: { filter: [brandFilter, priceFilter] },
+      })
+      expect(query.aggs!.facet_price).toEqual({
+        filter: brandFilter,
+        aggs: {
+          values: {
+            range: {
+              field: 'price',
+              ranges: [
+                { key: 'under_50', to: 50 },
+                { key: '50_to_100', from: 50, to: 100 },
+                { key: 'over_100', from: 100 },
+              ],
+            },
+          },
+        },
+      })
+    })
+
+    it('should match everything when no other facet is selected', () => {
+      const query = new QueryBuilder().facets(productFacets()).build()
+
+      expect(query.post_filter).toBeUndefined()
+      expect(query.aggs!.facet_brand.filter).toEqual({ match_all: {} })
+    })
+
+    it('should merge with an existing post_filter and keep the subclass', () => {
+      const builder = new EcommerceQueryBuilder()
+        .postFilter((p) => p.term('in_stock', true))
+        .facets(productFacets().select('color', 'red'))
+
+      expect(builder).toBeInstanceOf(EcommerceQueryBuilder)
+      expect(builder.build().post_filter).toEqual({
+        bool: {
+          filter: [
+            { term: { 'in_stock.keyword': true } },
+            { terms: { color: ['red'] } },
+          ],
+        },
+      })
+    })
+  })
+
+  describe('Hierarchical facets', () => {
+    const categories = () =>
+      new FacetedSearch<Product>().hierarchy('category', {
+        fields: ['category.lvl0', 'category.lvl1', 'category.lvl2'],
+      })
+
+    it('should filter on the level of the selected path', () => {
+      const query = new QueryBuilder()
+        .facets(categories().select('category', 'Electronics > Laptops'))
+        .build()
+
+      expect(query.post_filter).toEqual({
+        bool: {
+          filter: [{ terms: { 'category.lvl1': ['Electronics > Laptops'] } }],
+        },
+      })
+    })
+
+    it('should count the levels below the selected path', () => {
+      const query = new QueryBuilder()
+        .facets(categories().select('category', 'Electronics > Laptops'))
+        .build()
+
+      expect(query.aggs!.facet_category.aggs).toEqual({
+        level0: { terms: { field: 'category.lvl0', size: 10 } },
+        level1: {
+          filter: { terms: { 'category.lvl0': ['Electronics'] } },
+          aggs: { values: { terms: { field: 'category.lvl1', size: 10 } } },
+        },
+        level2: {
+          filter: { terms: { 'category.lvl1': ['Electronics > Laptops'] } },
+          aggs: { values: { terms: { field: 'category.lvl2', size: 10 } } },
+        },
+      })
+    })
+
+    it('should read the response into a tree', () => {
+      const facets = categories().select('category', 'Electronics')
+      const options = facets.read({
+        hits: { hits: [] },
+        aggregations: {
+          facet_category: {
+            doc_count: 30,
+            level0: {
+              buckets: [
+                { key: 'Electronics', doc_count: 20 },
+                { key: 'Books', doc_count: 10 },
+              ],
+            },
+            level1: {
+              doc_count: 20,
+              values: {
+                buckets: [
+                  { key: 'Electronics > Laptops', doc_count: 12 },
+                  { key: 'Electronics > Phones', doc_count: 8 },
+                ],
+              },
+            },
+          },
+        },
+      }).category
+
+      expect(options).toEqual([
+        {
+          value: 'Electronics',
+          count: 20,
+          selected: true,
+          children: [
+            { value: 'Electronics > Laptops', count: 12, selected: false },
+            { value: 'Electronics > Phones', count: 8, selected: false },
+          ],
+        },
+        { value: 'Books', count: 10, selected: false },
+      ])
+    })
+  })
+
+  describe('Response', () => {
+    it('should map buckets to options with selected state', () => {
+      const facets = productFacets()
+        .select('brand', ['acme', 'initech'])
+        .select('price', 'under_50')
+
+      const results = facets.read({
+        body: {
+          hits: { hits: [] },
+          aggregations: {
+            facet_brand: {
+              doc_count: 40,
+              values: {
+                buckets: [
+                  { key: 'acme', doc_count: 25 },
+                  { key: 'globex', doc_count: 15 },
+                ],
+              },
+            },
+            facet_color: { doc_count: 10, values: { buckets: [] } },
+            facet_price: {
+              doc_count: 40,
+              values: {
+                buckets: [
+                  { key: 'under_50', doc_count: 30 },
+                  { key: 'over_100', doc_count: 10 },
+                ],
+              },
+            },
+          },
+        },
+      })
+
+      expect(results.brand).toEqual([
+        { value: 'acme', count: 25, selected: true },
+        { value: 'globex', count: 15, selected: false },
+        { value: 'initech', count: 0, selected: true },
+      ])
+      expect(results.color).toEqual([])
+      expect(results.price).toEqual([
+        { value: 'under_50', count: 30, selected: true },
+        { value: '50_to_100', count: 0, selected: false },
+        { value: 'over_100', count: 10, selected: false },
+      ])
+    })
+
+    it('should report a missing facet aggregation', () => {
+      expect(() =>
+        productFacets().read({ hits: { hits: [] }, aggregations: {} })
+      ).toThrow('Response is missing facet "brand"')
+    })
+  })
+
+  describe('Validation', () => {
+    it('should reject unknown and duplicate facets', () => {
+      expect(() => productFacets().select('size', 'xl')).toThrow(
+        ValidationError
+      )
+      expect(() => productFacets().terms('brand', { field: 'brand' })).toThrow(
+        'Facet "brand" is already defined'
+      )
+    })
+
+    it('should reject values that are not options of the facet', () => {
+      expect(() => productFacets().select('price', 'free')).toThrow(
+        'Value "free" is not an option of facet "price"'
+      )
+      expect(() =>
+        new FacetedSearch()
+          .hierarchy('category', { fields: ['lvl0'] })
+          .select('category', 'A > B')
+      ).toThrow(ValidationError)
+    })
+
+    it('should clear selections', () => {
+      const facets = productFacets()
+        .select('brand', 'acme')
+        .select('color', 'red')
+
+      expect(facets.clear('brand').getSelections()).toEqual({ color: ['red'] })
+      expect(facets.clear().getSelections()).toEqual({})
+      expect(
+        facets.select('color', ['red']).select('color', []).getSelections()
+      ).toEqual({})
+    })
+  })
+})
@@ -0,0 +1,130 @@
+import { QueryBuilder } from '../src/query-builder'
+import { EcommerceQueryBuilder } from '../src/presets'
+import { ValidationError } from '../src/validation'
+
+interface Order {
+  customer: string
+  total: number
+  created_at: Date
+}
+
+describe('Field retrieval', () => {
+  it('should add script, doc value, stored and retrieved fields', () => {
+    const query = new QueryBuilder<Order>()
+      .scriptField('total_with_tax', "doc['total'].value * params.rate", {
+        params: { rate: 1.2 },
+      })
+      .docvalueFields([
+        'customer',
+        { field: 'created_at', format: 'yyyy-MM-dd' },
+      ])
+      .storedFields(['customer'])
+      .fields(['customer', { field: 'created_at', format: 'epoch_millis' }])
+      .build()
+
+    expect(query.script_fields).toEqual({
+      total_with_tax: {
+        script: {
+          source: "doc['total'].value * params.rate",
+          params: { rate: 1.2 },
+        },
+      },
+    })
+    expect(query.docvalue_fields).toEqual([
+      'customer',
+      { field: 'created_at', format: 'yyyy-MM-dd' },
+    ])
+    expect(query.stored_fields).toEqual(['customer'])
+    expect(query.fields).toEqual([
+      'customer',
+      { field: 'created_at', format: 'epoch_millis' },
+    ])
+    expect(
+      new QueryBuilder().storedFields('_none_').build().stored_fields
+    ).toBe('_none_')
+  })
+
+  it('should reject empty field lists and names', () => {
+    const builder = new QueryBuilder()
+    expect(() => builder.docvalueFields([])).toThrow(ValidationError)
+    expect(() => builder.fields([{ field: '' }])).toThrow(ValidationError)
+    expect(() => builder.scriptField('x', '')).toThrow(ValidationError)
+  })
+
+  describe('Runtime fields', () => {
+    it('should define runtime_mappings and use them as fields', () => {
+      const query = new QueryBuilder<Order>()
+        .runtimeField('day_of_week', 'keyword', {
+          script:
+            "emit(doc['created_at'].value.dayOfWeekEnum.getDisplayName(TextStyle.FULL, Locale.ROOT))",
+        })
+        .runtimeField('total_cents', 'long', {
+          script: "emit((long) (doc['total'].value * params.factor))",
+          params: { factor: 100 },
+        })
+        .term('day_of_week', 'Monday')
+        .range('total_cents', { gte: 1000 })
+        .sort('total_cents', 'desc')
+        .termsAgg('by_day', 'day_of_week')
+        .build()
+
+      expect(query.runtime_mappings).toEqual({
+        day_of_week: {
+          type: 'keyword',
+          script: {
+            source:
+              "emit(doc['created_at'].value.dayOfWeekEnum.getDisplayName(TextStyle.FULL, Locale.ROOT))",
+          },
+        },
+        total_cents: {
+          type: 'long',
+          script: {
+            source: "emit((long) (doc['total'].value * params.factor))",
+            params: { factor: 100 },
+          },
+        },
+      })
+      // Runtime fields have no .keyword sub-field
+      expect(query.query!.bool!.filter).toEqual([
+        { term: { day_of_week: 'Monday' } },
+        { range: { total_cents: { gte: 1000 } } },
+      ])
+      expect(query.sort).toEqual([{ total_cents: 'desc' }])
+      expect(query.aggs!.by_day.terms.field).toBe('day_of_week')
+    })
+
+    it('should type runtime field values and keep the builder class', () => {
+      const builder = new EcommerceQueryBuilder().runtimeField(
+        'discounted',
+        'boolean'
+      )
+      expect(builder).toBeInstanceOf(EcommerceQueryBuilder)
+
+      const typed = new QueryBuilder<Order>().runtimeField('vip', 'boolean')
+      expect(() => {
+        typed.term('vip', true)
+        // @ts-expect-error a boolean runtime field takes boolean values
+        typed.term('vip', 'yes')
+      }).not.toThrow()
+    })
+
+    it('should require definition before reference', () => {
+      // @ts-expect-error the runtime field is not defined yet
+      const builder = new QueryBuilder<Order>().range('total_cents', {
+        gte: 1,
+      })
+
+      expect(() => builder.runtimeField('total_cents', 'long')).toThrow(
+        'Runtime field "total_cents" is referenced before runtimeField() defines it'
+      )
+      expect(() =>
+        new QueryBuilder().term('day', 'Monday').runtimeField('day', 'keyword')
+      ).toThrow(ValidationError)
+      expect(() =>
+        new QueryBuilder()
+          .runtimeField('day', 'keyword')
+          .runtimeField('day', 'keyword')
+      ).toThrow('Runtime field "day" is already defined')
+    })
+  })
+})
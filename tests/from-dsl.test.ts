@@ -0,0 +1,220 @@
+import { QueryBuilder } from '../src/query-builder'
+import { LogsQueryBuilder } from '../src/presets'
+import { ValidationError } from '../src/validation'
+
+interface Product {
+  name: string
+  price: number
+  status: string
+}
+
+describe('fromDSL', () => {
+  describe('Round trips', () => {
+    it('should round-trip builder output', () => {
+      const original = new QueryBuilder()
+        .match('title', 'laptop')
+        .term('status', 'active')
+        .should((s) => s.term('brand', 'acme').term('brand', 'globex'))
+        .minimumShouldMatch(1)
+        .mustNot((n) => n.exists('deleted_at'))
+        .nested('variants', (n) => n.term('variants.color', 'red'))
+        .sort('price', 'desc')
+        .source(['title', 'price'])
+        .highlight(['title'])
+        .from(20)
+        .size(10)
+        .trackTotalHits()
+        .termsAgg('brands', 'brand', 10, (b) => b.avgAgg('avg_price', 'price'))
+        .build()
+
+      expect(QueryBuilder.fromDSL(original).build()).toEqual(original)
+    })
+
+    it('should round-trip hand-written DSL with unmodeled constructs', () => {
+      const dsl = {
+        query: {
+          bool: {
+            must: [{ dis_max: { queries: [{ match: { a: 'x' } }] } }],
+            filter: [{ term: { status: 'active' } }],
+            _name: 'saved',
+          },
+        },
+        aggs: {
+          pct: { percentiles: { field: 'price' } },
+        },
+        highlight: { fields: { title: {} }, pre_tags: ['<b>'] },
+        _source: { includes: ['title'] },
+        collapse: { field: 'sku' },
+        min_score: 0.5,
+      }
+
+      expect(QueryBuilder.fromDSL(dsl).build()).toEqual(dsl)
+    })
+
+    it('should keep a single top-level query as written', () => {
+      const dsl = { query: { match: { title: 'laptop' } }, size: 5 }
+
+      expect(QueryBuilder.fromDSL(dsl).build()).toEqual(dsl)
+    })
+
+    it('should accept JSON strings', () => {
+      const dsl = { query: { term: { a: 1 } } }
+
+      expect(QueryBuilder.fromDSL(JSON.stringify(dsl)).build()).toEqual(dsl)
+    })
+  })
+
+  describe('Editing', () => {
+    it('should let fluent calls extend the imported bool', () => {
+      const result = QueryBuilder.fromDSL({
+        query: { bool: { must: { match: { title: 'laptop' } } } },
+        sort: [{ price: 'asc' }],
+      })
+        .term('status', 'active')
+        .sort('created_at', 'desc')
+        .build()
+
+      expect(result.query).toEqual({
+        bool: {
+          must: [{ match: { title: 'laptop' } }],
+          filter: [{ term: { 'status.keyword': 'active' } }],
+        },
+      })
+      expect(result.sort).toEqual([{ price: 'asc' }, { created_at: 'desc' }])
+    })
+
+    it('should wrap a single top-level query into must when extended', () => {
+      const result = QueryBuilder.fromDSL({ query: { match: { title: 'a' } } })
+        .term('status', 'b')
+        .build()
+
+      expect(result.query).toEqual({
+        bool: {
+          must: [{ match: { title: 'a' } }],
+          filter: [{ term: { 'status.keyword': 'b' } }],
+        },
+      })
+    })
+
+    it('should drop a plain match_all when extended', () => {
+      const result = QueryBuilder.fromDSL({ query: { match_all: {} } })
+        .term('status', 'b')
+        .build()
+
+      expect(result.query).toEqual({
+        bool: { filter: [{ term: { 'status.keyword': 'b' } }] },
+      })
+    })
+
+    it('should read aggregations as aggs', () => {
+      const result = QueryBuilder.fromDSL({
+        aggregations: { brands: { terms: { field: 'brand' } } },
+      })
+        .avgAgg('avg_price', 'price')
+        .build()
+
+      expect(Object.keys(result.aggs || {})).toEqual(['brands', 'avg_price'])
+      expect(result).not.toHaveProperty('aggregations')
+    })
+
+    it('should normalize string, object and single-entry sorts', () => {
+      expect(
+        QueryBuilder.fromDSL({ sort: ['price', '_score'] })
+          .pit('x')
+          .build().sort
+      ).toEqual([{ price: 'asc' }, { _score: 'desc' }, { _shard_doc: 'asc' }])
+      expect(
+        QueryBuilder.fromDSL({ sort: { price: 'asc', name: 'desc' } })
+          .sort('status')
+          .build().sort
+      ).toEqual([{ price: 'asc' }, { name: 'desc' }, { status: 'asc' }])
+      expect(QueryBuilder.fromDSL({ sort: 'price' }).build().sort).toEqual([
+        { price: 'asc' },
+      ])
+    })
+
+    it('should accept a single rescore object', () => {
+      const rescore = {
+        window_size: 50,
+        query: { rescore_query: { match: { name: 'x' } } },
+      }
+      const result = QueryBuilder.fromDSL({ rescore })
+        .rescore(10, (q) => q.match('name', 'y'))
+        .build()
+
+      expect(result.rescore).toHaveLength(2)
+      expect(result.rescore![0]).toEqual(rescore)
+    })
+
+    it('should create the calling subclass', () => {
+      const logs = LogsQueryBuilder.fromDSL({ query: { match_all: {} } })
+
+      expect(logs).toBeInstanceOf(LogsQueryBuilder)
+      expect(logs.logLevel('error').build().query).toEqual({
+        bool: { filter: [{ term: { 'level.keyword': 'error' } }] },
+      })
+    })
+
+    it('should accept a typed builder', () => {
+      const typed = QueryBuilder.fromDSL<QueryBuilder<Product>>({})
+        .range('price', { gte: 10 })
+        .build()
+
+      expect(typed.query?.bool?.filter).toEqual([
+        { range: { price: { gte: 10 } } },
+      ])
+    })
+  })
+
+  describe('Report', () => {
+    it('should list opaque constructs by path', () => {
+      const { builder, opaque } = QueryBuilder.fromDSLWithReport({
+        query: {
+          bool: {
+            filter: [
+              { term: { a: 1 } },
+              { nested: { path: 'v', query: { span_term: { 'v.b': 'x' } } } },
+            ],
+          },
+        },
+        aggs: {
+          brands: {
+            terms: { field: 'brand' },
+            aggs: { top: { top_hits: { size: 1 } } },
+          },
+        },
+        suggest: { s: { text: 'x', term: { field: 'title' } } },
+      })
+
+      expect(builder).toBeInstanceOf(QueryBuilder)
+      expect(opaque.map(({ path, type }) => ({ path, type }))).toEqual([
+        { path: 'query.bool.filter[1].nested.query', type: 'span_term' },
+        { path: 'aggs.brands.aggs.top', type: 'top_hits' },
+        { path: 'suggest', type: 'suggest' },
+      ])
+    })
+
+    it('should report nothing for builder output', () => {
+      const dsl = new QueryBuilder()
+        .match('title', 'a')
+        .anyOf((o) => o.term('a', 1).term('b', 2))
+        .explain()
+        .build()
+
+      expect(QueryBuilder.fromDSLWithReport(dsl).opaque).toEqual([])
+    })
+  })
+
+  describe('Validation', () => {
+    it('should reject invalid input', () => {
+      expect(() => QueryBuilder.fromDSL(null)).toThrow(ValidationError)
+      expect(() => QueryBuilder.fromDSL('{not json')).toThrow(
+        'DSL string is not valid JSON'
+      )
+      expect(() => QueryBuilder.fromDSL({ from: -1 })).toThrow(ValidationError)
+      expect(() =>
+        QueryBuilder.fromDSL({ query: { bool: { must: ['x'] } } })
+      ).toThrow(ValidationError)
+    })
+  })
+})
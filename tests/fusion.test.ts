@@ -0,0 +1,123 @@
+import { fuseResults } from '../src/fusion'
+
+function hit(id: string, score: number | null) {
+  return { _index: 'docs', _id: id, _score: score, _source: { id } }
+}
+
+function response(...hits: ReturnType<typeof hit>[]) {
+  return { hits: { max_score: null, hits } }
+}
+
+describe('Result fusion', () => {
+  const lexical = response(hit('a', 12), hit('b', 9), hit('c', 3))
+  const vector = {
+    body: response(hit('c', 0.95), hit('a', 0.9), hit('d', 0.5)),
+  }
+
+  describe('rrf', () => {
+    it('should merge by reciprocal rank and keep per-list ranks', () => {
+      const hits = fuseResults([
+        { name: 'lexical', results: lexical },
+        { name: 'vector', results: vector },
+      ])
+
+      expect(hits.map((h) => h._id)).toEqual(['a', 'c', 'b', 'd'])
+      expect(hits[0]._score).toBeCloseTo(1 / 61 + 1 / 62)
+      expect(hits[0]._fusion.ranks).toEqual({ lexical: 1, vector: 2 })
+      expect(hits[2]._fusion).toEqual({
+        ranks: { lexical: 2 },
+        scores: { lexical: 1 / 62 },
+      })
+      expect(hits[0]._source).toEqual({ id: 'a' })
+    })
+
+    it('should apply weights, the rank constant and size', () => {
+      const hits = fuseResults([lexical.hits.hits, vector], {
+        weights: [1, 3],
+        rankConstant: 1,
+        size: 2,
+      })
+
+      expect(hits.map((h) => h._id)).toEqual(['c', 'a'])
+      expect(hits[0]._fusion.ranks).toEqual({ 0: 3, 1: 1 })
+      expect(hits[0]._score).toBeCloseTo(1 / 4 + 3 / 2)
+    })
+
+    it('should rank sorted results without scores and drop repeated ids', () => {
+      const hits = fuseResults([
+        response(hit('a', null), hit('a', null), hit('b', null)),
+      ])
+
+      expect(hits.map((h) => [h._id, h._fusion.ranks[0]])).toEqual([
+        ['a', 1],
+        ['b', 2],
+      ])
+    })
+  })
+
+  describe('Score normalization', () => {
+    it('should combine min-max normalized scores', () => {
+      const hits = fuseResults([lexical, vector], { method: 'min_max' })
+
+      expect(hits.map((h) => h._id)).toEqual(['a', 'c', 'b', 'd'])
+      expect(hits[0]._fusion.scores).toEqual({ 0: 1, 1: expect.any(Number) })
+      expect(hits[0]._score).toBeCloseTo(1 + 0.4 / 0.45)
+      expect(hits[3]._score).toBe(0)
+    })
+
+    it('should combine z-scores', () => {
+      const hits = fuseResults([lexical, vector], { method: 'z_score' })
+
+      expect(hits[0]._id).toBe('a')
+      expect(hits.find((h) => h._id === 'd')!._score).toBeLessThan(0)
+    })
+
+    it('should require convex weights to sum to 1', () => {
+      const hits = fuseResults(
+        [
+          { results: vector, weight: 0.25 },
+          { results: response(hit('d', 1)), weight: 0.75 },
+        ],
+        { method: 'convex' }
+      )
+
+      expect(hits[0]._id).toBe('d')
+      expect(hits[0]._score).toBeCloseTo(0.25 * 0.5 + 0.75)
+      expect(() =>
+        fuseResults([lexical, vector], { method: 'convex' })
+      ).toThrow(expect.objectContaining({ code: 'INVALID_FUSION_WEIGHTS' }))
+    })
+
+    it('should require scores', () => {
+      expect(() =>
+        fuseResults([response(hit('a', null))], { method: 'min_max' })
+      ).toThrow(expect.objectContaining({ code: 'FUSION_SCORE_MISSING' }))
+    })
+  })
+
+  describe('Validation', () => {
+    it('should reject invalid lists, names and weights', () => {
+      expect(() => fuseResults([])).toThrow(
+        expect.objectContaining({ code: 'INVALID_FUSION_INPUT' })
+      )
+      expect(() => fuseResults([{ hits: {} }])).toThrow(
+        expect.objectContaining({ code: 'INVALID_FUSION_INPUT' })
+      )
+      expect(() => fuseResults([[{ _score: 1 }]])).toThrow(
+        expect.objectContaining({ code: 'INVALID_FUSION_INPUT' })
+      )
+      expect(() =>
+        fuseResults([
+          { name: 'x', results: lexical },
+          { name: 'x', results: vector },
+        ])
+      ).toThrow('Result list name "x" is used twice')
+      expect(() => fuseResults([lexical, vector], { weights: [1] })).toThrow(
+        expect.objectContaining({ code: 'INVALID_FUSION_WEIGHTS' })
+      )
+      expect(() => fuseResults([{ results: lexical, weight: -1 }])).toThrow(
+        expect.objectContaining({ code: 'INVALID_FUSION_WEIGHTS' })
+      )
+    })
+  })
+})
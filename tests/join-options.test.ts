@@ -0,0 +1,166 @@
+import { QueryBuilder } from '../src/query-builder'
+import { flattenInnerHits } from '../src/response'
+import { ValidationError } from '../src/validation'
+
+interface Product {
+  name: string
+  variants: { color: string; price: number }[]
+}
+
+describe('Join query options', () => {
+  describe('nested', () => {
+    it('should add inner_hits and score options', () => {
+      const query = new QueryBuilder<Product>()
+        .nested('variants', (q) => q.match('variants.color', 'red'), {
+          scoreMode: 'max',
+          ignoreUnmapped: true,
+          innerHits: {
+            name: 'red',
+            size: 3,
+            sort: [{ 'variants.price': 'asc' }],
+            _source: ['variants.price'],
+            highlight: ['variants.color'],
+          },
+        })
+        .build()
+
+      expect(query.query!.bool!.must![0]).toEqual({
+        nested: {
+          path: 'variants',
+          query: {
+            bool: { must: [{ match: { 'variants.color': { query: 'red' } } }] },
+          },
+          score_mode: 'max',
+          ignore_unmapped: true,
+          inner_hits: {
+            name: 'red',
+            size: 3,
+            sort: [{ 'variants.price': 'asc' }],
+            _source: ['variants.price'],
+            highlight: { fields: { 'variants.color': {} } },
+          },
+        },
+      })
+    })
+
+    it('should leave the query unchanged without options', () => {
+      const query = new QueryBuilder()
+        .nested('variants', (q) => q.match('variants.color', 'red'))
+        .build()
+
+      expect(Object.keys(query.query!.bool!.must![0].nested)).toEqual([
+        'path',
+        'query',
+      ])
+    })
+
+    it('should type inner hit fields against the document', () => {
+      const builder = new QueryBuilder<Product>()
+      expect(() =>
+        builder.nested('variants', () => undefined, {
+          // @ts-expect-error unknown sort field
+          innerHits: { sort: [{ 'variants.size': 'asc' }] },
+        })
+      ).not.toThrow()
+    })
+  })
+
+  describe('hasChild and hasParent', () => {
+    it('should map has_child options', () => {
+      const query = new QueryBuilder()
+        .hasChild('answer', (q) => q.match('body', 'fix'), {
+          scoreMode: 'sum',
+          minChildren: 2,
+          maxChildren: 10,
+          innerHits: true,
+        })
+        .build()
+
+      expect(query.query!.bool!.must![0].has_child).toEqual({
+        type: 'answer',
+        query: { bool: { must: [{ match: { body: { query: 'fix' } } }] } },
+        inner_hits: {},
+        score_mode: 'sum',
+        min_children: 2,
+        max_children: 10,
+      })
+    })
+
+    it('should map has_parent options', () => {
+      const query = new QueryBuilder()
+        .hasParent('question', (q) => q.match('title', 'crash'), {
+          score: true,
+          innerHits: { _source: false },
+        })
+        .build()
+
+      expect(query.query!.bool!.must![0].has_parent).toMatchObject({
+        parent_type: 'question',
+        score: true,
+        inner_hits: { _source: false },
+      })
+    })
+
+    it('should reject an invalid children range', () => {
+      const builder = new QueryBuilder()
+      const child = () => undefined
+
+      expect(() =>
+        builder.hasChild('answer', child, { minChildren: 5, maxChildren: 2 })
+      ).toThrow('minChildren (5) cannot exceed maxChildren (2)')
+      expect(() =>
+        builder.hasChild('answer', child, { minChildren: 1.5 })
+      ).toThrow(ValidationError)
+      expect(() =>
+        builder.hasChild('answer', child, { innerHits: { size: -1 } })
+      ).toThrow(ValidationError)
+    })
+  })
+
+  describe('flattenInnerHits', () => {
+    it('should flatten inner hits at every level', () => {
+      const hits = flattenInnerHits({
+        body: {
+          hits: {
+            hits: [
+              {
+                _index: 'questions',
+                _id: '1',
+                _score: 1,
+                _source: { title: 'Crash' },
+                inner_hits: {
+                  answer: {
+                    hits: {
+                      total: { value: 1, relation: 'eq' },
+                      hits: [
+                        {
+                          _index: 'questions',
+                          _id: '2',
+                          _score: 1,
+                          _source: { body: 'Fixed' },
+                          inner_hits: {
+                            comment: { hits: { hits: [] } },
+                          },
+                        },
+                      ],
+                    },
+                  },
+                },
+              },
+              { _index: 'questions', _id: '3', _score: 0.5, _source: {} },
+            ],
+          },
+        },
+      })
+
+      expect(hits[0].innerHits.answer).toHaveLength(1)
+      expect(hits[0].innerHits.answer[0]._source).toEqual({ body: 'Fixed' })
+      expect(hits[0].innerHits.answer[0].innerHits).toEqual({ comment: [] })
+      expect(hits[1].innerHits).toEqual({})
+    })
+
+    it('should require a hits array', () => {
+      expect(() => flattenInnerHits({})).toThrow(ValidationError)
+    })
+  })
+})
@@ -0,0 +1,187 @@
+import { QueryBuilder } from '../src/query-builder'
+import { LogsQueryBuilder } from '../src/presets'
+import { parseKQL } from '../src/kql'
+import { ValidationError } from '../src/validation'
+
+describe('KQL', () => {
+  describe('Values', () => {
+    it('should compile field values and phrases', () => {
+      expect(parseKQL('status:active')).toEqual({
+        match: { status: { query: 'active' } },
+      })
+      expect(parseKQL('message: "connection refused"')).toEqual({
+        match_phrase: { message: { query: 'connection refused' } },
+      })
+    })
+
+    it('should keep whitespace inside unquoted values', () => {
+      expect(parseKQL('message: quick brown fox ')).toEqual({
+        match: { message: { query: 'quick brown fox' } },
+      })
+    })
+
+    it('should compile unfielded values across all fields', () => {
+      expect(parseKQL('timeout')).toEqual({
+        multi_match: { query: 'timeout', lenient: true },
+      })
+      expect(parseKQL('"disk full"')).toEqual({
+        multi_match: { query: 'disk full', type: 'phrase', lenient: true },
+      })
+    })
+
+    it('should compile wildcards and existence checks', () => {
+      expect(parseKQL('host.name: web-*')).toEqual({
+        wildcard: { 'host.name': { value: 'web-*' } },
+      })
+      expect(parseKQL('user.email:*')).toEqual({
+        exists: { field: 'user.email' },
+      })
+      expect(parseKQL('*')).toEqual({ match_all: {} })
+      expect(parseKQL('web-*')).toEqual({ query_string: { query: 'web-*' } })
+    })
+
+    it('should unescape special characters and keywords', () => {
+      expect(parseKQL('path:C\\:\\\\logs\\*')).toEqual({
+        match: { path: { query: 'C:\\logs*' } },
+      })
+      expect(parseKQL('answer:yes \\or no')).toEqual({
+        match: { answer: { query: 'yes or no' } },
+      })
+    })
+  })
+
+  describe('Operators', () => {
+    it('should compile and, or and not with precedence', () => {
+      expect(parseKQL('a:1 or b:2 and not c:3')).toEqual({
+        bool: {
+          should: [
+            { match: { a: { query: '1' } } },
+            {
+              bool: {
+                filter: [
+                  { match: { b: { query: '2' } } },
+                  { bool: { must_not: [{ match: { c: { query: '3' } } }] } },
+                ],
+              },
+            },
+          ],
+          minimum_should_match: 1,
+        },
+      })
+    })
+
+    it('should treat keywords case-insensitively but only as whole words', () => {
+      expect(parseKQL('os:android AND status:ok')).toEqual({
+        bool: {
+          filter: [
+            { match: { os: { query: 'android' } } },
+            { match: { status: { query: 'ok' } } },
+          ],
+        },
+      })
+    })
+
+    it('should compile grouped value lists against one field', () => {
+      expect(parseKQL('level:(error or warn) and not (user:bot)')).toEqual({
+        bool: {
+          filter: [
+            {
+              bool: {
+                should: [
+                  { match: { level: { query: 'error' } } },
+                  { match: { level: { query: 'warn' } } },
+                ],
+                minimum_should_match: 1,
+              },
+            },
+            { bool: { must_not: [{ match: { user: { query: 'bot' } } }] } },
+          ],
+        },
+      })
+    })
+
+    it('should compile range operators', () => {
+      expect(parseKQL('bytes >= 1024 and @timestamp < now-1d')).toEqual({
+        bool: {
+          filter: [
+            { range: { bytes: { gte: '1024' } } },
+            { range: { '@timestamp': { lt: 'now-1d' } } },
+          ],
+        },
+      })
+    })
+
+    it('should compile nested field syntax with prefixed fields', () => {
+      expect(parseKQL('items:{ name:banana and stock > 9 }')).toEqual({
+        nested: {
+          path: 'items',
+          query: {
+            bool: {
+              filter: [
+                { match: { 'items.name': { query: 'banana' } } },
+                { range: { 'items.stock': { gt: '9' } } },
+              ],
+            },
+          },
+        },
+      })
+    })
+  })
+
+  describe('Errors', () => {
+    it.each([
+      ['status:"active', 7, 'Unterminated quoted value'],
+      ['(a:1 or b:2', 11, 'Expected ")"'],
+      ['a:1 and', 7, 'Expected a value but found end of query'],
+      ['items:{ name:x', 14, 'Expected "}"'],
+      ['bytes >= web*', 9, 'Range values cannot contain wildcards'],
+      ['a:1 )', 4, 'Unexpected ")"'],
+      ['items:{ banana }', 8, 'Nested queries need a field name'],
+    ])('should report %s at position %i', (input, position, message) => {
+      expect(() => parseKQL(input)).toThrow(ValidationError)
+      expect(() => parseKQL(input)).toThrow(
+        expect.objectContaining({
+          code: 'KQL_SYNTAX_ERROR',
+          message: expect.stringContaining(message),
+          details: expect.objectContaining({ position, input }),
+        })
+      )
+      expect(() => parseKQL(input)).toThrow(`at position ${position}`)
+    })
+
+    it('should reject empty queries', () => {
+      expect(() => parseKQL('  ')).toThrow('Query is empty')
+    })
+  })
+
+  describe('QueryBuilder', () => {
+    it('should start a builder from KQL in filter context', () => {
+      const query = QueryBuilder.fromKQL('service:checkout and level:error')
+        .size(20)
+        .build()
+
+      expect(query.query!.bool!.filter).toEqual([
+        {
+          bool: {
+            filter: [
+              { match: { service: { query: 'checkout' } } },
+              { match: { level: { query: 'error' } } },
+            ],
+          },
+        },
+      ])
+      expect(query.size).toBe(20)
+    })
+
+    it('should keep the subclass and honour the clause context', () => {
+      const builder = LogsQueryBuilder.fromKQL('message:timeout', {
+        context: 'must',
+      })
+
+      expect(builder).toBeInstanceOf(LogsQueryBuilder)
+      expect(builder.build().query!.bool!.must).toEqual([
+        { match: { message: { query: 'timeout' } } },
+      ])
+    })
+  })
+})
@@ -0,0 +1,257 @@
+import { QueryBuilder } from '../src/query-builder'
+import { Linter } from '../src/lint'
+import { LintRule } from '../src/types'
+import { ValidationError } from '../src/validation'
+
+function rulesOf(builder: QueryBuilder, linter = new Linter()): string[] {
+  return linter.lint(builder.build()).map((issue) => issue.rule)
+}
+
+describe('Linter', () => {
+  describe('Built-in rules', () => {
+    it('should report leading wildcards with their path', () => {
+      const issues = new QueryBuilder()
+        .wildcard('name', '*phone')
+        .wildcard('sku', 'AB*')
+        .queryString('title:?at OR *:*')
+        .lint()
+
+      expect(issues).toEqual([
+        {
+          rule: 'leading-wildcard',
+          severity: 'warning',
+          path: 'query.bool.must[0].wildcard',
+          message:
+            'wildcard query on "name" starts with a wildcard, so it scans every term of the field',
+          fixable: false,
+        },
+        expect.objectContaining({ path: 'query.bool.must[2].query_string' }),
+      ])
+    })
+
+    it('should report from + size past max_result_window', () => {
+      const body = { query: { match_all: {} }, from: 9990, size: 20 }
+
+      expect(new Linter().lint(body)).toEqual([
+        {
+          rule: 'result-window',
+          severity: 'error',
+          path: 'from',
+          message:
+            'from + size is 10010, above max_result_window (10000); use searchAfter() for deep pagination',
+          fixable: false,
+        },
+      ])
+      expect(
+        new Linter({ maxResultWindow: 500 }).lint({ size: 600 })[0].path
+      ).toBe('size')
+      expect(new Linter().lint({ ...body, search_after: [1] })).toEqual([])
+    })
+
+    it('should report from the builder what build() would throw for', () => {
+      const builder = new QueryBuilder().from(9995).size(10)
+
+      expect(() => builder.build()).toThrow(
+        expect.objectContaining({ code: 'RESULT_WINDOW_EXCEEDED' })
+      )
+      expect(builder.lint()).toEqual([
+        expect.objectContaining({ rule: 'result-window', path: 'from' }),
+      ])
+      expect(builder.clone().maxResultWindow(20000).lint()).toEqual([])
+      expect(
+        new QueryBuilder().maxResultWindow(20000).size(15000).build().size
+      ).toBe(15000)
+    })
+
+    it('should move script queries from must to filter', () => {
+      const builder = new QueryBuilder()
+        .script("doc['stock'].value > 0")
+        .term('status', 'active')
+      const { body, fixed, issues } = new Linter().fix(builder.build())
+
+      expect(fixed.map((issue) => issue.path)).toEqual([
+        'query.bool.must[0].script',
+      ])
+      expect(body.query!.bool).toEqual({
+        filter: [
+          { term: { 'status.keyword': 'active' } },
+          { script: { script: { source: "doc['stock'].value > 0" } } },
+        ],
+      })
+      expect(issues).toEqual([])
+    })
+
+    it('should report regexp queries on high-cardinality fields', () => {
+      const builder = new QueryBuilder()
+        .regexp('user_id', 'u-.*')
+        .regexp('customer.email.keyword', '.*@example\\.com')
+        .regexp('tags', 'a.*')
+
+      expect(
+        new Linter()
+          .lint(builder.build())
+          .map((issue) => [issue.rule, issue.path])
+      ).toEqual([
+        ['regexp-high-cardinality', 'query.bool.must[0].regexp'],
+        ['regexp-high-cardinality', 'query.bool.must[1].regexp'],
+      ])
+      expect(
+        rulesOf(builder, new Linter({ highCardinalityFields: ['tag*'] }))
+      ).toEqual(['regexp-high-cardinality'])
+    })
+
+    it('should remove duplicate clauses except should clauses', () => {
+      const body = new QueryBuilder()
+        .term('status', 'active')
+        .raw({ term: { 'status.keyword': 'active' } }, 'filter')
+        .should((q) => q.match('title', 'x').match('title', 'x'))
+        .build()
+      const { body: fixed, issues } = new Linter().fix(body)
+
+      expect(new Linter().lint(body)).toEqual([
+        expect.objectContaining({
+          path: 'query.bool.filter[1]',
+          message:
+            'clause repeats an earlier filter clause of the same bool query',
+          fixable: true,
+        }),
+        expect.objectContaining({
+          path: 'query.bool.should[1]',
+          fixable: false,
+        }),
+      ])
+      expect(fixed.query!.bool!.filter).toHaveLength(1)
+      expect(issues.map((issue) => issue.path)).toEqual([
+        'query.bool.should[1]',
+      ])
+    })
+
+    it('should require minimum_should_match for should in filter context', () => {
+      const builder = new QueryBuilder().bool(
+        (q) => q.term('status', 'active').should((s) => s.term('tag', 'new')),
+        { context: 'filter' }
+      )
+      const { body, fixed } = new Linter().fix(builder.build())
+
+      expect(fixed).toEqual([
+        expect.objectContaining({
+          rule: 'should-without-minimum-should-match',
+          path: 'query.bool.filter[0].bool',
+        }),
+      ])
+      expect(body.query!.bool!.filter![0].bool.minimum_should_match).toBe(1)
+      expect(
+        rulesOf(
+          new QueryBuilder().bool((q) =>
+            q.match('title', 'x').should((s) => s.term('tag', 'new'))
+          )
+        )
+      ).toEqual([])
+    })
+
+    it('should cap oversized terms aggregations', () => {
+      const builder = new QueryBuilder().termsAgg(
+        'users',
+        'user_id',
+        50000,
+        (sub) => sub.termsAgg('tags', 'tags', 20)
+      )
+      const { body, fixed } = new Linter().fix(builder.build())
+
+      expect(fixed).toEqual([
+        expect.objectContaining({
+          rule: 'unbounded-terms-size',
+          path: 'aggs.users.terms',
+          message:
+            'terms aggregation "users" asks for 50000 buckets, more than 1000; page through them with compositeAgg()',
+        }),
+      ])
+      expect(body.aggs!.users.terms.size).toBe(1000)
+      expect(builder.build().aggs!.users.terms.size).toBe(50000)
+    })
+
+    it('should find clauses in sub-queries and aggregation filters', () => {
+      const body = {
+        post_filter: { wildcard: { name: { value: '?x' } } },
+        aggs: {
+          recent: {
+            filter: {
+              constant_score: {
+                filter: {
+                  bool: {
+                    filter: [{ term: { a: 1 } }],
+                    should: [{ term: { b: 2 } }],
+                  },
+                },
+              },
+            },
+          },
+        },
+      }
+
+      expect(
+        new Linter().lint(body).map((issue) => [issue.rule, issue.path])
+      ).toEqual([
+        ['leading-wildcard', 'post_filter.wildcard'],
+        [
+          'should-without-minimum-should-match',
+          'aggs.recent.filter.constant_score.filter.bool',
+        ],
+      ])
+    })
+  })
+
+  describe('Configuration', () => {
+    const wildcard = new QueryBuilder().wildcard('name', '*x')
+
+    it('should change severities and turn rules off', () => {
+      expect(
+        wildcard.lint({ rules: { 'leading-wildcard': 'error' } })[0].severity
+      ).toBe('error')
+      expect(wildcard.lint({ rules: { 'leading-wildcard': 'off' } })).toEqual(
+        []
+      )
+      expect(() => new Linter({ rules: { 'no-such-rule': 'error' } })).toThrow(
+        expect.objectContaining({ code: 'UNKNOWN_LINT_RULE' })
+      )
+      expect(
+        () => new Linter({ rules: { 'leading-wildcard': 'fatal' as any } })
+      ).toThrow(ValidationError)
+      expect(() => new Linter({ maxTermsSize: 0 })).toThrow(
+        'maxTermsSize must be a positive integer'
+      )
+    })
+
+    it('should run plugin rules', () => {
+      const noMatchAll: LintRule = {
+        name: 'no-match-all',
+        severity: 'info',
+        check: (body) =>
+          body.query?.match_all
+            ? [{ path: 'query.match_all', message: 'query matches everything' }]
+            : [],
+      }
+      const linter = new Linter({ plugins: [noMatchAll] })
+
+      expect(linter.ruleNames()).toContain('no-match-all')
+      expect(new QueryBuilder().lint(linter)).toEqual([
+        {
+          rule: 'no-match-all',
+          severity: 'info',
+          path: 'query.match_all',
+          message: 'query matches everything',
+          fixable: false,
+        },
+      ])
+      expect(
+        wildcard.lint({
+          plugins: [{ ...noMatchAll, name: 'leading-wildcard' }],
+        })
+      ).toEqual([])
+      expect(
+        () =>
+          new Linter({ plugins: [{ name: 'x', severity: 'warning' } as any] })
+      ).toThrow(expect.objectContaining({ code: 'INVALID_LINT_RULE' }))
+    })
+  })
+})
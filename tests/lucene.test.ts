@@ -0,0 +1,242 @@
+import { QueryBuilder } from '../src/query-builder'
+import { parseLucene } from '../src/lucene'
+import { ValidationError } from '../src/validation'
+import { LuceneOptions } from '../src/types'
+
+interface Article {
+  title: string
+  body: string
+  status: string
+  views: number
+}
+
+describe('Lucene syntax', () => {
+  describe('Terms and phrases', () => {
+    it('should compile field terms to match queries', () => {
+      expect(parseLucene('status:active')).toEqual({
+        match: { status: { query: 'active' } },
+      })
+    })
+
+    it('should search default fields for unfielded terms', () => {
+      expect(
+        parseLucene('laptop', { defaultFields: ['title', 'body'] })
+      ).toEqual({ multi_match: { query: 'laptop', fields: ['title', 'body'] } })
+      expect(parseLucene('laptop', { defaultFields: ['title'] })).toEqual({
+        match: { title: { query: 'laptop' } },
+      })
+    })
+
+    it('should compile phrases with proximity', () => {
+      expect(parseLucene('title:"gaming laptop"~2')).toEqual({
+        match_phrase: { title: { query: 'gaming laptop', slop: 2 } },
+      })
+    })
+
+    it('should unescape special characters', () => {
+      expect(parseLucene('sku:AB\\-12\\:3')).toEqual({
+        match: { sku: { query: 'AB-12:3' } },
+      })
+    })
+  })
+
+  describe('Boolean operators', () => {
+    it('should compile AND, OR and NOT with precedence', () => {
+      expect(parseLucene('a:1 OR b:2 AND NOT c:3')).toEqual({
+        bool: {
+          should: [
+            { match: { a: { query: '1' } } },
+            {
+              bool: {
+                must: [{ match: { b: { query: '2' } } }],
+                must_not: [{ match: { c: { query: '3' } } }],
+              },
+            },
+          ],
+          minimum_should_match: 1,
+        },
+      })
+    })
+
+    it('should support symbolic operators and +/- prefixes', () => {
+      expect(parseLucene('+a:1 -b:2 c:3')).toEqual({
+        bool: {
+          must: [{ match: { a: { query: '1' } } }],
+          must_not: [{ match: { b: { query: '2' } } }],
+          should: [{ match: { c: { query: '3' } } }],
+        },
+      })
+      expect(parseLucene('a:1 && !b:2')).toEqual(parseLucene('a:1 AND NOT b:2'))
+      expect(parseLucene('-a:1')).toEqual({
+        bool: { must_not: [{ match: { a: { query: '1' } } }] },
+      })
+    })
+
+    it('should honour the default operator', () => {
+      expect(parseLucene('a:1 b:2', { defaultOperator: 'AND' })).toEqual({
+        bool: {
+          must: [
+            { match: { a: { query: '1' } } },
+            { match: { b: { query: '2' } } },
+          ],
+        },
+      })
+    })
+
+    it('should apply a field to a group', () => {
+      expect(parseLucene('status:(active OR pending)^2')).toEqual({
+        bool: {
+          should: [
+            { match: { status: { query: 'active' } } },
+            { match: { status: { query: 'pending' } } },
+          ],
+          minimum_should_match: 1,
+          boost: 2,
+        },
+      })
+    })
+  })
+
+  describe('Term-level syntax', () => {
+    it('should compile inclusive, exclusive and open ranges', () => {
+      expect(parseLucene('price:[10 TO 100}')).toEqual({
+        range: { price: { gte: '10', lt: '100' } },
+      })
+      expect(parseLucene('date:{* TO "2024-01-01"]')).toEqual({
+        range: { date: { lte: '2024-01-01' } },
+      })
+      expect(parseLucene('temp:>=-5')).toEqual({
+        range: { temp: { gte: '-5' } },
+      })
+    })
+
+    it('should compile wildcards, fuzzy terms, regexps and boosts', () => {
+      expect(parseLucene('name:lap*p?')).toEqual({
+        wildcard: { name: { value: 'lap*p?' } },
+      })
+      expect(parseLucene('name:laptp~1')).toEqual({
+        fuzzy: { name: { value: 'laptp', fuzziness: 1 } },
+      })
+      expect(parseLucene('name:laptp~')).toEqual({
+        fuzzy: { name: { value: 'laptp', fuzziness: 'AUTO' } },
+      })
+      expect(parseLucene('name:/lap.*/')).toEqual({
+        regexp: { name: { value: 'lap.*' } },
+      })
+      expect(parseLucene('name:laptop^3')).toEqual({
+        match: { name: { query: 'laptop', boost: 3 } },
+      })
+    })
+
+    it('should compile existence checks', () => {
+      expect(parseLucene('_exists_:email')).toEqual({
+        exists: { field: 'email' },
+      })
+      expect(parseLucene('email:*')).toEqual({ exists: { field: 'email' } })
+      expect(parseLucene('*:*')).toEqual({ match_all: {} })
+    })
+  })
+
+  describe('Errors', () => {
+    it.each([
+      ['status:"active', 7, 'Unterminated phrase'],
+      ['(a:1 OR b:2', 11, 'Expected ")"'],
+      ['a:1 AND', 7, 'Unexpected end of query'],
+      ['price:[1 100]', 9, 'Expected "TO"'],
+      ['name:laptop^', 11, 'Boost requires a number'],
+      ['a:1)', 3, 'Unexpected ")"'],
+    ])('should report %s at position %i', (input, position, message) => {
+      expect(() => parseLucene(input)).toThrow(ValidationError)
+      expect(() => parseLucene(input)).toThrow(
+        expect.objectContaining({
+          code: 'LUCENE_SYNTAX_ERROR',
+          message: expect.stringContaining(message),
+          details: expect.objectContaining({ position, input }),
+        })
+      )
+      expect(() => parseLucene(input)).toThrow(`at position ${position}`)
+    })
+
+    it('should reject fields outside the allowed list', () => {
+      expect(() =>
+        parseLucene('title:a OR secret:b', { allowedFields: ['title'] })
+      ).toThrow(
+        expect.objectContaining({
+          code: 'LUCENE_FIELD_NOT_ALLOWED',
+          details: expect.objectContaining({ field: 'secret', position: 11 }),
+        })
+      )
+    })
+
+    it('should reject operators outside the allowed list', () => {
+      const options: LuceneOptions = { allowedOperators: ['and', 'phrase'] }
+      expect(parseLucene('a:1 AND b:"x y"', options)).toBeDefined()
+
+      expect(() => parseLucene('a:1 AND b:x*', options)).toThrow(
+        expect.objectContaining({
+          code: 'LUCENE_OPERATOR_NOT_ALLOWED',
+          details: expect.objectContaining({
+            operator: 'wildcard',
+            position: 10,
+          }),
+        })
+      )
+    })
+
+    it('should reject leading wildcards unless enabled', () => {
+      expect(() => parseLucene('name:*top')).toThrow(
+        expect.objectContaining({ code: 'LUCENE_LEADING_WILDCARD' })
+      )
+      expect(parseLucene('name:*top', { allowLeadingWildcard: true })).toEqual({
+        wildcard: { name: { value: '*top' } },
+      })
+    })
+
+    it('should require a field for term-level queries', () => {
+      expect(() => parseLucene('lap*')).toThrow(
+        expect.objectContaining({ code: 'LUCENE_FIELD_REQUIRED' })
+      )
+      expect(() => parseLucene('   ')).toThrow('Query is empty')
+    })
+  })
+
+  describe('QueryBuilder.lucene', () => {
+    it('should add the compiled clause to the bool query', () => {
+      const query = new QueryBuilder<Article>()
+        .lucene('title:laptop AND views:>100', {
+          allowedFields: ['title', 'views'],
+        })
+        .build()
+
+      expect(query.query!.bool!.must).toEqual([
+        {
+          bool: {
+            must: [
+              { match: { title: { query: 'laptop' } } },
+              { range: { views: { gt: '100' } } },
+            ],
+          },
+        },
+      ])
+    })
+
+    it('should honour the clause context', () => {
+      const query = new QueryBuilder()
+        .lucene('status:active', { context: 'filter' })
+        .build()
+
+      expect(query.query!.bool!.filter).toEqual([
+        { match: { status: { query: 'active' } } },
+      ])
+    })
+
+    it('should type allowed fields against the document', () => {
+      expect(() =>
+        new QueryBuilder<Article>().lucene('title:a', {
+          // @ts-expect-error unknown field
+          allowedFields: ['titel'],
+        })
+      ).toThrow(ValidationError)
+    })
+  })
+})
@@ -0,0 +1,207 @@
+import { QueryBuilder } from '../src/query-builder'
+import { parseResponse } from '../src/response'
+import { Schema } from '../src/schema'
+
+interface Product {
+  title: string
+  brand: string
+  variants: {
+    color: string
+    stock: number
+    offers: { seller: string; price: number }[]
+  }[]
+}
+
+const schema = new Schema({
+  properties: {
+    title: { type: 'text', fields: { keyword: { type: 'keyword' } } },
+    brand: { type: 'keyword' },
+    variants: {
+      type: 'nested',
+      properties: {
+        color: { type: 'keyword' },
+        stock: { type: 'integer' },
+        offers: {
+          type: 'nested',
+          properties: {
+            seller: { type: 'keyword' },
+            price: { type: 'double' },
+          },
+        },
+      },
+    },
+  },
+})
+
+describe('Nested wrapping from a schema', () => {
+  const builder = () => new QueryBuilder<Product>().schema(schema)
+
+  describe('Queries', () => {
+    it('should group clauses on one nested object', () => {
+      const query = builder()
+        .match('title', 'shirt')
+        .term('variants.color', 'red')
+        .range('variants.stock', { gt: 0 })
+        .term('brand', 'acme')
+        .build()
+
+      expect(query.query!.bool).toEqual({
+        must: [{ match: { title: { query: 'shirt' } } }],
+        filter: [
+          {
+            nested: {
+              path: 'variants',
+              query: {
+                bool: {
+                  filter: [
+                    { term: { 'variants.color': 'red' } },
+                    { range: { 'variants.stock': { gt: 0 } } },
+                  ],
+                },
+              },
+            },
+          },
+          { term: { brand: 'acme' } },
+        ],
+      })
+    })
+
+    it('should wrap should and must_not clauses one by one', () => {
+      const query = builder()
+        .should((q) =>
+          q.term('variants.color', 'red').term('variants.color', 'blue')
+        )
+        .mustNot((q) => q.range('variants.stock', { lte: 0 }))
+        .build()
+
+      const nested = (clause: any) => ({
+        nested: { path: 'variants', query: clause },
+      })
+      expect(query.query!.bool!.should).toEqual([
+        nested({ term: { 'variants.color': 'red' } }),
+        nested({ term: { 'variants.color': 'blue' } }),
+      ])
+      expect(query.query!.bool!.must_not).toEqual([
+        nested({ range: { 'variants.stock': { lte: 0 } } }),
+      ])
+    })
+
+    it('should wrap deeper nested objects level by level', () => {
+      const query = builder()
+        .term('variants.color', 'red')
+        .term('variants.offers.seller', 'shop-1')
+        .build()
+
+      expect(query.query!.bool!.filter).toEqual([
+        {
+          nested: {
+            path: 'variants',
+            query: {
+              bool: {
+                filter: [
+                  { term: { 'variants.color': 'red' } },
+                  {
+                    nested: {
+                      path: 'variants.offers',
+                      query: { term: { 'variants.offers.seller': 'shop-1' } },
+                    },
+                  },
+                ],
+              },
+            },
+          },
+        },
+      ])
+    })
+
+    it('should leave explicit nested queries as written', () => {
+      const query = builder()
+        .nested('variants', (q) => q.term('variants.color', 'red'))
+        .build()
+
+      expect(query.query!.bool!.must).toEqual([
+        {
+          nested: {
+            path: 'variants',
+            query: {
+              bool: { filter: [{ term: { 'variants.color': 'red' } }] },
+            },
+          },
+        },
+      ])
+    })
+
+    it('should add .keyword to term() only without a schema', () => {
+      expect(
+        builder().schema(false).term('variants.color', 'red').build().query
+      ).toEqual({
+        bool: { filter: [{ term: { 'variants.color.keyword': 'red' } }] },
+      })
+    })
+  })
+
+  describe('Aggregations', () => {
+    const aggregated = () =>
+      builder()
+        .termsAgg('colors', 'variants.color', 10, (color) =>
+          color.termsAgg('brands', 'brand')
+        )
+        .maxBucketAgg('top_color', 'colors>_count')
+
+    it('should add nested and reverse_nested wrappers', () => {
+      const query = aggregated().build()
+      const meta = { auto_nested: true }
+
+      expect(query.aggs).toEqual({
+        colors: {
+          nested: { path: 'variants' },
+          meta,
+          aggs: {
+            colors: {
+              terms: { field: 'variants.color', size: 10 },
+              aggs: {
+                brands: {
+                  reverse_nested: {},
+                  meta,
+                  aggs: { brands: { terms: { field: 'brand', size: 10 } } },
+                },
+              },
+            },
+          },
+        },
+        top_color: {
+          max_bucket: { buckets_path: 'colors>colors>_count' },
+        },
+      })
+    })
+
+    it('should lift wrapped results back to their names', () => {
+      const response = parseResponse(aggregated(), {
+        hits: { hits: [] },
+        aggregations: {
+          colors: {
+            doc_count: 4,
+            meta: { auto_nested: true },
+            colors: {
+              buckets: [
+                {
+                  key: 'red',
+                  doc_count: 3,
+                  brands: {
+                    doc_count: 2,
+                    brands: { buckets: [{ key: 'acme', doc_count: 2 }] },
+                  },
+                },
+              ],
+            },
+          },
+          top_color: { value: 3, keys: ['red'] },
+        },
+      })
+
+      const [red] = response.aggregations.colors.buckets
+      expect(red.key).toBe('red')
+      expect(red.brands.buckets).toEqual([{ key: 'acme', doc_count: 2 }])
+    })
+  })
+})
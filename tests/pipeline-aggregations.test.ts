@@ -0,0 +1,224 @@
+import { AggregationBuilder } from '../src/aggregation-builder'
+import { QueryBuilder } from '../src/query-builder'
+import { ValidationError } from '../src/validation'
+
+describe('Pipeline Aggregations', () => {
+  let builder: QueryBuilder
+
+  beforeEach(() => {
+    builder = new QueryBuilder()
+  })
+
+  describe('Parent pipelines', () => {
+    it('should build derivative and cumulative_sum inside a histogram', () => {
+      const result = builder
+        .dateHistogramAgg('per_month', 'created_at', '1M', (month) =>
+          month
+            .sumAgg('sales', 'price')
+            .derivativeAgg('sales_change', 'sales', { unit: '1d' })
+            .cumulativeSumAgg('running_sales', 'sales')
+        )
+        .build()
+
+      expect(result.aggs?.per_month.aggs).toEqual({
+        sales: { sum: { field: 'price' } },
+        sales_change: { derivative: { buckets_path: 'sales', unit: '1d' } },
+        running_sales: { cumulative_sum: { buckets_path: 'sales' } },
+      })
+    })
+
+    it('should build moving_fn with a default script and options', () => {
+      const result = new AggregationBuilder()
+        .movingFnAgg('avg_7d', 'sales', 7, undefined, {
+          shift: 1,
+          gapPolicy: 'insert_zeros',
+        })
+        .build()
+
+      expect(result.avg_7d).toEqual({
+        moving_fn: {
+          buckets_path: 'sales',
+          window: 7,
+          script: 'MovingFunctions.unweightedAvg(values)',
+          shift: 1,
+          gap_policy: 'insert_zeros',
+        },
+      })
+    })
+
+    it('should build bucket_script and bucket_selector from path maps', () => {
+      const result = builder
+        .termsAgg('brands', 'brand', 10, (brand) =>
+          brand
+            .sumAgg('revenue', 'price')
+            .bucketScriptAgg(
+              'avg_ticket',
+              { revenue: 'revenue', orders: '_count' },
+              'params.revenue / params.orders',
+              { format: '0.00' }
+            )
+            .bucketSelectorAgg(
+              'big_brands',
+              { revenue: 'revenue' },
+              'params.revenue > 1000'
+            )
+        )
+        .build()
+
+      expect(result.aggs?.brands.aggs.avg_ticket).toEqual({
+        bucket_script: {
+          buckets_path: { revenue: 'revenue', orders: '_count' },
+          script: 'params.revenue / params.orders',
+          format: '0.00',
+        },
+      })
+      expect(result.aggs?.brands.aggs.big_brands).toEqual({
+        bucket_selector: {
+          buckets_path: { revenue: 'revenue' },
+          script: 'params.revenue > 1000',
+        },
+      })
+    })
+
+    it('should build bucket_sort', () => {
+      const result = builder
+        .termsAgg('brands', 'brand', 50, (brand) =>
+          brand
+            .sumAgg('revenue', 'price')
+            .bucketSortAgg('top', { sort: [{ revenue: 'desc' }], size: 5 })
+        )
+        .build()
+
+      expect(result.aggs?.brands.aggs.top).toEqual({
+        bucket_sort: { sort: [{ revenue: 'desc' }], size: 5 },
+      })
+    })
+  })
+
+  describe('Sibling pipelines', () => {
+    it('should build bucket metrics next to the multi-bucket aggregation', () => {
+      const result = builder
+        .dateHistogramAgg('per_month', 'created_at', '1M', (month) =>
+          month.sumAgg('sales', 'price')
+        )
+        .avgBucketAgg('avg_monthly', 'per_month>sales')
+        .maxBucketAgg('best_month', 'per_month>sales')
+        .minBucketAgg('worst_month', 'per_month>sales')
+        .sumBucketAgg('total', 'per_month>sales')
+        .statsBucketAgg('monthly_stats', 'per_month>sales', {
+          gapPolicy: 'skip',
+        })
+        .build()
+
+      expect(result.aggs?.avg_monthly).toEqual({
+        avg_bucket: { buckets_path: 'per_month>sales' },
+      })
+      expect(result.aggs?.monthly_stats).toEqual({
+        stats_bucket: { buckets_path: 'per_month>sales', gap_policy: 'skip' },
+      })
+      expect(Object.keys(result.aggs || {})).toHaveLength(6)
+    })
+
+    it('should resolve multi-value metric and keyed bucket paths', () => {
+      expect(() =>
+        builder
+          .termsAgg('brands', 'brand', 10, (brand) =>
+            brand.aggregate('price_stats', { stats: { field: 'price' } })
+          )
+          .maxBucketAgg('max_avg', 'brands>price_stats.avg')
+          .filtersAgg('groups', { a: { term: { a: 1 } } }, (g) =>
+            g.sumAgg('sales', 'price')
+          )
+          .sumBucketAgg('group_a', 'groups[a]>sales')
+          .build()
+      ).not.toThrow()
+    })
+  })
+
+  describe('buckets_path validation', () => {
+    it('should reject references to missing aggregations at build time', () => {
+      const query = builder
+        .dateHistogramAgg('per_month', 'created_at', '1M', (month) =>
+          month.sumAgg('sales', 'price')
+        )
+        .avgBucketAgg('avg_monthly', 'per_month>revenue')
+
+      expect(() => query.build()).toThrow(ValidationError)
+
+      expect(() => query.build()).toThrow(
+        expect.objectContaining({
+          code: 'BUCKETS_PATH_NOT_FOUND',
+          details: expect.objectContaining({
+            pipeline: 'avg_monthly',
+            missing: 'revenue',
+            available: ['sales'],
+          }),
+        })
+      )
+    })
+
+    it('should resolve aggregations added after the pipeline', () => {
+      expect(() =>
+        builder
+          .avgBucketAgg('avg_monthly', 'per_month>sales')
+          .dateHistogramAgg('per_month', 'created_at', '1M', (month) =>
+            month.sumAgg('sales', 'price')
+          )
+          .build()
+      ).not.toThrow()
+    })
+
+    it('should accept special paths', () => {
+      expect(() =>
+        builder
+          .dateHistogramAgg('per_day', 'created_at', '1d', (day) =>
+            day.derivativeAgg('count_change', '_count')
+          )
+          .build()
+      ).not.toThrow()
+    })
+
+    it('should check bucket_script maps and bucket_sort keys', () => {
+      expect(() =>
+        new QueryBuilder()
+          .termsAgg('brands', 'brand', 10, (brand) =>
+            brand.bucketScriptAgg('ratio', { a: 'missing' }, 'params.a')
+          )
+          .build()
+      ).toThrow(ValidationError)
+
+      expect(() =>
+        new QueryBuilder()
+          .termsAgg('brands', 'brand', 10, (brand) =>
+            brand.bucketSortAgg('top', { sort: [{ missing: 'desc' }] })
+          )
+          .build()
+      ).toThrow(ValidationError)
+    })
+
+    it('should reject parent pipelines at the top level', () => {
+      expect(() =>
+        new QueryBuilder()
+          .aggs((aggs) =>
+            aggs.sumAgg('sales', 'price').derivativeAgg('d', 'sales')
+          )
+          .build()
+      ).toThrow(ValidationError)
+    })
+
+    it('should reject malformed paths immediately', () => {
+      const aggs = new AggregationBuilder()
+
+      expect(() => aggs.avgBucketAgg('a', '')).toThrow(ValidationError)
+      expect(() => aggs.avgBucketAgg('a', 'per_month>>sales')).toThrow(
+        ValidationError
+      )
+      expect(() => aggs.movingFnAgg('m', 'sales', 0)).toThrow(
+        'Moving function window must be a positive integer'
+      )
+      expect(() => aggs.bucketSelectorAgg('s', { a: 'a' }, '')).toThrow(
+        'bucket_selector script must be a non-empty string'
+      )
+    })
+  })
+})
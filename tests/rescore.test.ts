@@ -0,0 +1,110 @@
+import { QueryBuilder } from '../src/query-builder'
+import { ValidationError } from '../src/validation'
+
+interface Article {
+  title: string
+  body: string
+  likes: number
+}
+
+describe('Rescoring', () => {
+  it('should rescore the top hits with a sub-query', () => {
+    const query = new QueryBuilder<Article>()
+      .match('body', 'search engine')
+      .rescore(50, (r) => r.matchPhrase('body', 'search engine'), {
+        queryWeight: 0.7,
+        rescoreQueryWeight: 1.2,
+        scoreMode: 'total',
+      })
+      .build()
+
+    expect(query.rescore).toEqual([
+      {
+        window_size: 50,
+        query: {
+          rescore_query: {
+            bool: {
+              must: [{ match_phrase: { body: 'search engine' } }],
+            },
+          },
+          query_weight: 0.7,
+          rescore_query_weight: 1.2,
+          score_mode: 'total',
+        },
+      },
+    ])
+  })
+
+  it('should keep several rescorers in order', () => {
+    const query = new QueryBuilder<Article>()
+      .match('title', 'elasticsearch')
+      .rescore(100, (r) => r.matchPhrase('title', 'elasticsearch'))
+      .rescore(10, (r) =>
+        r.matchAll().functionScore([{ field_value_factor: { field: 'likes' } }])
+      )
+      .build()
+
+    expect(query.rescore!.map((r) => r.window_size)).toEqual([100, 10])
+    expect(query.rescore![1].query.rescore_query.function_score).toBeDefined()
+  })
+
+  it('should be kept by clone() and cleared by reset()', () => {
+    const builder = new QueryBuilder().rescore(20, (r) => r.match('a', 'b'))
+
+    expect(builder.clone().build().rescore).toHaveLength(1)
+    expect(builder.reset().build().rescore).toBeUndefined()
+  })
+
+  describe('Validation', () => {
+    it('should reject invalid windows and weights', () => {
+      const builder = new QueryBuilder()
+      const rescoreQuery = (r: QueryBuilder) => r.match('a', 'b')
+
+      expect(() => builder.rescore(0, rescoreQuery)).toThrow(
+        'Rescore window size must be a positive integer'
+      )
+      expect(() => builder.rescore(20000, rescoreQuery)).toThrow(
+        ValidationError
+      )
+      expect(() =>
+        builder.rescore(10, rescoreQuery, { queryWeight: NaN })
+      ).toThrow('Rescore query weights must be finite numbers')
+      expect(() => builder.rescore(10, () => undefined)).toThrow(
+        'Rescore query requires at least one clause'
+      )
+    })
+
+    it('should reject a sort other than _score descending', () => {
+      const rescored = () =>
+        new QueryBuilder().rescore(10, (r) => r.match('a', 'b'))
+
+      expect(() => rescored().sort('_score', 'desc').build()).not.toThrow()
+      expect(() => rescored().sort('likes', 'desc').build()).toThrow(
+        ValidationError
+      )
+      expect(() => rescored().sort('_score', 'asc').build()).toThrow(
+        expect.objectContaining({ code: 'RESCORE_SORT_CONFLICT' })
+      )
+    })
+
+    it('should leave the pit tiebreaker to the engine', () => {
+      const rescored = new QueryBuilder()
+        .pit('abc')
+        .rescore(10, (r) => r.match('a', 'b'))
+
+      expect(rescored.build().sort).toBeUndefined()
+      expect(() => rescored.tiebreaker('_shard_doc').build()).toThrow(
+        expect.objectContaining({ code: 'RESCORE_SORT_CONFLICT' })
+      )
+    })
+
+    it('should reject collapse', () => {
+      expect(() =>
+        new QueryBuilder()
+          .rescore(10, (r) => r.match('a', 'b'))
+          .collapse('family')
+          .build()
+      ).toThrow('rescore cannot be combined with collapse')
+    })
+  })
+})
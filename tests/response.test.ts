@@ -0,0 +1,224 @@
+import { QueryBuilder } from '../src/query-builder'
+import { parseResponse } from '../src/response'
+
+interface Product {
+  name: string
+  price: number
+  createdAt: Date
+  brand: {
+    name: string
+    country?: string
+  }
+  variants: Array<{
+    color: string
+    size: number
+  }>
+}
+
+const hit = (source: any) => ({
+  _index: 'products',
+  _id: '1',
+  _score: 1,
+  _source: source,
+})
+
+describe('parseResponse', () => {
+  describe('Typed results', () => {
+    it('should type aggregations from the builder', () => {
+      const query = new QueryBuilder<Product>()
+        .termsAgg('brands', 'brand.name.keyword', 10, (brand) =>
+          brand
+            .avgAgg('avg_price', 'price')
+            .dateHistogramAgg('per_month', 'createdAt', '1M', (month) =>
+              month.sumAgg('sales', 'price')
+            )
+        )
+        .cardinalityAgg('colors', 'variants.color')
+        .filtersAgg('groups', { cheap: {}, premium: {} })
+
+      const response = parseResponse(query, {
+        hits: { max_score: 1, hits: [] },
+        aggregations: {
+          brands: {
+            buckets: [
+              {
+                key: 'acme',
+                doc_count: 3,
+                avg_price: { value: 12.5 },
+                per_month: {
+                  buckets: [
+                    {
+                      key: 0,
+                      key_as_string: '2024-01',
+                      doc_count: 3,
+                      sales: { value: 37.5 },
+                    },
+                  ],
+                },
+              },
+            ],
+          },
+          colors: { value: 4 },
+          groups: {
+            buckets: {
+              cheap: { doc_count: 1 },
+              premium: { doc_count: 2 },
+            },
+          },
+        },
+      })
+
+      const brand = response.aggregations.brands.buckets[0]
+      const avgPrice: number | null = brand.avg_price.value
+      const monthKey: string = brand.per_month.buckets[0].key_as_string
+      const sales: number | null = brand.per_month.buckets[0].sales.value
+      const colors: number = response.aggregations.colors.value
+      const premium: number =
+        response.aggregations.groups.buckets.premium.doc_count
+
+      expect([avgPrice, monthKey, sales, colors, premium]).toEqual([
+        12.5,
+        '2024-01',
+        37.5,
+        4,
+        2,
+      ])
+
+      // @ts-expect-error aggregation was never registered
+      expect(response.aggregations.missing).toBeUndefined()
+      // @ts-expect-error filters keys come from the builder
+      expect(response.aggregations.groups.buckets.other).toBeUndefined()
+    })
+
+    it('should type aggregations built through aggs()', () => {
+      const query = new QueryBuilder<Product>().aggs((aggs) =>
+        aggs
+          .nestedAgg('variants', 'variants', (variant) =>
+            variant.maxAgg('max_size', 'variants.size')
+          )
+          .globalAgg('all')
+      )
+
+      const response = parseResponse(query, {
+        hits: { hits: [] },
+        aggregations: {
+          variants: { doc_count: 2, max_size: { value: 42 } },
+          all: { doc_count: 10 },
+        },
+      })
+
+      const maxSize: number | null =
+        response.aggregations.variants.max_size.value
+      expect(maxSize).toBe(42)
+      expect(response.aggregations.all.doc_count).toBe(10)
+    })
+
+    it('should type hits from the source selection', () => {
+      const query = new QueryBuilder<Product>()
+        .match('name', 'laptop')
+        .source(['name', 'brand.name'])
+
+      const response = parseResponse(query, {
+        hits: {
+          max_score: 1,
+          hits: [hit({ name: 'Laptop', brand: { name: 'acme' } })],
+        },
+      })
+
+      const source = response.hits.hits[0]._source
+      const name: string = source.name
+      const brandName: string = source.brand.name
+
+      expect([name, brandName]).toEqual(['Laptop', 'acme'])
+      // @ts-expect-error price was not selected
+      expect(source.price).toBeUndefined()
+      // @ts-expect-error brand.country was not selected
+      expect(source.brand.country).toBeUndefined()
+    })
+
+    it('should default hits to the full document', () => {
+      const response = parseResponse(new QueryBuilder<Product>(), {
+        hits: { hits: [hit({ name: 'Laptop', price: 10 })] },
+      })
+
+      const price: number = response.hits.hits[0]._source.price
+      expect(price).toBe(10)
+      expect(response.aggregations).toEqual({})
+    })
+
+    it('should unwrap client responses with a body', () => {
+      const response = parseResponse(new QueryBuilder(), {
+        statusCode: 200,
+        body: { hits: { hits: [hit({ a: 1 })] } },
+      })
+
+      expect(response.hits.hits[0]._source).toEqual({ a: 1 })
+    })
+  })
+
+  describe('Runtime shape checks', () => {
+    const query = new QueryBuilder()
+      .termsAgg('brands', 'brand', 10, (b) => b.avgAgg('avg_price', 'price'))
+      .dateHistogramAgg('per_day', 'created_at', '1d', (day) =>
+        day.sumAgg('sales', 'price').derivativeAgg('change', 'sales')
+      )
+
+    const valid = () => ({
+      hits: { hits: [] },
+      aggregations: {
+        brands: {
+          buckets: [{ key: 'a', doc_count: 1, avg_price: { value: null } }],
+        },
+        per_day: {
+          buckets: [
+            { key: 0, doc_count: 1, sales: { value: 1 } },
+            { key: 1, doc_count: 1, sales: { value: 3 }, change: { value: 2 } },
+          ],
+        },
+      },
+    })
+
+    it('should accept matching responses', () => {
+      expect(() => parseResponse(query, valid())).not.toThrow()
+    })
+
+    it('should reject non-object responses and missing hits', () => {
+      expect(() => parseResponse(query, null)).toThrow(
+        expect.objectContaining({ code: 'INVALID_RESPONSE' })
+      )
+      expect(() => parseResponse(query, { took: 1 })).toThrow(
+        expect.objectContaining({ code: 'RESPONSE_SHAPE_MISMATCH' })
+      )
+    })
+
+    it('should reject missing aggregations', () => {
+      const raw: any = valid()
+      delete raw.aggregations.brands.buckets[0].avg_price
+
+      expect(() => parseResponse(query, raw)).toThrow(
+        expect.objectContaining({ code: 'RESPONSE_AGGREGATION_MISSING' })
+      )
+    })
+
+    it('should reject mismatched shapes with the offending path', () => {
+      const raw: any = valid()
+      raw.aggregations.per_day.buckets[1].sales = { value: 'x' }
+
+      expect(() => parseResponse(query, raw)).toThrow(
+        'Response does not match the query at aggregations.per_day.buckets[1].sales.value'
+      )
+
+      const flat: any = valid()
+      flat.aggregations.brands = { value: 1 }
+      expect(() => parseResponse(query, flat)).toThrow(
+        expect.objectContaining({ code: 'RESPONSE_SHAPE_MISMATCH' })
+      )
+    })
+
+    it('should reject non-object sources', () => {
+      expect(() =>
+        parseResponse(new QueryBuilder(), { hits: { hits: [hit('text')] } })
+      ).toThrow(expect.objectContaining({ code: 'RESPONSE_SHAPE_MISMATCH' }))
+    })
+  })
+})
@@ -0,0 +1,200 @@
+import { QueryBuilder } from '../src/query-builder'
+import {
+  escapeQueryString,
+  escapeSimpleQueryString,
+  escapeWildcard,
+  sanitizeWildcard,
+  validateRegexp,
+} from '../src/sanitize'
+
+describe('Input sanitization', () => {
+  describe('Escaping', () => {
+    it('should escape query_string syntax and drop angle brackets', () => {
+      expect(escapeQueryString('title:(a OR b) AND c*')).toBe(
+        'title\\:\\(a \\OR b\\) \\AND c\\*'
+      )
+      expect(escapeQueryString('price>10 && "x"~2 /re/ ORDER')).toBe(
+        'price10 \\&\\& \\"x\\"\\~2 \\/re\\/ ORDER'
+      )
+    })
+
+    it('should escape simple_query_string operators', () => {
+      expect(escapeSimpleQueryString('-draft +urgent (a | b*)~')).toBe(
+        '\\-draft \\+urgent \\(a \\| b\\*\\)\\~'
+      )
+    })
+
+    it('should escape wildcard characters', () => {
+      expect(escapeWildcard('50%? off*\\')).toBe('50%\\? off\\*\\\\')
+    })
+  })
+
+  describe('sanitizeWildcard', () => {
+    it('should reject or strip leading wildcards', () => {
+      expect(sanitizeWildcard('lap*')).toBe('lap*')
+      expect(() => sanitizeWildcard('*top')).toThrow(
+        expect.objectContaining({ code: 'LEADING_WILDCARD' })
+      )
+      expect(sanitizeWildcard('*?top*', 'strip')).toBe('top*')
+    })
+
+    it('should reject patterns that are only wildcards even when stripping', () => {
+      expect(() => sanitizeWildcard('**', 'strip')).toThrow(
+        expect.objectContaining({ code: 'LEADING_WILDCARD' })
+      )
+    })
+  })
+
+  describe('validateRegexp', () => {
+    it.each([
+      'lap.*',
+      '[a-z]+[0-9]{2,4}',
+      '(colou?r)+',
+      '(cat|dog)*',
+      '\\(a+\\)+',
+    ])('should accept %s', (pattern) => {
+      expect(() => validateRegexp(pattern)).not.toThrow()
+    })
+
+    it.each([
+      ['(a+)+', 'UNSAFE_REGEXP'],
+      ['(x(a*)b)*', 'UNSAFE_REGEXP'],
+      ['(a|ab)*', 'UNSAFE_REGEXP'],
+      ['(a|a)+', 'UNSAFE_REGEXP'],
+      ['a{1,1000}', 'UNSAFE_REGEXP'],
+      ['(ab', 'INVALID_REGEXP'],
+      ['ab)', 'INVALID_REGEXP'],
+      ['[a-z', 'INVALID_REGEXP'],
+    ])('should reject %s with %s', (pattern, code) => {
+      expect(() => validateRegexp(pattern)).toThrow(
+        expect.objectContaining({ code: code })
+      )
+    })
+
+    it('should bound the pattern length', () => {
+      expect(() => validateRegexp('a'.repeat(257))).toThrow(
+        expect.objectContaining({ code: 'REGEXP_TOO_LONG' })
+      )
+      expect(() => validateRegexp('a'.repeat(257), 1000)).not.toThrow()
+    })
+
+    it('should report the position of the offending group', () => {
+      expect(() => validateRegexp('abc(d+)*')).toThrow(
+        'Regular expression is unsafe: nested repetition at position 3'
+      )
+    })
+  })
+
+  describe('QueryBuilder.userInput', () => {
+    it('should escape query string input', () => {
+      const query = new QueryBuilder()
+        .userInput()
+        .queryString('title:secret OR *')
+        .simpleQueryString('-draft', ['title'])
+        .build()
+
+      expect(query.query!.bool!.must).toEqual([
+        { query_string: { query: 'title\\:secret \\OR \\*' } },
+        { simple_query_string: { query: '\\-draft', fields: ['title'] } },
+      ])
+    })
+
+    it('should guard wildcards, regexps and Lucene syntax', () => {
+      const builder = new QueryBuilder().userInput()
+
+      expect(() => builder.wildcard('name', '*top')).toThrow(
+        expect.objectContaining({ code: 'LEADING_WILDCARD' })
+      )
+      expect(() => builder.regexp('name', '(a+)+')).toThrow(
+        expect.objectContaining({ code: 'UNSAFE_REGEXP' })
+      )
+      expect(() =>
+        builder.lucene('name:*top', { allowLeadingWildcard: true })
+      ).toThrow(expect.objectContaining({ code: 'LEADING_WILDCARD' }))
+      expect(() => builder.prefix('name', '*top')).toThrow(
+        expect.objectContaining({ code: 'LEADING_WILDCARD' })
+      )
+    })
+
+    it('should strip leading wildcards from every clause under strip', () => {
+      const query = new QueryBuilder()
+        .userInput({ leadingWildcard: 'strip' })
+        .lucene('name:*top')
+        .kql('sku:?ab*')
+        .prefix('brand', '*ac')
+        .build()
+
+      expect(query.query!.bool).toEqual({
+        must: [
+          { wildcard: { name: { value: 'top' } } },
+          { prefix: { brand: 'ac' } },
+        ],
+        filter: [{ wildcard: { sku: { value: 'ab*' } } }],
+      })
+    })
+
+    it('should guard KQL, Lucene and filter aggregation clauses', () => {
+      const builder = new QueryBuilder().userInput()
+      const code = (code: string) => expect.objectContaining({ code })
+
+      expect(() => builder.lucene('title:/(a+)+b/')).toThrow(
+        code('UNSAFE_REGEXP')
+      )
+      expect(() => builder.kql('title:*abc')).toThrow(code('LEADING_WILDCARD'))
+      expect(() => builder.kql('*abc')).toThrow(code('LEADING_WILDCARD'))
+      expect(() =>
+        builder.filterAgg('top', (q) => q.wildcard('name', '*top'))
+      ).toThrow(code('LEADING_WILDCARD'))
+
+      const query = new QueryBuilder()
+        .userInput({ leadingWildcard: 'strip' })
+        .kql('*foo/bar \\(baz\\)*')
+        .build()
+      expect(query.query!.bool!.filter).toEqual([
+        { query_string: { query: 'foo\\/bar\\ \\(baz\\)*' } },
+      ])
+    })
+
+    it('should apply the options', () => {
+      const query = new QueryBuilder()
+        .userInput({ leadingWildcard: 'strip', escapeQuerySyntax: false })
+        .wildcard('name', '*top*')
+        .queryString('a AND b')
+        .build()
+
+      expect(query.query!.bool!.must).toEqual([
+        { wildcard: { name: 'top*' } },
+        { query_string: { query: 'a AND b' } },
+      ])
+    })
+
+    it('should protect callbacks and clones, and turn off with false', () => {
+      const builder = new QueryBuilder().userInput()
+
+      expect(() => builder.should((s) => s.wildcard('name', '*top'))).toThrow(
+        expect.objectContaining({ code: 'LEADING_WILDCARD' })
+      )
+      expect(() =>
+        builder.nested('variants', (n) => n.regexp('variants.sku', '(a*)*'))
+      ).toThrow(expect.objectContaining({ code: 'UNSAFE_REGEXP' }))
+      expect(() => builder.clone().wildcard('name', '*top')).toThrow(
+        expect.objectContaining({ code: 'LEADING_WILDCARD' })
+      )
+      expect(() =>
+        builder.userInput(false).wildcard('name', '*top')
+      ).not.toThrow()
+    })
+
+    it('should leave builders without userInput() unchanged', () => {
+      const query = new QueryBuilder()
+        .wildcard('name', '*top')
+        .queryString('title:x')
+        .build()
+
+      expect(query.query!.bool!.must).toEqual([
+        { wildcard: { name: '*top' } },
+        { query_string: { query: 'title:x' } },
+      ])
+    })
+  })
+})
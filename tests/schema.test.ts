@@ -0,0 +1,259 @@
+import { QueryBuilder } from '../src/query-builder'
+import { Schema } from '../src/schema'
+import { ValidationError } from '../src/validation'
+
+const mappingResponse = {
+  products: {
+    mappings: {
+      properties: {
+        title: {
+          type: 'text',
+          fields: { keyword: { type: 'keyword', ignore_above: 256 } },
+        },
+        description: { type: 'text' },
+        status: { type: 'keyword' },
+        sku: { type: 'keyword' },
+        price: { type: 'scaled_float', scaling_factor: 100 },
+        created_at: { type: 'date' },
+        location: { type: 'geo_point' },
+        warehouse: { type: 'keyword' },
+        brand: { properties: { name: { type: 'keyword' } } },
+        variants: {
+          type: 'nested',
+          properties: {
+            color: { type: 'keyword' },
+            stock: { type: 'integer' },
+          },
+        },
+        label: { type: 'alias', path: 'title' },
+      },
+      runtime: { margin: { type: 'double' } },
+    },
+  },
+}
+
+function codes(builder: QueryBuilder): string[] {
+  return new Schema(mappingResponse)
+    .check(builder.build())
+    .map((issue) => issue.code)
+}
+
+describe('Schema', () => {
+  describe('Loading mappings', () => {
+    it('should flatten objects, multi-fields, aliases and runtime fields', () => {
+      const schema = new Schema(mappingResponse)
+
+      expect(schema.field('title.keyword')).toEqual({
+        path: 'title.keyword',
+        type: 'keyword',
+      })
+      expect(schema.field('brand.name')!.type).toBe('keyword')
+      expect(schema.field('variants.color')).toEqual({
+        path: 'variants.color',
+        type: 'keyword',
+        nestedPath: 'variants',
+      })
+      expect(schema.field('label')!.path).toBe('title')
+      expect(schema.field('margin')!.type).toBe('double')
+      expect(schema.field('missing')).toBeUndefined()
+    })
+
+    it('should accept mappings, bare properties and client results', () => {
+      const { mappings } = mappingResponse.products
+
+      expect(new Schema(mappings).field('status')).toBeDefined()
+      expect(new Schema(mappings.properties).field('status')).toBeDefined()
+      expect(
+        new Schema({ body: mappingResponse }).field('status')
+      ).toBeDefined()
+    })
+
+    it('should merge indices unless their fields conflict', () => {
+      const response = {
+        'logs-1': { mappings: { properties: { code: { type: 'keyword' } } } },
+        'logs-2': { mappings: { properties: { code: { type: 'long' } } } },
+      }
+
+      expect(() => new Schema(response)).toThrow(
+        'Field "code" is mapped as keyword and as long in index "logs-2"; pass the index name to load one mapping'
+      )
+      expect(new Schema(response, 'logs-2').field('code')!.type).toBe('long')
+      expect(() => new Schema(response, 'logs-3')).toThrow(ValidationError)
+      expect(() => new Schema({ acknowledged: true })).toThrow(
+        expect.objectContaining({ code: 'INVALID_MAPPING' })
+      )
+    })
+  })
+
+  describe('check', () => {
+    it('should accept clauses that fit the mapping', () => {
+      const builder = new QueryBuilder()
+        .match('title', 'shoes')
+        .term('title', 'Red Shoes')
+        .terms('status', ['active'])
+        .range('price', { gte: 10 })
+        .geoDistance('location', '10km', 40, -70)
+        .nested('variants', (q) => q.term('variants.color.keyword', 'red'))
+        .termsAgg('by_status', 'status')
+        .sort('created_at', 'desc')
+
+      // term() targets title.keyword; variants.color.keyword is unmapped
+      expect(new Schema(mappingResponse).check(builder.build())).toEqual([
+        {
+          code: 'UNKNOWN_FIELD',
+          path: 'query.bool.must[1].nested.query.bool.filter[0].term',
+          field: 'variants.color.keyword',
+          message:
+            'term query on "variants.color.keyword": field is not in the mapping; "variants.color" is a keyword field, use it directly',
+        },
+      ])
+    })
+
+    it('should report exact queries and aggregations on text', () => {
+      const builder = new QueryBuilder()
+        .terms('title', ['Red Shoes'])
+        .raw({ term: { description: 'x' } }, 'filter')
+        .termsAgg('by_title', 'title')
+        .sort('description', 'asc')
+      const issues = new Schema(mappingResponse).check(builder.build())
+
+      expect(issues.map((issue) => issue.code)).toEqual([
+        'TERM_ON_TEXT',
+        'TERM_ON_TEXT',
+        'AGGREGATION_ON_TEXT',
+        'SORT_ON_TEXT',
+      ])
+      expect(issues[0].message).toBe(
+        'terms query on text field "title" matches analyzed tokens, not the whole value; use "title.keyword"'
+      )
+      expect(issues[1].message).toContain('map a keyword sub-field')
+    })
+
+    it('should report ranges on strings, geo queries and unknown fields', () => {
+      expect(
+        codes(
+          new QueryBuilder()
+            .range('sku', { gte: 'A' })
+            .geoDistance('warehouse', '5km', 1, 2)
+            .match('titel', 'x')
+            .multiMatch(['title^2', 'summary'], 'x')
+        )
+      ).toEqual([
+        'UNKNOWN_FIELD',
+        'UNKNOWN_FIELD',
+        'RANGE_ON_STRING',
+        'GEO_QUERY_ON_NON_GEO_FIELD',
+      ])
+    })
+
+    it('should check nested paths and nested context', () => {
+      const issues = new Schema(mappingResponse).check(
+        new QueryBuilder()
+          .nested('brand', (q) => q.match('brand.name', 'x'))
+          .match('variants.color', 'red')
+          .nested('variants', (q) => q.match('title', 'x'))
+          .build()
+      )
+
+      expect(issues.map((issue) => [issue.code, issue.field])).toEqual([
+        ['NOT_NESTED_PATH', 'brand'],
+        ['MISSING_NESTED_CONTEXT', 'variants.color'],
+        ['MISSING_NESTED_CONTEXT', 'title'],
+      ])
+      expect(issues[1].message).toBe(
+        'match query on "variants.color" matches nothing outside a nested query on "variants"'
+      )
+    })
+
+    it('should follow nested and reverse_nested aggregations', () => {
+      const issues = new Schema(mappingResponse).check({
+        aggs: {
+          variants: {
+            nested: { path: 'variants' },
+            aggs: {
+              colors: {
+                terms: { field: 'variants.color' },
+                aggs: {
+                  products: {
+                    reverse_nested: {},
+                    aggs: { statuses: { terms: { field: 'status' } } },
+                  },
+                },
+              },
+              statuses: { terms: { field: 'status' } },
+            },
+          },
+          stock: { sum: { field: 'variants.stock' } },
+        },
+      })
+
+      expect(issues.map((issue) => issue.path)).toEqual([
+        'aggs.variants.aggs.statuses.terms',
+        'aggs.stock.sum',
+      ])
+      expect(issues[0].message).toBe(
+        'terms aggregation on "status" matches nothing inside nested "variants"; use a reverse_nested aggregation'
+      )
+    })
+
+    it('should count runtime fields of the body as mapped', () => {
+      expect(
+        codes(
+          new QueryBuilder()
+            .runtimeField('day', 'keyword')
+            .term('day', 'Monday')
+            .range('margin', { gt: 0 })
+        )
+      ).toEqual([])
+    })
+  })
+
+  describe('QueryBuilder.schema', () => {
+    it('should target mapped keyword fields from term()', () => {
+      const builder = new QueryBuilder()
+        .schema(new Schema(mappingResponse))
+        .term('status', 'active')
+        .term('title', 'Red Shoes')
+
+      expect(builder.build().query!.bool!.filter).toEqual([
+        { term: { status: 'active' } },
+        { term: { 'title.keyword': 'Red Shoes' } },
+      ])
+      expect(builder.validate()).toEqual({ valid: true, errors: [] })
+    })
+
+    it('should keep term() fields without an exact-match field', () => {
+      const builder = new QueryBuilder()
+        .schema(new Schema(mappingResponse))
+        .term('description', 'x')
+        .term('unmapped', 'y')
+
+      expect(builder.build().query!.bool!.filter).toEqual([
+        { term: { description: 'x' } },
+        { term: { unmapped: 'y' } },
+      ])
+      expect(builder.validate().errors).toEqual([
+        'term query on text field "description" matches analyzed tokens, not the whole value; map a keyword sub-field (at query.bool.filter[0].term)',
+        'term query on "unmapped": field is not in the mapping (at query.bool.filter[1].term)',
+      ])
+    })
+
+    it('should report issues from validate()', () => {
+      const schema = new Schema(mappingResponse)
+      const builder = new QueryBuilder()
+        .schema(schema)
+        .raw({ term: { 'status.keyword': 'active' } }, 'filter')
+        .raw({ term: { 'description.keyword': 'x' } }, 'filter')
+
+      expect(builder.validate()).toEqual({
+        valid: false,
+        errors: [
+          'term query on "status.keyword": field is not in the mapping; "status" is a keyword field, use it directly (at query.bool.filter[0].term)',
+          'term query on "description.keyword": field is not in the mapping; "description" is a text field, map a keyword sub-field to match it exactly (at query.bool.filter[1].term)',
+        ],
+      })
+      expect(builder.clone().validate().valid).toBe(false)
+      expect(builder.schema(false).validate().valid).toBe(true)
+    })
+  })
+})
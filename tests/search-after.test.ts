@@ -0,0 +1,163 @@
+import { QueryBuilder } from '../src/query-builder'
+import { LogsQueryBuilder } from '../src/presets'
+import { ValidationError } from '../src/validation'
+
+const response = (sorts: any[][], pitId?: string) => ({
+  ...(pitId ? { pit_id: pitId } : {}),
+  hits: {
+    hits: sorts.map((sort, i) => ({ _id: String(i), _source: {}, sort })),
+  },
+})
+
+describe('search_after pagination', () => {
+  let builder: QueryBuilder
+
+  beforeEach(() => {
+    builder = new QueryBuilder()
+  })
+
+  describe('searchAfter / pit / tiebreaker', () => {
+    it('should add search_after with a matching sort', () => {
+      const result = builder
+        .sort('created_at', 'desc')
+        .tiebreaker('id')
+        .searchAfter([1700000000000, 'doc-9'])
+        .build()
+
+      expect(result.sort).toEqual([{ created_at: 'desc' }, { id: 'asc' }])
+      expect(result.search_after).toEqual([1700000000000, 'doc-9'])
+    })
+
+    it('should add a _shard_doc tiebreaker with a pit', () => {
+      const result = builder
+        .sort('created_at', 'desc')
+        .pit('pit-id', '5m')
+        .build()
+
+      expect(result.pit).toEqual({ id: 'pit-id', keep_alive: '5m' })
+      expect(result.sort).toEqual([
+        { created_at: 'desc' },
+        { _shard_doc: 'asc' },
+      ])
+    })
+
+    it('should not repeat a tiebreaker already in the sort', () => {
+      const result = builder
+        .sort('created_at', 'desc')
+        .sort('id')
+        .tiebreaker('id')
+        .build()
+
+      expect(result.sort).toEqual([{ created_at: 'desc' }, { id: 'asc' }])
+    })
+
+    it('should reject search_after without a matching sort', () => {
+      expect(() => builder.searchAfter([1]).build()).toThrow(
+        'search_after requires a sort'
+      )
+      expect(() =>
+        new QueryBuilder().sort('a').searchAfter([1, 2]).build()
+      ).toThrow(ValidationError)
+      expect(() =>
+        new QueryBuilder().sort('a').from(10).searchAfter([1]).build()
+      ).toThrow('search_after cannot be combined with a from offset')
+      expect(() => builder.searchAfter([])).toThrow(ValidationError)
+    })
+  })
+
+  describe('Result window', () => {
+    it('should reject from + size beyond max_result_window', () => {
+      const query = builder.from(9995).size(10)
+
+      expect(() => query.build()).toThrow(ValidationError)
+      expect(() => query.build()).toThrow(
+        expect.objectContaining({ code: 'RESULT_WINDOW_EXCEEDED' })
+      )
+    })
+
+    it('should count the default size', () => {
+      expect(() => builder.from(9990).build()).not.toThrow()
+      expect(() => builder.from(9991).build()).toThrow(ValidationError)
+    })
+
+    it('should check the configured max_result_window', () => {
+      const imported = QueryBuilder.fromDSL({ from: 9995, size: 10 })
+
+      expect(() =>
+        imported.clone().maxResultWindow(20000).build()
+      ).not.toThrow()
+      expect(imported.validate()).toEqual({
+        valid: false,
+        errors: [
+          'from + size cannot exceed 10000 (max_result_window); use searchAfter() for deep pagination',
+        ],
+      })
+      expect(builder.clone().maxResultWindow(20000).from(15000).lint()).toEqual(
+        []
+      )
+      expect(() => builder.maxResultWindow(500).rescore(600, () => {})).toThrow(
+        'Rescore window size cannot exceed 500 (max_rescore_window)'
+      )
+      expect(() => builder.maxResultWindow(0)).toThrow(
+        expect.objectContaining({ code: 'INVALID_RESULT_WINDOW' })
+      )
+    })
+  })
+
+  describe('nextSearchAfterPage', () => {
+    it('should resume after the last hit', () => {
+      const first = builder.sort('created_at', 'desc').tiebreaker('id').size(2)
+      const next = first.nextSearchAfterPage(
+        response([
+          [3, 'c'],
+          [2, 'b'],
+        ])
+      )
+
+      expect(next?.build().search_after).toEqual([2, 'b'])
+      expect(next?.build().sort).toEqual(first.build().sort)
+      expect(first.build().search_after).toBeUndefined()
+    })
+
+    it('should carry the refreshed pit id and drop from', () => {
+      const next = builder
+        .sort('created_at')
+        .from(20)
+        .pit('old-id')
+        .nextSearchAfterPage(response([[1, 7]], 'new-id'))
+
+      const result = next!.build()
+      expect(result.pit?.id).toBe('new-id')
+      expect(result.from).toBeUndefined()
+      expect(result.search_after).toEqual([1, 7])
+    })
+
+    it('should return undefined when the page is empty', () => {
+      expect(
+        builder.sort('a').nextSearchAfterPage(response([]))
+      ).toBeUndefined()
+    })
+
+    it('should require sort values on the hits', () => {
+      expect(() =>
+        builder.nextSearchAfterPage({ hits: { hits: [{ _id: '1' }] } })
+      ).toThrow(ValidationError)
+    })
+
+    it('should page a LogsQueryBuilder for infinite scroll', () => {
+      const logs = new LogsQueryBuilder()
+        .logLevel('error')
+        .sort('@timestamp', 'desc')
+        .pit('pit-1')
+        .size(100)
+
+      const next = logs.nextSearchAfterPage(response([[1700000000000, 42]]))
+
+      expect(next).toBeInstanceOf(LogsQueryBuilder)
+      expect(next?.build()).toEqual({
+        ...logs.build(),
+        search_after: [1700000000000, 42],
+      })
+    })
+  })
+})
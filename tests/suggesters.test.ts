@@ -0,0 +1,162 @@
+import { QueryBuilder } from '../src/query-builder'
+import { ValidationError } from '../src/validation'
+
+interface Product {
+  name: string
+  brand: string
+  suggest: string
+}
+
+describe('Suggesters', () => {
+  describe('Request', () => {
+    it('should add a term suggester', () => {
+      const query = new QueryBuilder<Product>()
+        .termSuggest('spelling', 'runing shoos', 'name', {
+          suggestMode: 'popular',
+          maxEdits: 1,
+          size: 3,
+        })
+        .build()
+
+      expect(query.suggest).toEqual({
+        spelling: {
+          text: 'runing shoos',
+          term: {
+            field: 'name',
+            size: 3,
+            suggest_mode: 'popular',
+            max_edits: 1,
+          },
+        },
+      })
+    })
+
+    it('should add a phrase suggester with a builder-made collate query', () => {
+      const query = new QueryBuilder<Product>()
+        .phraseSuggest('did_you_mean', 'runing shoos', 'name', {
+          gramSize: 2,
+          highlight: { preTag: '<em>', postTag: '</em>' },
+          directGenerators: [{ field: 'name', suggestMode: 'always' }],
+          collate: {
+            query: (q) => q.match('name', '{{suggestion}}'),
+            prune: true,
+          },
+        })
+        .build()
+
+      expect(query.suggest!.did_you_mean).toEqual({
+        text: 'runing shoos',
+        phrase: {
+          field: 'name',
+          gram_size: 2,
+          highlight: { pre_tag: '<em>', post_tag: '</em>' },
+          direct_generator: [{ field: 'name', suggest_mode: 'always' }],
+          collate: {
+            query: {
+              source: {
+                bool: {
+                  must: [{ match: { name: { query: '{{suggestion}}' } } }],
+                },
+              },
+            },
+            prune: true,
+          },
+        },
+      })
+    })
+
+    it('should add a completion suggester with contexts and fuzzy options', () => {
+      const query = new QueryBuilder<Product>()
+        .completionSuggest('autocomplete', 'nik', 'suggest', {
+          size: 5,
+          skipDuplicates: true,
+          fuzzy: { fuzziness: 'AUTO', prefixLength: 1 },
+          contexts: { brand: ['nike', { context: 'adidas', boost: 2 }] },
+        })
+        .build()
+
+      expect(query.suggest!.autocomplete).toEqual({
+        prefix: 'nik',
+        completion: {
+          field: 'suggest',
+          size: 5,
+          skip_duplicates: true,
+          contexts: { brand: ['nike', { context: 'adidas', boost: 2 }] },
+          fuzzy: { fuzziness: 'AUTO', prefix_length: 1 },
+        },
+      })
+      expect(
+        new QueryBuilder()
+          .completionSuggest('a', 'x', 'suggest', {
+            fuzzy: true,
+          })
+          .build().suggest!.a.completion!.fuzzy
+      ).toEqual({})
+    })
+
+    it('should reject duplicate names and empty text', () => {
+      const builder = new QueryBuilder().termSuggest('s', 'text', 'name')
+
+      expect(() => builder.termSuggest('s', 'text', 'name')).toThrow(
+        'Suggester "s" is already defined'
+      )
+      expect(() => builder.phraseSuggest('p', ' ', 'name')).toThrow(
+        ValidationError
+      )
+      expect(() => builder.completionSuggest('', 'x', 'suggest')).toThrow(
+        ValidationError
+      )
+    })
+  })
+
+  describe('suggestions', () => {
+    const builder = new QueryBuilder<Product>()
+      .termSuggest('spelling', 'runing', 'name')
+      .completionSuggest('autocomplete', 'nik', 'suggest')
+
+    it('should read typed options per suggester', () => {
+      const suggestions = builder.suggestions({
+        body: {
+          hits: { hits: [] },
+          suggest: {
+            spelling: [
+              {
+                text: 'runing',
+                offset: 0,
+                length: 6,
+                options: [{ text: 'running', score: 0.8, freq: 12 }],
+              },
+            ],
+            autocomplete: [
+              {
+                text: 'nik',
+                offset: 0,
+                length: 3,
+                options: [
+                  {
+                    text: 'Nike',
+                    _index: 'products',
+                    _id: '1',
+                    _score: 1,
+                    _source: { name: 'Nike Air', brand: 'nike', suggest: '' },
+                  },
+                ],
+              },
+            ],
+          },
+        },
+      })
+
+      expect(suggestions.spelling[0].options[0].freq).toBe(12)
+      expect(suggestions.autocomplete[0].options[0]._source.brand).toBe('nike')
+      // @ts-expect-error no suggester named "other"
+      expect(suggestions.other).toBeUndefined()
+    })
+
+    it('should report a missing suggester', () => {
+      expect(() =>
+        builder.suggestions({ hits: { hits: [] }, suggest: { spelling: [] } })
+      ).toThrow('Response has no suggestions named "autocomplete"')
+    })
+  })
+})
@@ -0,0 +1,283 @@
+import { QueryBuilder } from '../src/query-builder'
+import { targetSupports } from '../src/target'
+
+describe('Search targets', () => {
+  const es7 = { engine: 'elasticsearch' as const, version: '7.17' }
+  const es8 = { engine: 'elasticsearch' as const, version: '8.11.1' }
+  const os2 = { engine: 'opensearch' as const, version: '2.11' }
+
+  describe('Date histogram intervals', () => {
+    const builder = () =>
+      new QueryBuilder()
+        .dateHistogramAgg('per_day', 'created_at', '1d', (day) =>
+          day.dateHistogramAgg('per_hour', 'created_at', '6h')
+        )
+        .compositeAgg('pages', [
+          { day: { date_histogram: { field: 'd', calendar_interval: '1d' } } },
+        ])
+
+    it('should emit calendar and fixed intervals', () => {
+      const query = builder().target(es8).build()
+
+      expect(query.aggs!.per_day.date_histogram).toEqual({
+        field: 'created_at',
+        calendar_interval: '1d',
+      })
+      expect(query.aggs!.per_day.aggs.per_hour.date_histogram).toEqual({
+        field: 'created_at',
+        fixed_interval: '6h',
+      })
+    })
+
+    it('should emit interval before Elasticsearch 7.2', () => {
+      const query = builder()
+        .target({ engine: 'elasticsearch', version: '7.1' })
+        .build()
+
+      expect(query.aggs!.per_day.date_histogram).toEqual({
+        field: 'created_at',
+        interval: '1d',
+      })
+      expect(query.aggs!.pages.composite.sources[0].day.date_histogram).toEqual(
+        { field: 'd', interval: '1d' }
+      )
+    })
+
+    it('should leave the default DSL unchanged without a target', () => {
+      const query = builder().target(es8).target(false).build()
+
+      expect(query.aggs!.per_day.aggs.per_hour.date_histogram).toEqual({
+        field: 'created_at',
+        calendar_interval: '6h',
+      })
+    })
+  })
+
+  describe('geo_polygon', () => {
+    const points: [number, number][] = [
+      [40, -70],
+      [30, -80],
+      [20, -90],
+    ]
+
+    it('should become geo_shape on Elasticsearch 8', () => {
+      const query = new QueryBuilder()
+        .filterAgg('area', (q) => q.geoPolygon('location', points))
+        .geoPolygon('location', points)
+        .target(es8)
+        .build()
+
+      const geoShape = {
+        geo_shape: {
+          location: {
+            shape: {
+              type: 'polygon',
+              coordinates: [
+                [
+                  [-70, 40],
+                  [-80, 30],
+                  [-90, 20],
+                  [-70, 40],
+                ],
+              ],
+            },
+            relation: 'intersects',
+          },
+        },
+      }
+      expect(query.query!.bool!.filter).toEqual([geoShape])
+      expect(query.aggs!.area.filter.bool.filter).toEqual([geoShape])
+    })
+
+    it('should stay geo_polygon where the engine has it', () => {
+      for (const target of [es7, os2]) {
+        const query = new QueryBuilder()
+          .geoPolygon('location', points)
+          .target(target)
+          .build()
+        expect(query.query!.bool!.filter![0].geo_polygon).toBeDefined()
+      }
+    })
+  })
+
+  describe('Unsupported features', () => {
+    it('should reject engine-specific vector queries', () => {
+      const neural = new QueryBuilder().neural('embedding', 'text', { k: 5 })
+
+      expect(() => neural.clone().target(es8).build()).toThrow(
+        expect.objectContaining({ code: 'UNSUPPORTED_IN_TARGET' })
+      )
+      expect(() =>
+        neural.clone().target({ engine: 'opensearch', version: '2.4' }).build()
+      ).toThrow(
+        'neural query is not supported by OpenSearch 2.4; it needs OpenSearch 2.9 or later'
+      )
+      expect(() => neural.clone().target(os2).build()).not.toThrow()
+      expect(() =>
+        new QueryBuilder().knn('v', [1], { k: 1 }).target(os2).build()
+      ).toThrow(expect.objectContaining({ code: 'UNSUPPORTED_IN_TARGET' }))
+    })
+
+    it('should find clauses in sub-queries, with their path', () => {
+      const builder = new QueryBuilder()
+        .nested('comments', (q) => q.knnQuery('embedding', [1, 2], { k: 3 }))
+        .target(es8)
+
+      expect(() => builder.build()).toThrow(
+        expect.objectContaining({
+          field: 'query.bool.must[0].nested.query.bool.must[0].knn',
+        })
+      )
+    })
+
+    it('should check runtime fields and point in time', () => {
+      expect(() =>
+        new QueryBuilder().runtimeField('day', 'keyword').target(os2).build()
+      ).toThrow(expect.objectContaining({ code: 'UNSUPPORTED_IN_TARGET' }))
+      expect(() =>
+        new QueryBuilder()
+          .pit('abc')
+          .target({ engine: 'elasticsearch', version: '7.9' })
+          .build()
+      ).toThrow(expect.objectContaining({ code: 'UNSUPPORTED_IN_TARGET' }))
+    })
+  })
+
+  describe('Top-level knn', () => {
+    it('should emit one section as an object before 8.7', () => {
+      const builder = new QueryBuilder().knn('v', [1, 2], { k: 5 })
+      const target = { engine: 'elasticsearch' as const, version: '8.5' }
+
+      expect(builder.clone().target(target).build().knn).toEqual({
+        field: 'v',
+        query_vector: [1, 2],
+        k: 5,
+      })
+      expect(builder.clone().target(es8).build().knn).toHaveLength(1)
+      expect(() =>
+        builder.clone().knn('w', [1], { k: 1 }).target(target).build()
+      ).toThrow(expect.objectContaining({ code: 'UNSUPPORTED_IN_TARGET' }))
+    })
+  })
+
+  describe('Vector queries and scripts', () => {
+    it('should emit the knn query in each engine shape', () => {
+      const builder = new QueryBuilder().knnQuery('embedding', [1, 2], {
+        k: 10,
+        filter: (q) =>
+          q.geoPolygon('loc', [
+            [0, 0],
+            [1, 1],
+            [1, 0],
+          ]),
+      })
+      const es812 = { engine: 'elasticsearch' as const, version: '8.12' }
+
+      expect(builder.clone().target(es812).build().query).toEqual({
+        bool: {
+          must: [
+            {
+              knn: {
+                field: 'embedding',
+                query_vector: [1, 2],
+                num_candidates: 10,
+                filter: {
+                  bool: { filter: [{ geo_shape: expect.anything() }] },
+                },
+              },
+            },
+          ],
+        },
+      })
+      expect(
+        builder.clone().target(os2).build().query!.bool!.must![0].knn.embedding
+      ).toEqual(expect.objectContaining({ vector: [1, 2], k: 10 }))
+      expect(() => builder.clone().target(es8).build()).toThrow(
+        'knn query is not supported by Elasticsearch 8.11.1; it needs Elasticsearch 8.12 or later'
+      )
+    })
+
+    it('should pass vector fields to script functions as each engine expects', () => {
+      const source = "cosineSimilarity(params.v, 'embedding') + 1.0"
+      const builder = new QueryBuilder()
+        .script(source)
+        .scriptField('similarity', "l1norm(params.v, 'embedding')")
+
+      const opensearch = builder.clone().target(os2).build()
+      expect(opensearch.query!.bool!.must![0].script.script.source).toBe(
+        "cosineSimilarity(params.v, doc['embedding']) + 1.0"
+      )
+      expect(opensearch.script_fields!.similarity.script.source).toBe(
+        "l1Norm(params.v, doc['embedding'])"
+      )
+      const es73 = builder
+        .clone()
+        .target({ engine: 'elasticsearch', version: '7.3' })
+        .build()
+      expect(es73.query!.bool!.must![0].script.script.source).toBe(
+        "cosineSimilarity(params.v, doc['embedding']) + 1.0"
+      )
+      expect(
+        builder.clone().target(es8).build().query!.bool!.must![0].script.script
+          .source
+      ).toBe(source)
+      expect(() =>
+        new QueryBuilder()
+          .script("dotProduct(params.v, 'embedding') > 0")
+          .target(os2)
+          .build()
+      ).toThrow('dotProduct() is not supported by OpenSearch 2.11 scripts')
+    })
+  })
+
+  describe('Join queries', () => {
+    it('should emit has_parent alike for every engine', () => {
+      const builder = new QueryBuilder().hasParent(
+        'question',
+        (q) => q.term('status', 'open'),
+        { score: true, innerHits: { size: 1 } }
+      )
+      const os1 = { engine: 'opensearch' as const, version: '1.3' }
+      const emitted = [es7, es8, os1, os2].map(
+        (target) => builder.clone().target(target).build().query
+      )
+
+      expect(emitted[0]!.bool!.must![0]).toEqual({
+        has_parent: {
+          parent_type: 'question',
+          query: { bool: { filter: [{ term: { 'status.keyword': 'open' } }] } },
+          inner_hits: { size: 1 },
+          score: true,
+        },
+      })
+      emitted.forEach((query) => expect(query).toEqual(emitted[0]))
+    })
+  })
+
+  describe('Targets', () => {
+    it('should validate engine and version', () => {
+      const builder = new QueryBuilder()
+
+      expect(() =>
+        builder.target({ engine: 'solr' as any, version: '9' })
+      ).toThrow(expect.objectContaining({ code: 'INVALID_TARGET' }))
+      expect(() =>
+        builder.target({ engine: 'opensearch', version: 'x' })
+      ).toThrow(expect.objectContaining({ code: 'INVALID_TARGET' }))
+      expect(() =>
+        builder.target({ engine: 'elasticsearch', version: '6.8' })
+      ).toThrow(
+        'Elasticsearch 6.8 is not a supported target; supported major versions are 7, 8'
+      )
+    })
+
+    it('should answer capability checks', () => {
+      expect(targetSupports(es7, 'geoPolygon')).toBe(true)
+      expect(targetSupports(es8, 'geoPolygon')).toBe(false)
+      expect(targetSupports(os2, 'hybridQuery')).toBe(true)
+      expect(
+        targetSupports({ engine: 'opensearch', version: '2.9' }, 'hybridQuery')
+      ).toBe(false)
+    })
+  })
+})
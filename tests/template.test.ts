@@ -0,0 +1,138 @@
+import { QueryBuilder } from '../src/query-builder'
+import { SearchTemplate, param, renderTemplate } from '../src/template'
+
+interface Ticket {
+  title: string
+  status: string
+  priority: number
+  tags: string[]
+}
+
+describe('Search templates', () => {
+  const builder = () =>
+    new QueryBuilder<Ticket>()
+      .match('title', param('text'))
+      .raw({ term: { status: param('status', { default: 'open' }) } }, 'filter')
+      .raw({ terms: { tags: param('tags', { json: true }) } }, 'filter')
+      .range('priority', { gte: param('minPriority', { default: 1 }) })
+
+  describe('SearchTemplate.from', () => {
+    it('should turn params into mustache placeholders', () => {
+      const template = SearchTemplate.from(builder())
+
+      expect(template.source).toContain('"query":"{{text}}"')
+      expect(template.source).toContain(
+        '"status":"{{status}}{{^status}}open{{/status}}"'
+      )
+      expect(template.source).toContain('"tags":{{#toJson}}tags{{/toJson}}')
+      expect(template.source).toContain(
+        '"gte":{{#toJson}}minPriority{{/toJson}}{{^minPriority}}1{{/minPriority}}'
+      )
+      expect(template.params()).toEqual([
+        'text',
+        'status',
+        'tags',
+        'minPriority',
+      ])
+    })
+
+    it('should render to the body the builder would build', () => {
+      const rendered = SearchTemplate.from(builder()).render({
+        text: 'login "fails"',
+        tags: ['auth', 'web'],
+      })
+
+      expect(rendered).toEqual(
+        new QueryBuilder<Ticket>()
+          .match('title', 'login "fails"')
+          .raw({ term: { status: 'open' } }, 'filter')
+          .raw({ terms: { tags: ['auth', 'web'] } }, 'filter')
+          .range('priority', { gte: 1 })
+          .build()
+      )
+      expect(
+        SearchTemplate.from(builder()).render({
+          text: 'x',
+          tags: [],
+          status: 'closed',
+          minPriority: 3,
+        }).query!.bool!.filter
+      ).toContainEqual({ range: { priority: { gte: 3 } } })
+    })
+
+    it('should require params without defaults', () => {
+      expect(() =>
+        SearchTemplate.from(builder()).render({ text: 'x' })
+      ).toThrow('Missing template parameters: tags')
+    })
+  })
+
+  describe('Request bodies', () => {
+    it('should emit _scripts and _search/template bodies', () => {
+      const stored = SearchTemplate.from(builder(), 'ticket-search')
+      const inline = new SearchTemplate('{"size":{{#toJson}}n{{/toJson}}}')
+
+      expect(stored.toStoredScript()).toEqual({
+        script: { lang: 'mustache', source: stored.source },
+      })
+      expect(stored.toSearchRequest({ text: 'x' })).toEqual({
+        id: 'ticket-search',
+        params: { text: 'x' },
+      })
+      expect(inline.toSearchRequest({ n: 5 })).toEqual({
+        source: '{"size":{{#toJson}}n{{/toJson}}}',
+        params: { n: 5 },
+      })
+    })
+  })
+
+  describe('renderTemplate', () => {
+    it('should render sections, inverted sections and comments', () => {
+      const source =
+        '{{! tags }}[{{#tags}}"{{.}}",{{/tags}}"end"]{{^tags}} none{{/tags}}'
+
+      expect(renderTemplate(source, { tags: ['a', 'b'] })).toBe(
+        '["a","b","end"]'
+      )
+      expect(renderTemplate(source, { tags: [] })).toBe('["end"] none')
+      expect(
+        renderTemplate('{{#user}}{{name}}{{/user}}', { user: { name: 'x' } })
+      ).toBe('x')
+      expect(
+        renderTemplate('{{a.b}}-{{{raw}}}', { a: { b: 1 }, raw: '"' })
+      ).toBe('1-"')
+    })
+
+    it('should reject unsupported and unbalanced tags', () => {
+      expect(() => renderTemplate('{{> partial}}')).toThrow(
+        expect.objectContaining({ code: 'TEMPLATE_SYNTAX_ERROR' })
+      )
+      expect(() => renderTemplate('{{#a}}x')).toThrow(
+        'Unclosed section "a" at position 0'
+      )
+      expect(() => renderTemplate('{{#a}}{{/b}}')).toThrow(
+        expect.objectContaining({ code: 'TEMPLATE_SYNTAX_ERROR' })
+      )
+      expect(() => renderTemplate('{{obj}}', { obj: {} })).toThrow(
+        expect.objectContaining({ code: 'TEMPLATE_PARAM_NOT_SCALAR' })
+      )
+    })
+
+    it('should report a render that is not JSON', () => {
+      expect(() =>
+        new SearchTemplate('{"a":{{x}}}').render({ x: 'b' })
+      ).toThrow(expect.objectContaining({ code: 'TEMPLATE_RENDER_ERROR' }))
+    })
+  })
+
+  describe('param', () => {
+    it('should validate names and defaults', () => {
+      expect(() => param('bad name')).toThrow(
+        expect.objectContaining({ code: 'INVALID_TEMPLATE_PARAM' })
+      )
+      expect(() => param('a', { default: { x: 1 } })).toThrow(
+        expect.objectContaining({ code: 'INVALID_TEMPLATE_PARAM' })
+      )
+    })
+  })
+})
@@ -0,0 +1,156 @@
+import { QueryBuilder } from '../src/query-builder'
+import { EcommerceQueryBuilder } from '../src/presets'
+import { createQuery } from '../src/index'
+
+interface Product {
+  name: string
+  price: number
+  inStock: boolean
+  createdAt: Date
+  tags: string[]
+  brand: {
+    name: string
+    country?: string
+  }
+  variants: Array<{
+    color: string
+    size: number
+  }>
+}
+
+describe('Typed field paths', () => {
+  it('should accept top-level and dotted paths', () => {
+    const result = createQuery<Product>()
+      .match('name', 'laptop')
+      .term('brand.name', 'acme')
+      .range('variants.size', { gte: 10 })
+      .exists('brand.country')
+      .build()
+
+    expect(result.query?.bool?.must).toContainEqual({
+      match: { name: { query: 'laptop' } },
+    })
+    expect(result.query?.bool?.filter).toContainEqual({
+      term: { 'brand.name.keyword': 'acme' },
+    })
+    expect(result.query?.bool?.filter).toContainEqual({
+      range: { 'variants.size': { gte: 10 } },
+    })
+  })
+
+  it('should type values from the field type', () => {
+    const builder = new QueryBuilder<Product>()
+      .term('inStock', true)
+      .terms('tags', ['sale', 'new'])
+      .range('price', { gte: 10, lte: 100 })
+      .range('createdAt', { gte: 'now-7d' })
+
+    // @ts-expect-error price is a number field
+    builder.term('price', 'cheap')
+    // @ts-expect-error tags holds strings
+    builder.terms('tags', [1, 2])
+
+    expect(builder.build().query?.bool?.filter).toHaveLength(6)
+  })
+
+  it('should reject unknown fields at compile time', () => {
+    const builder = createQuery<Product>()
+
+    // @ts-expect-error typo in field name
+    expect(() => builder.sort('prcie', 'asc')).not.toThrow()
+    // @ts-expect-error unknown nested path
+    expect(() => builder.match('brand.title', 'x')).not.toThrow()
+  })
+
+  it('should restrict range and numeric aggregations to number/date paths', () => {
+    const builder = createQuery<Product>()
+      .avgAgg('avg_price', 'price')
+      .dateHistogramAgg('per_month', 'createdAt', '1M')
+      .termsAgg('brands', 'brand.name.keyword')
+
+    // @ts-expect-error name is a string field
+    builder.range('name', { gte: 'a' })
+    // @ts-expect-error name is a string field
+    builder.avgAgg('avg_name', 'name')
+
+    expect(Object.keys(builder.build().aggs || {})).toEqual([
+      'avg_price',
+      'per_month',
+      'brands',
+      'avg_name',
+    ])
+  })
+
+  it('should only allow .keyword on string fields', () => {
+    const builder = createQuery<Product>().sort('name.keyword', 'asc')
+
+    // @ts-expect-error price is not a string field
+    builder.sort('price.keyword')
+
+    expect(builder.build().sort).toHaveLength(2)
+  })
+
+  it('should carry the document type through sub-builders', () => {
+    const result = createQuery<Product>()
+      .should((q) => {
+        q.term('brand.name', 'acme')
+        // @ts-expect-error unknown field in should callback
+        q.term('brand.nam', 'acme')
+      })
+      .mustNot((q) => {
+        q.term('inStock', false)
+      })
+      .nested('variants', (q) => {
+        q.term('variants.color', 'red')
+      })
+      .build()
+
+    expect(result.query?.bool?.must).toContainEqual({
+      nested: {
+        path: 'variants',
+        query: {
+          bool: { filter: [{ term: { 'variants.color.keyword': 'red' } }] },
+        },
+      },
+    })
+  })
+
+  it('should carry the document type and subclass through clone', () => {
+    class ProductQueryBuilder extends QueryBuilder<Product> {
+      available(): this {
+        this.term('inStock', true)
+        return this
+      }
+    }
+    const original = new ProductQueryBuilder().available()
+    const cloned = original.clone()
+
+    expect(cloned).toBeInstanceOf(ProductQueryBuilder)
+    cloned.sort('price', 'desc').term('brand.name', 'acme')
+    // @ts-expect-error typo in cloned builder
+    cloned.term('brnd', 'acme')
+
+    expect(original.build().sort).toBeUndefined()
+  })
+
+  it('should type presets by the document', () => {
+    const query = new EcommerceQueryBuilder<Product>()
+      .sortByPrice('desc')
+      .clone()
+
+    expect(query).toBeInstanceOf(EcommerceQueryBuilder)
+    query.term('brand.name', 'acme')
+    // @ts-expect-error typo in a typed preset
+    query.term('brnd', 'acme')
+    expect(query.build().sort).toEqual([{ price: 'desc' }])
+  })
+
+  it('should keep untyped builders accepting any string field', () => {
+    const field: string = 'anything.goes'
+    const result = new QueryBuilder().term(field, 42).build()
+
+    expect(result.query?.bool?.filter).toContainEqual({
+      term: { 'anything.goes.keyword': 42 },
+    })
+  })
+})
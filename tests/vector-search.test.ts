@@ -0,0 +1,170 @@
+import { QueryBuilder } from '../src/query-builder'
+import { ContentQueryBuilder } from '../src/presets'
+
+interface Article {
+  title: string
+  category: string
+  embedding: number[]
+}
+
+describe('Vector search', () => {
+  describe('knn (Elasticsearch)', () => {
+    it('should add a top-level knn section next to the query', () => {
+      const query = new QueryBuilder<Article>()
+        .match('title', 'vector databases')
+        .knn('embedding', [0.1, 0.2, 0.3], {
+          k: 10,
+          numCandidates: 100,
+          filter: (f) => f.term('category', 'tech'),
+          boost: 2,
+          dimensions: 3,
+        })
+        .build()
+
+      expect(query.query!.bool!.must).toHaveLength(1)
+      expect(query.knn).toEqual([
+        {
+          field: 'embedding',
+          query_vector: [0.1, 0.2, 0.3],
+          k: 10,
+          num_candidates: 100,
+          filter: {
+            bool: { filter: [{ term: { 'category.keyword': 'tech' } }] },
+          },
+          boost: 2,
+        },
+      ])
+    })
+
+    it('should validate vectors, k and numCandidates', () => {
+      const builder = new QueryBuilder()
+
+      expect(() => builder.knn('v', [], { k: 1 })).toThrow(
+        expect.objectContaining({ code: 'INVALID_VECTOR' })
+      )
+      expect(() => builder.knn('v', [1, NaN], { k: 1 })).toThrow(
+        expect.objectContaining({ code: 'INVALID_VECTOR' })
+      )
+      expect(() => builder.knn('v', [1, 2], { k: 1, dimensions: 3 })).toThrow(
+        expect.objectContaining({ code: 'VECTOR_DIMENSION_MISMATCH' })
+      )
+      expect(() => builder.knn('v', [1], { k: 0 })).toThrow(
+        'k must be a positive integer'
+      )
+      expect(() => builder.knn('v', [1], { k: 10, numCandidates: 5 })).toThrow(
+        expect.objectContaining({ code: 'INVALID_NUM_CANDIDATES' })
+      )
+    })
+
+    it('should require one vector length per field', () => {
+      const builder = new QueryBuilder().knn('v', [1, 2], { k: 5 })
+
+      expect(() => builder.knn('v', [1, 2], { k: 5 })).not.toThrow()
+      expect(() => builder.knn('v', [1, 2, 3], { k: 5 })).toThrow(
+        expect.objectContaining({ code: 'VECTOR_DIMENSION_MISMATCH' })
+      )
+    })
+  })
+
+  describe('OpenSearch clauses', () => {
+    it('should add knn and neural query clauses', () => {
+      const query = new QueryBuilder<Article>()
+        .knnQuery('embedding', [0.5, 0.5], {
+          k: 5,
+          filter: (f) => f.term('category', 'tech'),
+        })
+        .neural('embedding', 'vector databases', {
+          k: 20,
+          modelId: 'model-1',
+        })
+        .build()
+
+      expect(query.query!.bool!.must).toEqual([
+        {
+          knn: {
+            embedding: {
+              vector: [0.5, 0.5],
+              k: 5,
+              filter: {
+                bool: { filter: [{ term: { 'category.keyword': 'tech' } }] },
+              },
+            },
+          },
+        },
+        {
+          neural: {
+            embedding: {
+              query_text: 'vector databases',
+              k: 20,
+              model_id: 'model-1',
+            },
+          },
+        },
+      ])
+    })
+
+    it('should combine a lexical builder and a vector clause with weights', () => {
+      const lexical = new ContentQueryBuilder().searchContent('vector search')
+      const query = new QueryBuilder()
+        .hybrid(
+          [lexical, (q) => q.neural('embedding', 'vector search', { k: 50 })],
+          { weights: [0.3, 0.7], normalization: 'l2' }
+        )
+        .size(10)
+        .build()
+
+      expect(query.query!.hybrid.queries).toEqual([
+        lexical.build().query,
+        {
+          bool: {
+            must: [
+              {
+                neural: {
+                  embedding: { query_text: 'vector search', k: 50 },
+                },
+              },
+            ],
+          },
+        },
+      ])
+      expect(query.search_pipeline).toEqual({
+        phase_results_processors: [
+          {
+            'normalization-processor': {
+              normalization: { technique: 'l2' },
+              combination: {
+                technique: 'arithmetic_mean',
+                parameters: { weights: [0.3, 0.7] },
+              },
+            },
+          },
+        ],
+      })
+    })
+
+    it('should validate hybrid sub-queries and weights', () => {
+      const builder = new QueryBuilder()
+      const sub = (q: QueryBuilder) => q.match('title', 'x')
+
+      expect(() => builder.hybrid([])).toThrow(
+        expect.objectContaining({ code: 'INVALID_HYBRID_QUERIES' })
+      )
+      expect(() => builder.hybrid([sub, sub], { weights: [0.5, 0.6] })).toThrow(
+        expect.objectContaining({ code: 'INVALID_HYBRID_WEIGHTS' })
+      )
+      expect(() => builder.hybrid([sub], { weights: [0.5, 0.5] })).toThrow(
+        expect.objectContaining({ code: 'INVALID_HYBRID_WEIGHTS' })
+      )
+    })
+
+    it('should keep hybrid at the top level', () => {
+      const builder = new QueryBuilder()
+        .hybrid([(q) => q.match('title', 'x')])
+        .term('category', 'tech')
+
+      expect(() => builder.build()).toThrow(
+        expect.objectContaining({ code: 'HYBRID_NOT_TOP_LEVEL' })
+      )
+    })
+  })
+})